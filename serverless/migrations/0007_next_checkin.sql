@@ -0,0 +1,12 @@
+-- Migration: Precomputed next check-in instant per user
+-- Lets the cron query only users whose next slot is due instead of scanning every user
+
+-- Next scheduled check-in as an ISO8601 UTC instant (NULL = nothing scheduled)
+ALTER TABLE users ADD COLUMN next_checkin_at TEXT;
+
+-- Index for the per-minute "due users" query
+CREATE INDEX IF NOT EXISTS idx_users_next_checkin ON users(next_checkin_at)
+WHERE next_checkin_at IS NOT NULL;
+
+-- Mark every existing user as due so the first cron run computes their real next slot
+UPDATE users SET next_checkin_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now');
@@ -0,0 +1,6 @@
+-- Migration: Catch-up for missed cron ticks
+-- The scheduler records a high-water mark (scheduler_last_run_at) in system_config
+-- and materializes slots missed since then, up to scheduler_max_catchup_minutes old
+
+INSERT OR IGNORE INTO system_config (key, value) VALUES
+    ('scheduler_max_catchup_minutes', '60');
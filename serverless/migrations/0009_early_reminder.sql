@@ -0,0 +1,13 @@
+-- Migration: Early reminder push before each scheduled check-in
+-- next_early_reminder_at is kept in step with next_checkin_at and cleared once sent
+
+-- When the next early reminder is due (ISO8601 UTC, NULL = none scheduled)
+ALTER TABLE users ADD COLUMN next_early_reminder_at TEXT;
+
+-- Index for the per-minute "due reminders" query
+CREATE INDEX IF NOT EXISTS idx_users_next_early_reminder ON users(next_early_reminder_at)
+WHERE next_early_reminder_at IS NOT NULL;
+
+-- Users who already enabled early reminders get theirs computed on the next schedule refresh
+UPDATE users SET next_checkin_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+WHERE early_reminder_enabled = 1 AND next_checkin_at IS NOT NULL;
@@ -0,0 +1,15 @@
+-- Migration: Graduated in-grace reminder ladder
+-- Pending events get follow-up pushes at configurable points in the grace window
+
+-- User's ladder, e.g. [{"percent": 50}, {"minutes_before_deadline": 1}]
+ALTER TABLE users ADD COLUMN reminder_ladder TEXT NOT NULL DEFAULT '[{"percent":50},{"minutes_before_deadline":1}]';
+
+-- Number of ladder steps already sent for the event (never re-sent)
+ALTER TABLE checkin_events ADD COLUMN reminders_sent INTEGER NOT NULL DEFAULT 0;
+
+-- When the next ladder step is due (NULL = ladder exhausted)
+ALTER TABLE checkin_events ADD COLUMN next_reminder_at TEXT;
+
+-- Index for the per-minute "due reminders" query
+CREATE INDEX IF NOT EXISTS idx_events_next_reminder ON checkin_events(next_reminder_at)
+WHERE next_reminder_at IS NOT NULL;
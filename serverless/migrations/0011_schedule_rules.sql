@@ -0,0 +1,13 @@
+-- Migration: Per-weekday and recurrence-rule schedules
+-- schedule_rules replaces the flat checkin_times list as the source of truth.
+-- Format: [{"times": ["09:00"], "days": ["MO","TU","WE","TH","FR"]},
+--          {"times": ["10:30"], "days": ["SA","SU"]},
+--          {"times": ["20:00"], "interval_days": 2, "start_date": "2026-01-05"}]
+-- checkin_times is still written (all distinct times) for older clients.
+
+ALTER TABLE users ADD COLUMN schedule_rules TEXT;
+
+-- Carry every existing schedule over as a single every-day rule
+UPDATE users
+SET schedule_rules = json_array(json_object('times', json(checkin_times)))
+WHERE json_valid(checkin_times);
@@ -0,0 +1,8 @@
+-- Migration: Ad-hoc one-off "timer" check-ins
+-- e.g. "I'm going hiking, check on me by 17:30"
+
+-- Event kind: scheduled (from the user's schedule) or timer (one-off)
+ALTER TABLE checkin_events ADD COLUMN kind TEXT NOT NULL DEFAULT 'scheduled';
+
+-- Optional note for contacts, encrypted like contact phone numbers
+ALTER TABLE checkin_events ADD COLUMN note_enc TEXT;
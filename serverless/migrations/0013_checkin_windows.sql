@@ -0,0 +1,6 @@
+-- Migration: Check-in windows ("anytime between 07:00 and 10:00")
+-- A window event is created at the window start (scheduled_time) and its
+-- deadline_time is the window end. window_end keeps the original end even if
+-- the deadline is later moved by snooze or catch-up.
+
+ALTER TABLE checkin_events ADD COLUMN window_end TEXT;
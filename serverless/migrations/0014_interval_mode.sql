@@ -0,0 +1,12 @@
+-- Migration: Rolling-interval check-in mode ("every N hours since last confirmation")
+-- In interval mode the next deadline is interval_anchor_at + interval_hours,
+-- where the anchor moves forward on every confirmation.
+
+-- 'schedule' (clock times from schedule_rules) or 'interval'
+ALTER TABLE users ADD COLUMN checkin_mode TEXT NOT NULL DEFAULT 'schedule';
+
+-- Hours allowed between confirmations in interval mode
+ALTER TABLE users ADD COLUMN interval_hours INTEGER NOT NULL DEFAULT 8;
+
+-- Last confirmation (or when interval mode was enabled)
+ALTER TABLE users ADD COLUMN interval_anchor_at TEXT;
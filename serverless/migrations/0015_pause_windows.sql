@@ -0,0 +1,29 @@
+-- Migration: Pause calendar
+-- Multiple future pause ranges (e.g. a planned trip) and recurring pauses
+-- (e.g. every Sunday, or nightly 23:00-07:00), in addition to users.pause_until.
+
+CREATE TABLE IF NOT EXISTS pause_windows (
+    pause_id TEXT PRIMARY KEY,                   -- UUID
+    user_id TEXT NOT NULL,                       -- Foreign key to users
+    kind TEXT NOT NULL,                          -- 'range' or 'recurring'
+
+    -- Range pauses: absolute ISO8601 instants, ends_at exclusive
+    starts_at TEXT,
+    ends_at TEXT,
+
+    -- Recurring pauses: wall-clock times in the user's timezone
+    days TEXT,                                   -- JSON array of weekdays (SU..SA), NULL = every day
+    start_time TEXT,                             -- HH:MM
+    end_time TEXT,                               -- HH:MM, wraps past midnight if <= start_time
+
+    label TEXT,                                  -- Optional user-facing description
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+);
+
+-- Index for loading a user's calendar
+CREATE INDEX IF NOT EXISTS idx_pause_windows_user_id ON pause_windows(user_id);
+
+-- Index for cleaning up finished ranges
+CREATE INDEX IF NOT EXISTS idx_pause_windows_ends_at ON pause_windows(ends_at) WHERE kind = 'range';
@@ -0,0 +1,8 @@
+-- Migration: Automatic resume when pause_until expires
+-- The cron clears expired pauses, restores paused events and notifies the user.
+
+-- Whether linked contacts (with the app) are told when monitoring resumes
+ALTER TABLE users ADD COLUMN notify_contacts_on_resume INTEGER NOT NULL DEFAULT 0;
+
+-- Index for finding expired pauses
+CREATE INDEX IF NOT EXISTS idx_users_pause_until ON users(pause_until) WHERE pause_until IS NOT NULL;
@@ -0,0 +1,14 @@
+-- Migration: Per-user snooze policy
+-- Replaces the hard-coded "one snooze of 5, 10, 15 or 30 minutes" rule.
+
+-- Maximum number of snoozes per event
+ALTER TABLE users ADD COLUMN snooze_max_count INTEGER NOT NULL DEFAULT 1;
+
+-- Allowed snooze durations in minutes, e.g. [5, 10, 15, 30]
+ALTER TABLE users ADD COLUMN snooze_durations TEXT NOT NULL DEFAULT '[5,10,15,30]';
+
+-- Cap on the total minutes an event's deadline can be pushed out
+ALTER TABLE users ADD COLUMN snooze_max_total_minutes INTEGER NOT NULL DEFAULT 30;
+
+-- Total minutes the event has been snoozed so far
+ALTER TABLE checkin_events ADD COLUMN snooze_minutes_total INTEGER NOT NULL DEFAULT 0;
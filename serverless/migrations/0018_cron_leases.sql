@@ -0,0 +1,10 @@
+-- Migration: Cron phase leases
+-- Each cron phase holds a short-lived lease so overlapping runs skip a
+-- phase that is still in progress instead of processing it twice.
+
+CREATE TABLE IF NOT EXISTS cron_leases (
+    name TEXT PRIMARY KEY,                       -- Cron phase name
+    holder TEXT NOT NULL,                        -- Run ID holding the lease
+    acquired_at TEXT NOT NULL,                   -- ISO8601 datetime
+    expires_at TEXT NOT NULL                     -- Lease is free after this (crashed runs)
+);
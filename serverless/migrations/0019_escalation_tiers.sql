@@ -0,0 +1,48 @@
+-- Migration: Arbitrary N-level escalation chains
+-- Replaces the fixed level 1 / level 2 model. Tier N alerts contacts with
+-- level = N, delay_minutes after tier N-1 (tier 1 fires at the deadline).
+
+CREATE TABLE IF NOT EXISTS escalation_tiers (
+    user_id TEXT NOT NULL,                       -- Foreign key to users
+    position INTEGER NOT NULL,                   -- 1-based tier number (matches contacts.level)
+    delay_minutes INTEGER NOT NULL DEFAULT 0,    -- Delay after the previous tier
+    channels TEXT NOT NULL DEFAULT '["sms","push"]', -- JSON array of channels
+
+    -- Timestamps
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+    PRIMARY KEY (user_id, position),
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+);
+
+-- Existing users keep their two levels: level 1 at the deadline,
+-- level 2 after level2_delay_minutes
+INSERT OR IGNORE INTO escalation_tiers (user_id, position, delay_minutes)
+SELECT user_id, 1, 0 FROM users;
+
+INSERT OR IGNORE INTO escalation_tiers (user_id, position, delay_minutes)
+SELECT user_id, 2, COALESCE(level2_delay_minutes, 15) FROM users;
+
+-- When the event reached its current escalation_level
+ALTER TABLE checkin_events ADD COLUMN last_escalated_at TEXT;
+
+-- When the next tier is due (NULL = chain finished or not escalated)
+ALTER TABLE checkin_events ADD COLUMN next_escalation_at TEXT;
+
+UPDATE checkin_events
+SET last_escalated_at = COALESCE(level2_escalated_at, escalated_at)
+WHERE escalated_at IS NOT NULL;
+
+-- Alerted events still waiting for level 2
+UPDATE checkin_events
+SET next_escalation_at = (
+    SELECT strftime('%Y-%m-%dT%H:%M:%fZ', checkin_events.escalated_at,
+        '+' || COALESCE(u.level2_delay_minutes, 15) || ' minutes')
+    FROM users u WHERE u.user_id = checkin_events.user_id
+)
+WHERE status = 'alerted' AND escalation_level = 1 AND escalated_at IS NOT NULL;
+
+-- Index for the per-minute "next tier due" query
+CREATE INDEX IF NOT EXISTS idx_events_next_escalation ON checkin_events(next_escalation_at)
+WHERE next_escalation_at IS NOT NULL;
@@ -0,0 +1,21 @@
+-- Migration: Contact acknowledgment of alerts
+-- A contact can acknowledge an alert (SMS reply, push action, or signed
+-- link). The first acknowledgment halts later escalation tiers and the
+-- other alerted contacts are told someone is on it.
+
+-- Why a delivery was sent: 'alert' (escalation) or 'ack_notice' (someone
+-- else acknowledged). Part of the idempotency key, so a contact can get
+-- both an alert and a notice on the same channel.
+ALTER TABLE alert_deliveries ADD COLUMN purpose TEXT NOT NULL DEFAULT 'alert';
+
+-- When the recipient acknowledged this alert
+ALTER TABLE alert_deliveries ADD COLUMN acknowledged_at TEXT;
+
+DROP INDEX IF EXISTS idx_deliveries_event_contact;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deliveries_event_contact
+ON alert_deliveries(event_id, contact_id, channel, purpose);
+
+-- First acknowledgment of the event
+ALTER TABLE checkin_events ADD COLUMN acknowledged_at TEXT;
+ALTER TABLE checkin_events ADD COLUMN acknowledged_by TEXT;   -- contact_id
+ALTER TABLE checkin_events ADD COLUMN acknowledged_via TEXT;  -- sms, push, link
@@ -0,0 +1,8 @@
+-- Migration: Check-in PIN and duress PIN
+-- With a PIN set, confirmations must carry it. Confirming with the duress
+-- PIN looks like a normal confirmation but silently escalates a hidden
+-- event of kind 'duress' to the user's contacts.
+
+-- PBKDF2 hashes ("pbkdf2$<iterations>$<salt>$<hash>"), NULL = not set
+ALTER TABLE users ADD COLUMN checkin_pin_hash TEXT;
+ALTER TABLE users ADD COLUMN duress_pin_hash TEXT;
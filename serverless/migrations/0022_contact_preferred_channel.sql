@@ -0,0 +1,8 @@
+-- Migration: Per-contact text channel
+-- Contacts can ask for alerts on WhatsApp instead of SMS. Tiers that alert
+-- by SMS send WhatsApp to these contacts (falling back to SMS while
+-- WhatsApp is not configured); deliveries are recorded with
+-- channel = 'whatsapp' and retried like SMS.
+
+-- 'sms' or 'whatsapp'
+ALTER TABLE contacts ADD COLUMN preferred_channel TEXT NOT NULL DEFAULT 'sms';
@@ -0,0 +1,7 @@
+-- Migration: Contact email addresses
+-- Contacts can be alerted by email: as their preferred channel
+-- (preferred_channel = 'email'), or as a fallback when a text alert
+-- fails. Deliveries are recorded with channel = 'email'.
+
+-- Email address, encrypted like phone_enc (NULL = none)
+ALTER TABLE contacts ADD COLUMN email_enc TEXT;
@@ -0,0 +1,15 @@
+-- Migration: Per-contact channel order
+-- A contact's channel_steps replace their tier's channels: the first step
+-- is sent when the tier fires, later steps are queued as alert_deliveries
+-- with status 'queued' and sent at scheduled_at unless the alert has been
+-- acknowledged or resolved by then (they are then 'cancelled').
+
+-- JSON array of { channel, delay_minutes }, NULL = use the tier's channels
+ALTER TABLE contacts ADD COLUMN channel_steps TEXT;
+
+-- When a queued delivery is due
+ALTER TABLE alert_deliveries ADD COLUMN scheduled_at TEXT;
+
+-- Index for the per-minute "queued deliveries due" query
+CREATE INDEX IF NOT EXISTS idx_deliveries_queued ON alert_deliveries(scheduled_at)
+WHERE status = 'queued';
@@ -0,0 +1,12 @@
+-- Migration: Reply lookup for SMS and WhatsApp alerts
+-- Inbound replies are matched to the alert they answer by sender_key, an
+-- HMAC of the contact's phone number stored on the delivery when it is
+-- created, instead of decrypting every alerted contact's phone.
+-- Deliveries created before this migration have no key and cannot be
+-- acknowledged by reply (the signed link and push action still work).
+
+ALTER TABLE alert_deliveries ADD COLUMN sender_key TEXT;
+
+-- Index for the incoming-message webhook lookup
+CREATE INDEX IF NOT EXISTS idx_deliveries_sender_key ON alert_deliveries(sender_key)
+WHERE sender_key IS NOT NULL;
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { Env } from '../types';
+import { createTestEnv, TestEnv } from '../test/env';
+import { runBatchedPhase, afterCursor, BatchCursor, BatchPhase } from './batch';
+
+interface Item {
+  id: string;
+  sort: string;
+}
+
+// Two pairs share a sort value, so resuming has to use the id tiebreak
+const ITEMS: Item[] = [
+  { id: '1', sort: 'a' }, { id: '2', sort: 'a' }, { id: '3', sort: 'b' }, { id: '4', sort: 'b' },
+  { id: '5', sort: 'c' }, { id: '6', sort: 'd' }, { id: '7', sort: 'e' },
+];
+
+let testEnv: TestEnv;
+let env: Env;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  env = testEnv.env;
+  await env.DB.prepare('CREATE TABLE batch_items (id TEXT PRIMARY KEY, sort TEXT NOT NULL)').run();
+  await env.DB.batch(ITEMS.map((item) =>
+    env.DB.prepare('INSERT INTO batch_items (id, sort) VALUES (?, ?)').bind(item.id, item.sort)
+  ));
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Each row takes 10ms of (fake) time, so a 25ms budget covers three rows
+function itemPhase(seen: string[]): BatchPhase<Item> {
+  return {
+    name: 'items',
+    batchSize: 2,
+    budgetMs: 25,
+    fetch: async (after, limit) => {
+      const { clause, values } = afterCursor(after, 'sort', 'id');
+      const result = await env.DB.prepare(
+        `SELECT id, sort FROM batch_items WHERE 1 = 1 ${clause} ORDER BY sort, id LIMIT ?`
+      ).bind(...values, limit).all<Item>();
+      return result.results;
+    },
+    cursorOf: (row) => ({ sort: row.sort, id: row.id }),
+    process: async (row) => {
+      seen.push(row.id);
+      vi.setSystemTime(Date.now() + 10);
+    },
+  };
+}
+
+async function savedCursor(): Promise<BatchCursor | null> {
+  const row = await env.DB.prepare(
+    "SELECT value FROM system_config WHERE key = 'cron_cursor_items'"
+  ).first<{ value: string }>();
+  return row && row.value ? JSON.parse(row.value) : null;
+}
+
+describe('runBatchedPhase', () => {
+  it('saves its position when the budget runs out and resumes after it', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const seen: string[] = [];
+
+    expect(await runBatchedPhase(env, itemPhase(seen))).toEqual({ processed: 3, complete: false });
+    expect(await savedCursor()).toEqual({ sort: 'b', id: '3' });
+
+    expect(await runBatchedPhase(env, itemPhase(seen))).toEqual({ processed: 3, complete: false });
+    expect(await savedCursor()).toEqual({ sort: 'd', id: '6' });
+
+    expect(await runBatchedPhase(env, itemPhase(seen))).toEqual({ processed: 1, complete: true });
+    expect(await savedCursor()).toBeNull();
+
+    expect(seen).toEqual(['1', '2', '3', '4', '5', '6', '7']);
+  });
+
+  it('starts from the beginning once the queue has been drained', async () => {
+    const seen: string[] = [];
+
+    expect(await runBatchedPhase(env, { ...itemPhase(seen), budgetMs: 60 * 1000 })).toEqual({ processed: 7, complete: true });
+    expect(seen).toEqual(['1', '2', '3', '4', '5', '6', '7']);
+  });
+});
+
+describe('afterCursor', () => {
+  it('matches everything without a cursor', () => {
+    expect(afterCursor(null, 'sort', 'id')).toEqual({ clause: '', values: [] });
+  });
+});
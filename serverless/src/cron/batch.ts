@@ -0,0 +1,112 @@
+/**
+ * Are You Safe? - Batched Cron Phases
+ *
+ * Processes a phase's work queue in keyset-paginated batches under a
+ * per-run time budget, so a large backlog (e.g. after a provider outage)
+ * drains over several ticks instead of timing out one invocation.
+ *
+ * Rows are visited in (sort, id) order. When the budget runs out, the
+ * position is saved in system_config and the next run resumes after it;
+ * once the end of the queue is reached the cursor resets, so rows before
+ * a resumed cursor are picked up on the following tick.
+ */
+
+import { Env } from '../types';
+
+export interface BatchCursor {
+  sort: string; // Value of the ordering column
+  id: string;   // Primary key, breaks ties
+}
+
+export interface BatchPhase<T> {
+  name: string;
+  // Fetch up to limit rows ordered by (sort, id), strictly after the cursor
+  fetch: (after: BatchCursor | null, limit: number) => Promise<T[]>;
+  cursorOf: (row: T) => BatchCursor;
+  process: (row: T) => Promise<void>;
+  batchSize?: number;
+  budgetMs?: number;
+}
+
+export const DEFAULT_BATCH_SIZE = 50;
+export const DEFAULT_PHASE_BUDGET_MS = 10 * 1000;
+
+/**
+ * Run a batched phase until its queue is drained or the budget is spent
+ * @returns rows processed, and whether the end of the queue was reached
+ */
+export async function runBatchedPhase<T>(
+  env: Env,
+  phase: BatchPhase<T>
+): Promise<{ processed: number; complete: boolean }> {
+  const started = Date.now();
+  const batchSize = phase.batchSize ?? DEFAULT_BATCH_SIZE;
+  const budgetMs = phase.budgetMs ?? DEFAULT_PHASE_BUDGET_MS;
+
+  let cursor = await loadCursor(env.DB, phase.name);
+  let processed = 0;
+
+  for (;;) {
+    const rows = await phase.fetch(cursor, batchSize);
+
+    for (const row of rows) {
+      if (Date.now() - started >= budgetMs) {
+        await saveCursor(env.DB, phase.name, cursor);
+        console.warn(`Cron phase ${phase.name} used its budget after ${processed} rows, resuming next run`);
+        return { processed, complete: false };
+      }
+
+      await phase.process(row);
+      cursor = phase.cursorOf(row);
+      processed++;
+    }
+
+    if (rows.length < batchSize) {
+      break;
+    }
+  }
+
+  await saveCursor(env.DB, phase.name, null);
+  return { processed, complete: true };
+}
+
+/**
+ * SQL condition for "strictly after the cursor" on a (sort, id) pair
+ * Returns the clause and its bind values; an empty clause matches everything.
+ */
+export function afterCursor(
+  cursor: BatchCursor | null,
+  sortColumn: string,
+  idColumn: string
+): { clause: string; values: string[] } {
+  if (!cursor) {
+    return { clause: '', values: [] };
+  }
+  return { clause: `AND (${sortColumn}, ${idColumn}) > (?, ?)`, values: [cursor.sort, cursor.id] };
+}
+
+function cursorKey(name: string): string {
+  return `cron_cursor_${name}`;
+}
+
+async function loadCursor(db: D1Database, name: string): Promise<BatchCursor | null> {
+  const row = await db.prepare(
+    'SELECT value FROM system_config WHERE key = ?'
+  ).bind(cursorKey(name)).first<{ value: string }>();
+
+  if (!row || !row.value) {
+    return null;
+  }
+  try {
+    return JSON.parse(row.value);
+  } catch {
+    return null;
+  }
+}
+
+async function saveCursor(db: D1Database, name: string, cursor: BatchCursor | null): Promise<void> {
+  await db.prepare(`
+    INSERT INTO system_config (key, value, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `).bind(cursorKey(name), cursor ? JSON.stringify(cursor) : '', new Date().toISOString()).run();
+}
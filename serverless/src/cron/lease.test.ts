@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Env } from '../types';
+import { createTestEnv, TestEnv } from '../test/env';
+import { acquireLease, releaseLease, runWithLease } from './lease';
+
+let testEnv: TestEnv;
+let env: Env;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  env = testEnv.env;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+describe('acquireLease', () => {
+  it('gives a free lease to one of two racing holders', async () => {
+    const results = await Promise.all([
+      acquireLease(env.DB, 'race', 'run-a'),
+      acquireLease(env.DB, 'race', 'run-b'),
+    ]);
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('refuses a held lease to another holder but lets the holder renew it', async () => {
+    expect(await acquireLease(env.DB, 'held', 'run-a')).toBe(true);
+    expect(await acquireLease(env.DB, 'held', 'run-b')).toBe(false);
+    expect(await acquireLease(env.DB, 'held', 'run-a')).toBe(true);
+  });
+
+  it('lets another holder take over an expired lease', async () => {
+    expect(await acquireLease(env.DB, 'expired', 'run-a', 0)).toBe(true);
+    expect(await acquireLease(env.DB, 'expired', 'run-b')).toBe(true);
+
+    const lease = await env.DB.prepare('SELECT holder FROM cron_leases WHERE name = ?').bind('expired').first<{ holder: string }>();
+    expect(lease!.holder).toBe('run-b');
+  });
+});
+
+describe('releaseLease', () => {
+  it('only releases a lease held by the caller', async () => {
+    await acquireLease(env.DB, 'release', 'run-a');
+
+    await releaseLease(env.DB, 'release', 'run-b');
+    expect(await acquireLease(env.DB, 'release', 'run-b')).toBe(false);
+
+    await releaseLease(env.DB, 'release', 'run-a');
+    expect(await acquireLease(env.DB, 'release', 'run-b')).toBe(true);
+  });
+});
+
+describe('runWithLease', () => {
+  it('skips the phase while another run holds the lease', async () => {
+    await acquireLease(env.DB, 'phase', 'run-a');
+    let ran = false;
+
+    expect(await runWithLease(env, 'phase', 'run-b', async () => { ran = true; })).toBe(false);
+    expect(ran).toBe(false);
+  });
+
+  it('releases the lease when the phase throws', async () => {
+    await expect(runWithLease(env, 'failing', 'run-a', async () => {
+      throw new Error('phase failed');
+    })).rejects.toThrow('phase failed');
+
+    expect(await acquireLease(env.DB, 'failing', 'run-b')).toBe(true);
+  });
+});
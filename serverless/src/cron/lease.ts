@@ -0,0 +1,70 @@
+/**
+ * Are You Safe? - Cron Leases
+ *
+ * D1-backed mutual exclusion for cron phases. A run acquires a named
+ * lease before processing a phase and releases it afterwards; an
+ * overlapping run finds the lease held and skips that phase. Leases
+ * expire so a run that crashed mid-phase cannot block it forever.
+ */
+
+import { Env } from '../types';
+
+// Default lease lifetime - longer than any phase should take
+export const DEFAULT_LEASE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Try to take a lease
+ * Succeeds if the lease is free, expired, or already held by this holder.
+ * @returns true if the lease is now held by holder
+ */
+export async function acquireLease(
+  db: D1Database,
+  name: string,
+  holder: string,
+  ttlMs: number = DEFAULT_LEASE_TTL_MS
+): Promise<boolean> {
+  const now = new Date();
+  const result = await db.prepare(`
+    INSERT INTO cron_leases (name, holder, acquired_at, expires_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT(name) DO UPDATE SET
+      holder = excluded.holder,
+      acquired_at = excluded.acquired_at,
+      expires_at = excluded.expires_at
+    WHERE cron_leases.expires_at <= excluded.acquired_at OR cron_leases.holder = excluded.holder
+  `).bind(name, holder, now.toISOString(), new Date(now.getTime() + ttlMs).toISOString()).run();
+
+  return (result.meta.changes || 0) > 0;
+}
+
+/**
+ * Release a lease, if still held by holder
+ */
+export async function releaseLease(db: D1Database, name: string, holder: string): Promise<void> {
+  await db.prepare(
+    'DELETE FROM cron_leases WHERE name = ? AND holder = ?'
+  ).bind(name, holder).run();
+}
+
+/**
+ * Run a cron phase under its lease
+ * @returns false if another run holds the lease and the phase was skipped
+ */
+export async function runWithLease(
+  env: Env,
+  name: string,
+  holder: string,
+  phase: (env: Env) => Promise<unknown>,
+  ttlMs: number = DEFAULT_LEASE_TTL_MS
+): Promise<boolean> {
+  if (!await acquireLease(env.DB, name, holder, ttlMs)) {
+    console.warn(`Cron phase ${name} is still running elsewhere, skipping`);
+    return false;
+  }
+
+  try {
+    await phase(env);
+  } finally {
+    await releaseLease(env.DB, name, holder);
+  }
+  return true;
+}
@@ -0,0 +1,969 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { Env, User, CheckinEvent, AlertDelivery } from '../types';
+import { encrypt, generateUUID } from '../utils/crypto';
+import { createTestEnv, insertUser, insertContact, insertEvent, insertDelivery, recordProviderRequests, ProviderRequests, TestEnv } from '../test/env';
+import {
+  handleScheduledCheckins,
+  handleEarlyReminders,
+  handleReminderLadder,
+  handleEscalations,
+  handleTierEscalations,
+  handleQueuedDeliveries,
+  handlePauseExpiry,
+  handleRetries,
+  refreshNextCheckin,
+  triggerEscalation,
+} from './scheduler';
+import { transitionEvent } from '../services/lifecycle';
+import { acknowledgeAlert, getSenderKey } from '../services/acknowledgment';
+import { clearCapturedEmails, getCapturedEmails } from '../services/email';
+import { clearOutbox, getOutbox, setOutboxFailure } from '../services/channels';
+
+let testEnv: TestEnv;
+let env: Env;
+let sent: ProviderRequests;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  env = testEnv.env;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+beforeEach(() => {
+  sent = recordProviderRequests();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+function setNow(iso: string): Date {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date(iso));
+  return new Date(iso);
+}
+
+async function getUser(userId: string): Promise<User> {
+  return (await env.DB.prepare('SELECT * FROM users WHERE user_id = ?').bind(userId).first<User>())!;
+}
+
+// Record when the scheduler last completed (null: it never has)
+async function setLastRun(iso: string | null): Promise<void> {
+  await env.DB.prepare("DELETE FROM system_config WHERE key = 'scheduler_last_run_at'").run();
+  if (iso) {
+    await env.DB.prepare("INSERT INTO system_config (key, value) VALUES ('scheduler_last_run_at', ?)").bind(iso).run();
+  }
+}
+
+async function getLogs(userId: string, eventType: string): Promise<{ result: string; details: Record<string, unknown> }[]> {
+  const result = await env.DB.prepare(
+    'SELECT result, details FROM event_logs WHERE user_id = ? AND event_type = ? ORDER BY created_at'
+  ).bind(userId, eventType).all<{ result: string; details: string | null }>();
+  return result.results.map((log) => ({ result: log.result, details: log.details ? JSON.parse(log.details) : {} }));
+}
+
+// A recurring pause window in the user's local wall-clock time
+async function insertPauseWindow(userId: string, startTime: string, endTime: string): Promise<void> {
+  await env.DB.prepare(`
+    INSERT INTO pause_windows (pause_id, user_id, kind, start_time, end_time)
+    VALUES (?, ?, 'recurring', ?, ?)
+  `).bind(generateUUID(), userId, startTime, endTime).run();
+}
+
+async function getEvent(eventId: string): Promise<CheckinEvent> {
+  return (await env.DB.prepare('SELECT * FROM checkin_events WHERE event_id = ?').bind(eventId).first<CheckinEvent>())!;
+}
+
+async function getEvents(userId: string): Promise<CheckinEvent[]> {
+  const result = await env.DB.prepare(
+    'SELECT * FROM checkin_events WHERE user_id = ? ORDER BY scheduled_time'
+  ).bind(userId).all<CheckinEvent>();
+  return result.results;
+}
+
+describe('refreshNextCheckin', () => {
+  it('stores the next slot in the user\'s timezone', async () => {
+    const userId = await insertUser(env, { timezone: 'America/New_York', checkin_times: '["09:00","21:00"]' });
+
+    const next = await refreshNextCheckin(env.DB, userId, new Date('2026-01-15T15:00:00Z'));
+
+    expect(next).toBe('2026-01-16T02:00:00.000Z');
+    expect((await getUser(userId)).next_checkin_at).toBe(next);
+  });
+
+  it('clears next_checkin_at for users without slots', async () => {
+    const userId = await insertUser(env, { checkin_times: '[]', next_checkin_at: '2026-01-15T14:00:00.000Z' });
+
+    expect(await refreshNextCheckin(env.DB, userId, new Date('2026-01-15T15:00:00Z'))).toBeNull();
+    expect((await getUser(userId)).next_checkin_at).toBeNull();
+  });
+});
+
+describe('handleScheduledCheckins', () => {
+  it('creates the due event and moves the user on to their next slot', async () => {
+    setNow('2026-03-02T14:00:30Z');
+    await setLastRun('2026-03-02T13:59:30.000Z');
+    const userId = await insertUser(env, {
+      timezone: 'America/New_York',
+      checkin_times: '["09:00"]',
+      grace_minutes: 10,
+      next_checkin_at: '2026-03-02T14:00:00.000Z',
+    });
+
+    await handleScheduledCheckins(env);
+
+    const events = await getEvents(userId);
+    expect(events.map((e) => [e.scheduled_time, e.deadline_time, e.status])).toEqual([
+      ['2026-03-02T14:00:00.000Z', '2026-03-02T14:10:30.000Z', 'pending'],
+    ]);
+    expect((await getUser(userId)).next_checkin_at).toBe('2026-03-03T14:00:00.000Z');
+
+    // Running again in the same minute creates nothing new
+    await env.DB.prepare('UPDATE users SET next_checkin_at = ? WHERE user_id = ?')
+      .bind('2026-03-02T14:00:00.000Z', userId).run();
+    await handleScheduledCheckins(env);
+    expect(await getEvents(userId)).toHaveLength(1);
+  });
+
+  it('uses the window end as the deadline of a window slot', async () => {
+    setNow('2026-03-02T07:00:20Z');
+    await setLastRun('2026-03-02T06:59:20.000Z');
+    const userId = await insertUser(env, {
+      timezone: 'UTC',
+      checkin_times: '["07:00"]',
+      schedule_rules: JSON.stringify([{ times: ['07:00-10:00'] }]),
+      grace_minutes: 10,
+      next_checkin_at: '2026-03-02T07:00:00.000Z',
+    });
+
+    await handleScheduledCheckins(env);
+
+    const [event] = await getEvents(userId);
+    expect(event.scheduled_time).toBe('2026-03-02T07:00:00.000Z');
+    expect(event.deadline_time).toBe('2026-03-02T10:00:00.000Z');
+    expect(event.window_end).toBe('2026-03-02T10:00:00.000Z');
+  });
+
+  it('uses the end of a window shorter than the grace period as the deadline', async () => {
+    setNow('2026-03-02T07:00:20Z');
+    await setLastRun('2026-03-02T06:59:20.000Z');
+    const userId = await insertUser(env, {
+      timezone: 'UTC',
+      checkin_times: '["07:00"]',
+      schedule_rules: JSON.stringify([{ times: ['07:00-07:05'] }]),
+      grace_minutes: 10,
+      next_checkin_at: '2026-03-02T07:00:00.000Z',
+    });
+
+    await handleScheduledCheckins(env);
+
+    const [event] = await getEvents(userId);
+    expect(event.deadline_time).toBe('2026-03-02T07:05:00.000Z');
+    expect(event.window_end).toBe('2026-03-02T07:05:00.000Z');
+  });
+
+  it('leaves users whose next check-in is not due', async () => {
+    setNow('2026-03-02T14:00:30Z');
+    const userId = await insertUser(env, {
+      timezone: 'UTC',
+      checkin_times: '["14:00"]',
+      next_checkin_at: '2026-03-02T18:00:00.000Z',
+    });
+
+    await handleScheduledCheckins(env);
+
+    expect(await getEvents(userId)).toHaveLength(0);
+    expect((await getUser(userId)).next_checkin_at).toBe('2026-03-02T18:00:00.000Z');
+  });
+});
+
+describe('handleScheduledCheckins catch-up', () => {
+  it('creates a slot missed by skipped ticks, with a full grace window from now', async () => {
+    setNow('2026-03-02T14:20:30Z');
+    await setLastRun('2026-03-02T13:59:30.000Z');
+    const userId = await insertUser(env, {
+      timezone: 'America/New_York',
+      checkin_times: '["09:00"]',
+      grace_minutes: 10,
+      next_checkin_at: '2026-03-02T14:00:00.000Z',
+    });
+
+    await handleScheduledCheckins(env);
+
+    const [event] = await getEvents(userId);
+    expect(event.scheduled_time).toBe('2026-03-02T14:00:00.000Z');
+    expect(event.deadline_time).toBe('2026-03-02T14:30:30.000Z');
+    expect((await getLogs(userId, 'checkin_scheduled'))[0].details).toMatchObject({ caught_up: true });
+    expect((await getUser(userId)).next_checkin_at).toBe('2026-03-03T14:00:00.000Z');
+
+    const lastRun = await env.DB.prepare(
+      "SELECT value FROM system_config WHERE key = 'scheduler_last_run_at'"
+    ).first<{ value: string }>();
+    expect(lastRun!.value).toBe('2026-03-02T14:20:30.000Z');
+  });
+
+  it('skips slots older than the catch-up limit and logs them', async () => {
+    setNow('2026-03-02T14:20:30Z');
+    await setLastRun('2026-03-02T10:59:30.000Z');
+    const userId = await insertUser(env, {
+      timezone: 'UTC',
+      checkin_times: '["11:00","12:00","13:00","14:00"]',
+      next_checkin_at: '2026-03-02T11:00:00.000Z',
+    });
+
+    await handleScheduledCheckins(env);
+
+    expect((await getEvents(userId)).map((e) => e.scheduled_time)).toEqual(['2026-03-02T14:00:00.000Z']);
+    const [skipped] = await getLogs(userId, 'checkin_catchup_skipped');
+    expect(skipped.result).toBe('skipped');
+    expect(skipped.details).toMatchObject({ slots_skipped: 3, max_catchup_minutes: 60 });
+  });
+
+  it('does not materialize slots the last run already covered', async () => {
+    setNow('2026-03-02T14:05:30Z');
+    await setLastRun('2026-03-02T14:00:30.000Z');
+    const userId = await insertUser(env, {
+      timezone: 'UTC',
+      checkin_times: '["14:00"]',
+      next_checkin_at: '2026-03-02T14:00:00.000Z',
+    });
+
+    await handleScheduledCheckins(env);
+
+    expect(await getEvents(userId)).toHaveLength(0);
+    expect(await getLogs(userId, 'checkin_catchup_skipped')).toHaveLength(0);
+    expect((await getUser(userId)).next_checkin_at).toBe('2026-03-03T14:00:00.000Z');
+  });
+
+  it('keeps the high-water mark when a user could not be processed', async () => {
+    setNow('2026-03-02T14:20:30Z');
+    await setLastRun('2026-03-02T13:59:30.000Z');
+    const userId = await insertUser(env, {
+      timezone: 'UTC',
+      checkin_times: '["14:00"]',
+      next_checkin_at: '2026-03-02T14:00:00.000Z',
+    });
+    // Loading the user's pause windows fails
+    const failingDb = {
+      prepare: (sql: string) => {
+        if (sql.includes('FROM pause_windows')) {
+          throw new Error('D1 unavailable');
+        }
+        return env.DB.prepare(sql);
+      },
+    } as unknown as D1Database;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await handleScheduledCheckins({ ...env, DB: failingDb });
+
+    const lastRun = await env.DB.prepare(
+      "SELECT value FROM system_config WHERE key = 'scheduler_last_run_at'"
+    ).first<{ value: string }>();
+    expect(lastRun!.value).toBe('2026-03-02T13:59:30.000Z');
+
+    // The next run still catches the slot up
+    setNow('2026-03-02T14:21:30Z');
+    await handleScheduledCheckins(env);
+    expect((await getEvents(userId)).map((e) => e.scheduled_time)).toEqual(['2026-03-02T14:00:00.000Z']);
+  });
+
+  it('does not backfill on the first run', async () => {
+    setNow('2026-03-02T14:20:30Z');
+    await setLastRun(null);
+    const userId = await insertUser(env, {
+      timezone: 'UTC',
+      checkin_times: '["14:00"]',
+      next_checkin_at: '2026-03-02T14:00:00.000Z',
+    });
+
+    await handleScheduledCheckins(env);
+
+    expect(await getEvents(userId)).toHaveLength(0);
+    expect((await getUser(userId)).next_checkin_at).toBe('2026-03-03T14:00:00.000Z');
+  });
+});
+
+describe('handleEarlyReminders', () => {
+  function earlyReminderUser(fields: Record<string, unknown> = {}) {
+    return insertUser(env, {
+      timezone: 'UTC',
+      checkin_times: '["09:00"]',
+      early_reminder_enabled: 1,
+      early_reminder_minutes: 30,
+      next_early_reminder_at: '2026-03-02T08:30:00.000Z',
+      ...fields,
+    });
+  }
+
+  it('sends each reminder once, even when two runs overlap', async () => {
+    setNow('2026-03-02T08:30:20Z');
+    const userId = await earlyReminderUser({ apns_token: 'device-early' });
+
+    await Promise.all([handleEarlyReminders(env), handleEarlyReminders(env)]);
+
+    const pushes = sent.pushesTo('device-early');
+    expect(pushes).toHaveLength(1);
+    expect(pushes[0]).toMatchObject({ type: 'early_reminder', scheduled_time: '2026-03-02T09:00:00.000Z' });
+    expect(await getLogs(userId, 'early_reminder_sent')).toHaveLength(1);
+    expect((await getUser(userId)).next_early_reminder_at).toBe('2026-03-03T08:30:00.000Z');
+  });
+
+  it('moves past a reminder whose slot has already arrived without sending it', async () => {
+    setNow('2026-03-02T09:05:00Z');
+    const userId = await earlyReminderUser({ apns_token: 'device-late' });
+
+    await handleEarlyReminders(env);
+
+    expect(sent.pushesTo('device-late')).toHaveLength(0);
+    expect((await getUser(userId)).next_early_reminder_at).toBe('2026-03-03T08:30:00.000Z');
+  });
+
+  it('holds reminders while monitoring is paused', async () => {
+    setNow('2026-03-02T08:30:20Z');
+    const userId = await earlyReminderUser({ apns_token: 'device-paused', pause_until: '2026-03-02T12:00:00.000Z' });
+
+    await handleEarlyReminders(env);
+
+    expect(sent.pushesTo('device-paused')).toHaveLength(0);
+    expect((await getUser(userId)).next_early_reminder_at).toBe('2026-03-03T08:30:00.000Z');
+  });
+});
+
+describe('handleReminderLadder', () => {
+  // Default ladder for a 10-minute grace window: 09:05 (halfway) and 09:09 (last chance)
+  function insertGraceEvent(userId: string, fields: Record<string, unknown> = {}) {
+    return insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T09:00:00.000Z',
+      deadline_time: '2026-03-02T09:10:00.000Z',
+      status: 'pending',
+      next_reminder_at: '2026-03-02T09:05:00.000Z',
+      ...fields,
+    });
+  }
+
+  it('sends each due step once, even when two runs overlap', async () => {
+    setNow('2026-03-02T09:05:30Z');
+    const userId = await insertUser(env, { apns_token: 'device-ladder' });
+    const eventId = await insertGraceEvent(userId);
+
+    await Promise.all([handleReminderLadder(env), handleReminderLadder(env)]);
+
+    const event = await getEvent(eventId);
+    expect(event.reminders_sent).toBe(1);
+    expect(event.next_reminder_at).toBe('2026-03-02T09:09:00.000Z');
+
+    const pushes = sent.pushesTo('device-ladder');
+    expect(pushes).toHaveLength(1);
+    expect(pushes[0]).toMatchObject({ type: 'reminder', event_id: eventId });
+
+    // Nothing more until the next step is due
+    await handleReminderLadder(env);
+    expect(sent.pushesTo('device-ladder')).toHaveLength(1);
+  });
+
+  it('sends the final step as a last-chance push and ends the ladder', async () => {
+    setNow('2026-03-02T09:09:10Z');
+    const userId = await insertUser(env, { apns_token: 'device-last' });
+    const eventId = await insertGraceEvent(userId, { reminders_sent: 1, next_reminder_at: '2026-03-02T09:09:00.000Z' });
+
+    await handleReminderLadder(env);
+
+    const event = await getEvent(eventId);
+    expect(event.reminders_sent).toBe(2);
+    expect(event.next_reminder_at).toBeNull();
+    expect(sent.pushesTo('device-last').map((push) => push.type)).toEqual(['last_chance']);
+  });
+
+  it('skips confirmed events', async () => {
+    setNow('2026-03-02T09:05:30Z');
+    const userId = await insertUser(env, { apns_token: 'device-confirmed' });
+    const eventId = await insertGraceEvent(userId, { status: 'confirmed' });
+
+    await handleReminderLadder(env);
+
+    expect(sent.pushesTo('device-confirmed')).toHaveLength(0);
+    expect((await getEvent(eventId)).reminders_sent).toBe(0);
+  });
+
+  it('uses up the step without a push while monitoring is paused', async () => {
+    setNow('2026-03-02T09:05:30Z');
+    const userId = await insertUser(env, { apns_token: 'device-ladder-paused', pause_until: '2026-03-02T12:00:00.000Z' });
+    const eventId = await insertGraceEvent(userId);
+
+    await handleReminderLadder(env);
+
+    expect(sent.pushesTo('device-ladder-paused')).toHaveLength(0);
+    expect((await getEvent(eventId)).reminders_sent).toBe(1);
+  });
+});
+
+describe('handleEscalations', () => {
+  it('alerts contacts with the note when a timer runs out', async () => {
+    setNow('2026-03-02T17:31:00Z');
+    const userId = await insertUser(env, { name: 'Riley', timezone: 'UTC' });
+    await insertContact(env, userId, { phone: '+15551260001' });
+    const eventId = await insertEvent(env, userId, {
+      kind: 'timer',
+      scheduled_time: '2026-03-02T15:00:00.000Z',
+      deadline_time: '2026-03-02T17:30:00.000Z',
+      status: 'pending',
+      note_enc: await encrypt('Hiking the ridge trail', env.ENCRYPTION_KEY),
+    });
+
+    await handleEscalations(env);
+
+    expect((await getEvent(eventId)).status).toBe('alerted');
+    const [sms] = sent.smsTo('+15551260001');
+    expect(sms).toContain('Riley set a safety timer and has not checked in by 17:30');
+    expect(sms).toContain('Their note: "Hiking the ridge trail"');
+  });
+
+  it('does not alert for an event confirmed before the escalation ran', async () => {
+    setNow('2026-03-02T12:01:00Z');
+    const userId = await insertUser(env, { timezone: 'UTC', sms_alerts_enabled: 0 });
+    await insertContact(env, userId, { phone: '+15551260011' });
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:50:00.000Z',
+      deadline_time: '2026-03-02T12:00:00.000Z',
+      status: 'confirmed',
+      confirmed_at: '2026-03-02T12:00:30.000Z',
+    });
+    const errors = vi.spyOn(console, 'error');
+
+    const result = await triggerEscalation(env, eventId, 1);
+
+    expect(result).toMatchObject({ contacts_notified: 0, deliveries: [] });
+    expect((await getEvent(eventId)).status).toBe('confirmed');
+    expect(await getLogs(userId, 'checkin_missed')).toHaveLength(0);
+    expect(sent.smsTo('+15551260011')).toHaveLength(0);
+    // Not even an attempted (illegal) transition
+    expect(errors).not.toHaveBeenCalledWith(expect.stringContaining('Illegal check-in transition'));
+  });
+});
+
+describe('pause calendar', () => {
+  it('skips a slot inside a window and moves on to the first slot after it', async () => {
+    setNow('2026-03-02T07:00:20Z');
+    await setLastRun('2026-03-02T06:59:20.000Z');
+    const userId = await insertUser(env, {
+      timezone: 'UTC',
+      checkin_times: '["07:00","07:30","12:00"]',
+      next_checkin_at: '2026-03-02T07:00:00.000Z',
+    });
+    await insertPauseWindow(userId, '06:00', '08:00');
+
+    await handleScheduledCheckins(env);
+
+    expect(await getEvents(userId)).toHaveLength(0);
+    // 07:30 is inside the window too
+    expect((await getUser(userId)).next_checkin_at).toBe('2026-03-02T12:00:00.000Z');
+  });
+
+  it('closes a scheduled check-in whose deadline falls in a window', async () => {
+    setNow('2026-03-02T22:15:00Z');
+    const userId = await insertUser(env, { timezone: 'UTC' });
+    await insertContact(env, userId, { phone: '+15551270001' });
+    await insertPauseWindow(userId, '22:05', '08:00');
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T22:00:00.000Z',
+      deadline_time: '2026-03-02T22:10:00.000Z',
+      status: 'pending',
+    });
+
+    await handleEscalations(env);
+
+    expect((await getEvent(eventId)).status).toBe('cancelled');
+    expect(await getLogs(userId, 'checkin_skipped')).toMatchObject([
+      { result: 'skipped', details: { reason: 'pause_window', deadline_time: '2026-03-02T22:10:00.000Z' } },
+    ]);
+    expect(sent.smsTo('+15551270001')).toHaveLength(0);
+
+    // Nothing is left open once the window ends
+    setNow('2026-03-03T08:30:00Z');
+    await handleEscalations(env);
+    expect((await getEvent(eventId)).status).toBe('cancelled');
+    expect(sent.smsTo('+15551270001')).toHaveLength(0);
+  });
+
+  it('still escalates a timer whose deadline falls in a window', async () => {
+    setNow('2026-03-02T22:15:00Z');
+    const userId = await insertUser(env, { timezone: 'UTC' });
+    await insertContact(env, userId, { phone: '+15551270011' });
+    await insertPauseWindow(userId, '22:05', '08:00');
+    const eventId = await insertEvent(env, userId, {
+      kind: 'timer',
+      scheduled_time: '2026-03-02T21:00:00.000Z',
+      deadline_time: '2026-03-02T22:10:00.000Z',
+      status: 'pending',
+    });
+
+    await handleEscalations(env);
+
+    expect((await getEvent(eventId)).status).toBe('alerted');
+    expect(sent.smsTo('+15551270011')).toHaveLength(1);
+  });
+
+  it('holds the reminder ladder of a scheduled check-in while a window is open', async () => {
+    setNow('2026-03-02T09:05:30Z');
+    const userId = await insertUser(env, { timezone: 'UTC', apns_token: 'device-window' });
+    await insertPauseWindow(userId, '09:03', '12:00');
+    await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T09:00:00.000Z',
+      deadline_time: '2026-03-02T09:10:00.000Z',
+      status: 'pending',
+      next_reminder_at: '2026-03-02T09:05:00.000Z',
+    });
+
+    await handleReminderLadder(env);
+
+    expect(sent.pushesTo('device-window')).toHaveLength(0);
+  });
+});
+
+describe('handlePauseExpiry', () => {
+  it('resumes once, restoring paused events whose deadline is still ahead', async () => {
+    setNow('2026-03-02T12:00:00Z');
+    const userId = await insertUser(env, {
+      timezone: 'UTC',
+      apns_token: 'device-resume',
+      pause_until: '2026-03-02T11:59:00.000Z',
+      notify_contacts_on_resume: 1,
+    });
+    await insertContact(env, userId, { has_app: 1, apns_token: 'device-resume-contact' });
+    const openEventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:55:00.000Z',
+      deadline_time: '2026-03-02T12:05:00.000Z',
+      status: 'paused',
+    });
+    const staleEventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:30:00.000Z',
+      deadline_time: '2026-03-02T11:40:00.000Z',
+      status: 'paused',
+    });
+
+    await Promise.all([handlePauseExpiry(env), handlePauseExpiry(env)]);
+
+    expect((await getUser(userId)).pause_until).toBeNull();
+    expect((await getEvent(openEventId)).status).toBe('pending');
+    expect((await getEvent(staleEventId)).status).toBe('paused');
+
+    const [log] = await getLogs(userId, 'monitoring_resumed');
+    expect(await getLogs(userId, 'monitoring_resumed')).toHaveLength(1);
+    expect(log.details).toMatchObject({ events_restored: 1, user_notified: true, contacts_notified: 1 });
+    expect(sent.pushesTo('device-resume')).toHaveLength(1);
+    expect(sent.pushesTo('device-resume-contact')).toHaveLength(1);
+  });
+
+  it('only tells linked contacts when the user asked for it', async () => {
+    setNow('2026-03-02T12:00:00Z');
+    const userId = await insertUser(env, { apns_token: 'device-resume-quiet', pause_until: '2026-03-02T11:59:00.000Z' });
+    await insertContact(env, userId, { has_app: 1, apns_token: 'device-resume-quiet-contact' });
+
+    await handlePauseExpiry(env);
+
+    expect(sent.pushesTo('device-resume-quiet')).toHaveLength(1);
+    expect(sent.pushesTo('device-resume-quiet-contact')).toHaveLength(0);
+  });
+
+  it('leaves pauses that have not ended yet', async () => {
+    setNow('2026-03-02T12:00:00Z');
+    const userId = await insertUser(env, { apns_token: 'device-still-paused', pause_until: '2026-03-02T12:30:00.000Z' });
+
+    await handlePauseExpiry(env);
+
+    expect((await getUser(userId)).pause_until).toBe('2026-03-02T12:30:00.000Z');
+    expect(sent.pushesTo('device-still-paused')).toHaveLength(0);
+  });
+});
+
+describe('handleRetries', () => {
+  it('claims each due retry once, even when two runs overlap', async () => {
+    setNow('2026-03-02T12:00:00Z');
+    const userId = await insertUser(env, { timezone: 'UTC' });
+    const contactId = await insertContact(env, userId, { phone: '+15551280001' });
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:40:00.000Z',
+      deadline_time: '2026-03-02T11:50:00.000Z',
+      status: 'alerted',
+    });
+    const deliveryId = await insertDelivery(env, eventId, contactId, {
+      status: 'failed',
+      retry_count: 1,
+      next_retry_at: '2026-03-02T11:59:00.000Z',
+    });
+
+    await Promise.all([handleRetries(env), handleRetries(env)]);
+
+    expect(sent.smsTo('+15551280001')).toHaveLength(1);
+    const delivery = await env.DB.prepare('SELECT * FROM alert_deliveries WHERE delivery_id = ?')
+      .bind(deliveryId).first<AlertDelivery>();
+    expect(delivery).toMatchObject({ status: 'sent', next_retry_at: null });
+  });
+
+  it('schedules the next attempt when the retry fails', async () => {
+    setNow('2026-03-02T12:00:00Z');
+    sent.failHost('api.twilio.com', 500);
+    const userId = await insertUser(env, { timezone: 'UTC' });
+    const contactId = await insertContact(env, userId, { phone: '+15551280002' });
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:40:00.000Z',
+      deadline_time: '2026-03-02T11:50:00.000Z',
+      status: 'alerted',
+    });
+    const deliveryId = await insertDelivery(env, eventId, contactId, {
+      status: 'failed',
+      retry_count: 1,
+      next_retry_at: '2026-03-02T11:59:00.000Z',
+    });
+
+    await handleRetries(env);
+
+    const delivery = await env.DB.prepare('SELECT * FROM alert_deliveries WHERE delivery_id = ?')
+      .bind(deliveryId).first<AlertDelivery>();
+    expect(delivery).toMatchObject({ status: 'failed', retry_count: 2, next_retry_at: '2026-03-02T12:04:00.000Z' });
+  });
+});
+describe('voice alerts', () => {
+  it('calls the contacts of a voice tier and calls again when the call is retried', async () => {
+    setNow('2026-03-02T12:01:00Z');
+    const userId = await insertUser(env, { timezone: 'UTC', name: 'Lee' });
+    await env.DB.prepare(`
+      INSERT INTO escalation_tiers (user_id, position, delay_minutes, channels) VALUES (?, 1, 0, '["voice"]')
+    `).bind(userId).run();
+    await insertContact(env, userId, { phone: '+15551340001' });
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:50:00.000Z',
+      deadline_time: '2026-03-02T12:00:00.000Z',
+      status: 'pending',
+    });
+
+    await handleEscalations(env);
+
+    const [call] = sent.callsTo('+15551340001');
+    const delivery = (await env.DB.prepare("SELECT * FROM alert_deliveries WHERE event_id = ? AND channel = 'voice'")
+      .bind(eventId).first<AlertDelivery>())!;
+    expect(call).toContain('Lee missed a safety check-in.');
+    expect(call).toContain(`/api/webhooks/twilio/voice/${delivery.delivery_id}/gather`);
+    expect(sent.smsTo('+15551340001')).toHaveLength(0);
+    expect(delivery.status).toBe('sent');
+
+    // The status webhook found nobody answered
+    await env.DB.prepare("UPDATE alert_deliveries SET status = 'failed', next_retry_at = ? WHERE delivery_id = ?")
+      .bind('2026-03-02T12:02:00.000Z', delivery.delivery_id).run();
+    setNow('2026-03-02T12:02:00Z');
+    await handleRetries(env);
+
+    expect(sent.callsTo('+15551340001')).toHaveLength(2);
+    expect(sent.smsTo('+15551340001')).toHaveLength(0);
+  });
+
+  it('keys text alerts, but not calls, for matching replies', async () => {
+    setNow('2026-03-02T12:01:00Z');
+    const userId = await insertUser(env, { timezone: 'UTC' });
+    await env.DB.prepare(`
+      INSERT INTO escalation_tiers (user_id, position, delay_minutes, channels) VALUES (?, 1, 0, '["sms","voice"]')
+    `).bind(userId).run();
+    await insertContact(env, userId, { phone: '+15551340011' });
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:51:00.000Z',
+      deadline_time: '2026-03-02T12:00:00.000Z',
+      status: 'pending',
+    });
+
+    await handleEscalations(env);
+
+    const keys = await env.DB.prepare('SELECT channel, sender_key FROM alert_deliveries WHERE event_id = ? ORDER BY channel')
+      .bind(eventId).all<{ channel: string; sender_key: string | null }>();
+    expect(keys.results).toEqual([
+      { channel: 'sms', sender_key: await getSenderKey(env, '+15551340011') },
+      { channel: 'voice', sender_key: null },
+    ]);
+  });
+});
+describe('WhatsApp alerts', () => {
+  async function insertWhatsAppContact(phone: string, scheduledTime: string): Promise<string> {
+    const userId = await insertUser(env, { timezone: 'UTC', name: 'Noor' });
+    await insertContact(env, userId, { phone, preferred_channel: 'whatsapp' });
+    return insertEvent(env, userId, {
+      scheduled_time: scheduledTime,
+      deadline_time: '2026-03-02T12:00:00.000Z',
+      status: 'pending',
+    });
+  }
+
+  it('alerts contacts who prefer WhatsApp there once a sender is configured', async () => {
+    setNow('2026-03-02T12:01:00Z');
+    const eventId = await insertWhatsAppContact('+15551350101', '2026-03-02T11:50:00.000Z');
+
+    await handleEscalations({ ...env, TWILIO_WHATSAPP_NUMBER: '+15550000001' });
+
+    const [message] = sent.whatsAppTo('+15551350101');
+    expect(message.Body).toContain('Noor');
+    expect(sent.smsTo('+15551350101')).toHaveLength(0);
+    const delivery = await env.DB.prepare('SELECT channel, status FROM alert_deliveries WHERE event_id = ?')
+      .bind(eventId).first();
+    expect(delivery).toEqual({ channel: 'whatsapp', status: 'sent' });
+  });
+
+  it('falls back to SMS while WhatsApp is not configured', async () => {
+    setNow('2026-03-02T12:01:00Z');
+    await insertWhatsAppContact('+15551350111', '2026-03-02T11:51:00.000Z');
+
+    await handleEscalations(env);
+
+    expect(sent.smsTo('+15551350111')).toHaveLength(1);
+    expect(sent.whatsAppTo('+15551350111')).toHaveLength(0);
+  });
+});
+describe('email alerts', () => {
+  const emailEnv = () => ({ ...env, EMAIL_PROVIDER: 'capture' });
+
+  beforeEach(() => {
+    clearCapturedEmails();
+  });
+
+  async function insertEmailContact(fields: Record<string, unknown>, scheduledTime: string): Promise<string> {
+    const userId = await insertUser(env, { timezone: 'UTC', name: 'Rae' });
+    await insertContact(env, userId, fields);
+    return insertEvent(env, userId, {
+      scheduled_time: scheduledTime,
+      deadline_time: '2026-03-02T12:00:00.000Z',
+      status: 'pending',
+    });
+  }
+
+  it('emails contacts who prefer email, with an acknowledgment link', async () => {
+    setNow('2026-03-02T12:01:00Z');
+    const eventId = await insertEmailContact(
+      { phone: '+15551360001', email: 'ola@example.com', preferred_channel: 'email' },
+      '2026-03-02T11:52:00.000Z'
+    );
+
+    await handleEscalations(emailEnv());
+
+    const [email] = getCapturedEmails();
+    expect(email).toMatchObject({ to: 'ola@example.com', subject: 'Safety alert: Rae missed a check-in' });
+    expect(email.text).toMatch(/I'm checking on them: https:\/\/.*\/api\/alerts\/ack\//);
+    expect(sent.smsTo('+15551360001')).toHaveLength(0);
+    const delivery = await env.DB.prepare('SELECT channel, status FROM alert_deliveries WHERE event_id = ?')
+      .bind(eventId).first();
+    expect(delivery).toEqual({ channel: 'email', status: 'sent' });
+  });
+
+  it('falls back to email when the SMS alert fails', async () => {
+    setNow('2026-03-02T12:01:00Z');
+    sent.failHost('api.twilio.com', 500);
+    const eventId = await insertEmailContact(
+      { phone: '+15551360011', email: 'pia@example.com' },
+      '2026-03-02T11:53:00.000Z'
+    );
+
+    await handleEscalations(emailEnv());
+
+    expect(getCapturedEmails().map((email) => email.to)).toEqual(['pia@example.com']);
+    const deliveries = await env.DB.prepare('SELECT channel, status FROM alert_deliveries WHERE event_id = ? ORDER BY channel')
+      .bind(eventId).all();
+    expect(deliveries.results).toEqual([{ channel: 'email', status: 'sent' }, { channel: 'sms', status: 'failed' }]);
+  });
+});
+describe('channel plans', () => {
+  // SMS first, then a call five minutes later
+  async function insertPlanEvent(phone: string, scheduledTime: string): Promise<{ eventId: string; contactId: string }> {
+    const userId = await insertUser(env, { timezone: 'UTC', name: 'Ivo' });
+    const contactId = await insertContact(env, userId, {
+      phone,
+      channel_steps: JSON.stringify([{ channel: 'sms' }, { channel: 'voice', delay_minutes: 5 }]),
+    });
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: scheduledTime,
+      deadline_time: '2026-03-02T12:00:00.000Z',
+      status: 'pending',
+    });
+    return { eventId, contactId };
+  }
+
+  async function getSteps(eventId: string): Promise<Pick<AlertDelivery, 'channel' | 'status'>[]> {
+    const result = await env.DB.prepare(
+      'SELECT channel, status FROM alert_deliveries WHERE event_id = ? ORDER BY created_at, channel'
+    ).bind(eventId).all<Pick<AlertDelivery, 'channel' | 'status'>>();
+    return result.results;
+  }
+
+  it('sends the first step right away and the next one after its delay', async () => {
+    const { eventId } = await insertPlanEvent('+15551370001', '2026-03-02T11:50:00.000Z');
+
+    setNow('2026-03-02T12:01:00Z');
+    await handleEscalations(env);
+    expect(sent.smsTo('+15551370001')).toHaveLength(1);
+    expect(await getSteps(eventId)).toEqual([{ channel: 'sms', status: 'sent' }, { channel: 'voice', status: 'queued' }]);
+
+    setNow('2026-03-02T12:05:59Z');
+    await handleQueuedDeliveries(env);
+    expect(sent.callsTo('+15551370001')).toHaveLength(0);
+
+    setNow('2026-03-02T12:06:00Z');
+    await Promise.all([handleQueuedDeliveries(env), handleQueuedDeliveries(env)]);
+    expect(sent.callsTo('+15551370001')).toHaveLength(1);
+    expect(await getSteps(eventId)).toEqual([{ channel: 'sms', status: 'sent' }, { channel: 'voice', status: 'sent' }]);
+  });
+
+  it('falls back to the next step at once when a step fails', async () => {
+    const { eventId } = await insertPlanEvent('+15551370011', '2026-03-02T11:51:00.000Z');
+
+    setNow('2026-03-02T12:01:00Z');
+    sent.failHost('api.twilio.com', 500);
+    await handleEscalations(env);
+    sent.failHost('api.twilio.com', null);
+    await handleQueuedDeliveries(env);
+
+    expect(sent.callsTo('+15551370011')).toHaveLength(1);
+    expect(await getSteps(eventId)).toEqual([{ channel: 'sms', status: 'failed' }, { channel: 'voice', status: 'sent' }]);
+  });
+
+  it('cancels queued steps once a contact acknowledges', async () => {
+    const { eventId, contactId } = await insertPlanEvent('+15551370021', '2026-03-02T11:52:00.000Z');
+
+    setNow('2026-03-02T12:01:00Z');
+    await handleEscalations(env);
+    await acknowledgeAlert(env, { eventId, contactId, via: 'sms' });
+
+    setNow('2026-03-02T12:10:00Z');
+    await handleQueuedDeliveries(env);
+
+    expect(sent.callsTo('+15551370021')).toHaveLength(0);
+    expect((await getSteps(eventId))[1]).toEqual({ channel: 'voice', status: 'cancelled' });
+  });
+
+  it('cancels queued steps once the user confirms', async () => {
+    const { eventId } = await insertPlanEvent('+15551370031', '2026-03-02T11:53:00.000Z');
+
+    setNow('2026-03-02T12:01:00Z');
+    await handleEscalations(env);
+    await transitionEvent(env.DB, await getEvent(eventId), 'confirmed');
+
+    setNow('2026-03-02T12:10:00Z');
+    await handleQueuedDeliveries(env);
+
+    expect(sent.callsTo('+15551370031')).toHaveLength(0);
+    expect((await getSteps(eventId))[1]).toEqual({ channel: 'voice', status: 'cancelled' });
+  });
+});
+describe('notification outbox', () => {
+  beforeEach(() => {
+    clearOutbox();
+  });
+
+  it('runs the escalation offline, recording each alert and its fallback', async () => {
+    setNow('2026-03-02T12:01:00Z');
+    const outboxEnv = { ...env, NOTIFICATION_OUTBOX: 'true' };
+    const userId = await insertUser(env, { timezone: 'UTC', name: 'Uma' });
+    await insertContact(env, userId, { phone: '+15551390101', email: 'vic@example.com' });
+    await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:54:00.000Z',
+      deadline_time: '2026-03-02T12:00:00.000Z',
+      status: 'pending',
+    });
+    setOutboxFailure('sms', 'Carrier unreachable');
+
+    await handleEscalations(outboxEnv);
+
+    expect(getOutbox().map((entry) => [entry.channel, entry.message.to])).toEqual([['email', 'vic@example.com']]);
+    expect(sent.smsTo('+15551390101')).toHaveLength(0);
+  });
+});
+
+
+
+
+
+
+describe('escalation chains', () => {
+  // Tier 1 at the deadline, tier 2 ten minutes later, tier 3 twenty minutes after that
+  async function insertChainUser(phones: string[]): Promise<string> {
+    const userId = await insertUser(env, { timezone: 'UTC' });
+    const delays = [0, 10, 20];
+    for (let i = 0; i < phones.length; i++) {
+      await env.DB.prepare(`
+        INSERT INTO escalation_tiers (user_id, position, delay_minutes, channels) VALUES (?, ?, ?, '["sms"]')
+      `).bind(userId, i + 1, delays[i]).run();
+      await insertContact(env, userId, { phone: phones[i], level: i + 1 });
+    }
+    return userId;
+  }
+
+  function insertMissed(userId: string): Promise<string> {
+    return insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:50:00.000Z',
+      deadline_time: '2026-03-02T12:00:00.000Z',
+      status: 'pending',
+    });
+  }
+
+  it('fires each tier once, only after its delay, and stops at the last tier', async () => {
+    const phones = ['+15551290001', '+15551290002', '+15551290003'];
+    const userId = await insertChainUser(phones);
+    const eventId = await insertMissed(userId);
+
+    setNow('2026-03-02T12:01:00Z');
+    await handleEscalations(env);
+    expect(sent.smsTo(phones[0])).toHaveLength(1);
+    expect(await getEvent(eventId)).toMatchObject({ status: 'alerted', escalation_level: 1, next_escalation_at: '2026-03-02T12:11:00.000Z' });
+
+    setNow('2026-03-02T12:10:59Z');
+    await handleTierEscalations(env);
+    expect(sent.smsTo(phones[1])).toHaveLength(0);
+
+    setNow('2026-03-02T12:11:00Z');
+    await Promise.all([handleTierEscalations(env), handleTierEscalations(env)]);
+    expect(sent.smsTo(phones[1])).toHaveLength(1);
+    expect(await getEvent(eventId)).toMatchObject({ escalation_level: 2, next_escalation_at: '2026-03-02T12:31:00.000Z' });
+
+    setNow('2026-03-02T12:31:00Z');
+    await handleTierEscalations(env);
+    expect(sent.smsTo(phones[2])).toHaveLength(1);
+    expect(await getEvent(eventId)).toMatchObject({ escalation_level: 3, next_escalation_at: null });
+
+    setNow('2026-03-02T13:30:00Z');
+    await handleTierEscalations(env);
+    expect(phones.map((phone) => sent.smsTo(phone).length)).toEqual([1, 1, 1]);
+    expect((await getEvent(eventId)).escalation_level).toBe(3);
+  });
+
+  it('stops the chain once a contact acknowledges the alert', async () => {
+    const phones = ['+15551290021', '+15551290022'];
+    const userId = await insertChainUser(phones);
+    const eventId = await insertMissed(userId);
+
+    setNow('2026-03-02T12:01:00Z');
+    await handleEscalations(env);
+    const [contact] = (await env.DB.prepare('SELECT contact_id FROM contacts WHERE user_id = ? AND level = 1')
+      .bind(userId).all<{ contact_id: string }>()).results;
+    await acknowledgeAlert(env, { eventId, contactId: contact.contact_id, via: 'sms' });
+
+    setNow('2026-03-02T12:15:00Z');
+    await handleTierEscalations(env);
+
+    expect(sent.smsTo(phones[1])).toHaveLength(0);
+    expect(await getEvent(eventId)).toMatchObject({ status: 'alerted', escalation_level: 1, next_escalation_at: null });
+  });
+
+  it('stops the chain once the user confirms', async () => {
+    const phones = ['+15551290011', '+15551290012'];
+    const userId = await insertChainUser(phones);
+    const eventId = await insertMissed(userId);
+
+    setNow('2026-03-02T12:01:00Z');
+    await handleEscalations(env);
+    await transitionEvent(env.DB, await getEvent(eventId), 'confirmed');
+
+    setNow('2026-03-02T12:15:00Z');
+    await handleTierEscalations(env);
+
+    expect(sent.smsTo(phones[1])).toHaveLength(0);
+    expect((await getEvent(eventId)).escalation_level).toBe(1);
+  });
+});
@@ -2,98 +2,394 @@
  * Are You Safe? - Cron Scheduler
  * 
  * Handles scheduled tasks:
- * 1. Creating pending check-in events when scheduled time arrives
- * 2. Escalating missed check-ins to contacts
- * 3. Retrying failed SMS deliveries
+ * 1. Resuming monitoring when a pause expires
+ * 2. Creating pending check-in events when scheduled time arrives
+ * 3. Sending early reminders before upcoming check-ins
+ * 4. Sending in-grace reminders for pending check-ins
+ * 5. Escalating missed check-ins along each user's escalation chain
+ * 6. Sending queued steps of contacts' channel plans
+ * 7. Retrying failed SMS/WhatsApp/email deliveries and unanswered alert calls
  */
 
-import { Env, User, CheckinEvent, Contact, AlertDelivery } from '../types';
+import { Env, User, CheckinEvent, Contact, AlertDelivery, PauseWindow, EscalationTier, AlertChannel, ChannelStep } from '../types';
 import { generateUUID, decrypt } from '../utils/crypto';
-import { sendSMS, generateAlertMessage, calculateNextRetry } from '../services/twilio';
-import { sendCheckinReminder, sendCheckinReminderFollowup, sendContactAlert } from '../services/apns';
+import { listOccurrences, computeNextCheckinAt, computeNextEarlyReminderAt, ScheduleOccurrence } from '../utils/schedule';
+import { sendSMS, generateAlertMessage, generateTimerAlertMessage, generateSosAlertMessage, generateDuressAlertMessage, calculateNextRetry } from '../services/twilio';
+import {
+  sendCheckinReminder,
+  sendCheckinReminderFollowup,
+  sendCheckinLastChance,
+  sendContactAlert,
+  sendContactSosAlert,
+  sendContactDuressAlert,
+  sendEarlyReminder,
+  sendMonitoringResumed,
+  sendContactMonitoringResumed,
+} from '../services/apns';
+import { parseReminderLadder, getReminderTimes, getNextReminderAt } from '../utils/reminders';
+import { isPausedAt } from '../utils/pauses';
+import { canTransition, transitionEvent, transitionUserEvents } from '../services/lifecycle';
+import { buildAckUrl, getApiBaseUrl, getSenderKey } from '../services/acknowledgment';
+import { generateNoticeMessage, sendNoticeEmail } from '../services/notices';
+import { isEmailEnabled, sendEmail, renderEmail, generateAlertEmailSubject, EmailResult } from '../services/email';
+import { isWhatsAppEnabled, sendWhatsAppAlert } from '../services/whatsapp';
+import { placeVoiceCall, generateVoiceAlertScript, buildAlertCallTwiml, getVoiceWebhookUrls } from '../services/voice';
+import { runBatchedPhase, afterCursor } from './batch';
+import { parseChannelSteps, getStepTimes } from '../utils/channels';
+import {
+  EscalationTierConfig,
+  defaultEscalationChain,
+  parseTierChannels,
+  getNextEscalationAt,
+} from '../utils/escalation';
+
+// Maximum number of due users handled per cron run; the rest wait for the next tick
+const DUE_USERS_PER_RUN = 500;
+
+// Catch-up bounds for missed cron ticks (overridable via system_config)
+const DEFAULT_MAX_CATCHUP_MINUTES = 60;
+const MAX_CATCHUP_EVENTS_PER_USER = 3;
+
+// How long a claimed SMS retry is held before another run may pick it up
+const RETRY_CLAIM_MS = 5 * 60 * 1000;
+
+// Outcome of alerting one contact
+type AlertResult = { contact_id: string; status: string; error?: string };
+
+// Rows visited by the batched cron phases
+type EscalationRow = CheckinEvent & Pick<User, 'sms_alerts_enabled' | 'timezone' | 'pause_until'> & {
+  user_name: string;
+};
+type TierEscalationRow = Pick<CheckinEvent, 'event_id' | 'escalation_level'> & { next_escalation_at: string };
+type RetryRow = AlertDelivery
+  & Pick<Contact, 'phone_enc' | 'email_enc'>
+  & Pick<CheckinEvent, 'kind' | 'scheduled_time' | 'deadline_time' | 'note_enc'>
+  & { next_retry_at: string; user_name: string; user_timezone: string };
+type QueuedDeliveryRow = Pick<AlertDelivery, 'delivery_id' | 'event_id' | 'contact_id'> & {
+  channel: AlertChannel;
+  scheduled_at: string;
+};
+
+/**
+ * Handle expired pauses
+ * Clears pause_until once it has passed, puts events that were paused
+ * (and whose deadline is still ahead) back to pending, logs the resume
+ * and tells the user - and optionally their linked contacts - that
+ * monitoring is active again.
+ */
+export async function handlePauseExpiry(env: Env): Promise<void> {
+  const now = new Date();
+  const nowStr = now.toISOString();
+
+  // Uses idx_users_pause_until
+  const users = await env.DB.prepare(`
+    SELECT * FROM users
+    WHERE pause_until IS NOT NULL AND pause_until <= ?
+    ORDER BY pause_until ASC
+    LIMIT ?
+  `).bind(nowStr, DUE_USERS_PER_RUN).all<User>();
+
+  for (const user of users.results) {
+    try {
+      // Claim the resume so overlapping runs (or a manual resume) don't repeat it
+      const claim = await env.DB.prepare(`
+        UPDATE users SET pause_until = NULL, updated_at = ?
+        WHERE user_id = ? AND pause_until = ?
+      `).bind(nowStr, user.user_id, user.pause_until).run();
+
+      if (!claim.meta.changes) {
+        continue;
+      }
+
+      const eventsRestored = await transitionUserEvents(env.DB, user.user_id, ['paused'], 'pending', {
+        at: nowStr,
+        deadlineAfter: nowStr
+      });
+
+      await refreshNextCheckin(env.DB, user.user_id, now);
+
+      let userNotified = false;
+      if (user.apns_token) {
+        const result = await sendMonitoringResumed({ deviceToken: user.apns_token, env });
+        userNotified = result.success;
+      }
+
+      let contactsNotified = 0;
+      if (user.notify_contacts_on_resume) {
+        const contacts = await env.DB.prepare(`
+          SELECT * FROM contacts
+          WHERE user_id = ? AND has_app = 1 AND apns_token IS NOT NULL
+        `).bind(user.user_id).all<Contact>();
+
+        for (const contact of contacts.results) {
+          const result = await sendContactMonitoringResumed({
+            deviceToken: contact.apns_token!,
+            userName: user.name || 'Your contact',
+            env,
+          });
+          if (result.success) {
+            contactsNotified++;
+          }
+        }
+      }
+
+      await logEvent(env.DB, user.user_id, null, 'monitoring_resumed', nowStr, 'ok', {
+        reason: 'pause_expired',
+        pause_until: user.pause_until,
+        events_restored: eventsRestored,
+        user_notified: userNotified,
+        contacts_notified: contactsNotified
+      });
+    } catch (error) {
+      console.error(`Error resuming monitoring for user ${user.user_id}:`, error);
+    }
+  }
+}
 
 /**
  * Handle scheduled check-ins
  * Creates pending events for users whose check-in time has arrived
+ *
+ * Only users whose precomputed next_checkin_at is due are loaded. Each
+ * user's HH:MM slots are interpreted in their own timezone. Slots missed
+ * by skipped or late cron ticks are caught up from the scheduler_last_run_at
+ * high-water mark, bounded by scheduler_max_catchup_minutes so an outage
+ * does not cause a storm of backdated alerts. The mark only advances after
+ * a run that processed every due user.
  */
 export async function handleScheduledCheckins(env: Env): Promise<void> {
   const now = new Date();
-  const currentTime = now.toTimeString().substring(0, 5); // HH:MM format
+  const nowStr = now.toISOString();
   
-  console.log(`Checking for scheduled check-ins at ${currentTime}`);
+  console.log(`Checking for scheduled check-ins at ${nowStr}`);
+
+  // High-water mark: when the last run completed
+  const lastRunAt = await getSystemConfig(env.DB, 'scheduler_last_run_at');
+  const maxCatchupMinutes = parseInt(await getSystemConfig(env.DB, 'scheduler_max_catchup_minutes') || '', 10)
+    || DEFAULT_MAX_CATCHUP_MINUTES;
+
+  // Oldest slot we are willing to materialize on this run
+  let catchupFloor = new Date(now.getTime() - maxCatchupMinutes * 60 * 1000);
+  // Slots up to the high-water mark were materialized by the last run
+  let catchupFrom = catchupFloor;
+  if (!lastRunAt) {
+    // First run ever - don't backfill anything beyond normal cron jitter
+    catchupFloor = new Date(now.getTime() - 60 * 1000);
+    catchupFrom = catchupFloor;
+  } else {
+    const lastRun = new Date(lastRunAt);
+    const gapMinutes = Math.floor((now.getTime() - lastRun.getTime()) / 60000);
+    if (gapMinutes > 1) {
+      console.warn(`Scheduler last ran ${gapMinutes} minutes ago, catching up (max ${maxCatchupMinutes} minutes)`);
+    }
+    if (lastRun > catchupFrom) {
+      catchupFrom = lastRun;
+    }
+  }
   
-  // Get all active users (not paused)
+  // Get users whose next check-in is due (uses idx_users_next_checkin)
   const users = await env.DB.prepare(`
     SELECT * FROM users 
-    WHERE pause_until IS NULL OR pause_until < ?
-  `).bind(now.toISOString()).all<User>();
+    WHERE next_checkin_at IS NOT NULL AND next_checkin_at <= ?
+    ORDER BY next_checkin_at ASC
+    LIMIT ?
+  `).bind(nowStr, DUE_USERS_PER_RUN).all<User>();
+
+  // A run cut short by the batch limit or an error keeps the old mark
+  let complete = users.results.length < DUE_USERS_PER_RUN;
   
   for (const user of users.results) {
     try {
-      // Parse check-in times
-      const checkinTimes: string[] = JSON.parse(user.checkin_times);
-      
-      // Check if current time matches any scheduled time
-      // Allow 1-minute window for cron timing
-      for (const scheduledTime of checkinTimes) {
-        if (isTimeMatch(currentTime, scheduledTime)) {
-          // Check if event already exists for this time slot today
-          const todayStart = new Date(now);
-          todayStart.setHours(0, 0, 0, 0);
-          
+      const pauses = await getPauseWindows(env.DB, user.user_id);
+
+      if (!isPausedAt(user, pauses, now)) {
+        // Every slot from the user's stored next_checkin_at onwards is
+        // still outstanding unless the last run already covered it;
+        // anything older than the floor is dropped
+        const outstandingFrom = new Date(new Date(user.next_checkin_at!).getTime() - 1);
+        const windowStart = outstandingFrom > catchupFrom ? outstandingFrom : catchupFrom;
+
+        let occurrences = listOccurrences(user, windowStart, now);
+        let skipped = catchupFloor > outstandingFrom
+          ? listOccurrences(user, outstandingFrom, catchupFloor).length
+          : 0;
+
+        if (occurrences.length > MAX_CATCHUP_EVENTS_PER_USER) {
+          skipped += occurrences.length - MAX_CATCHUP_EVENTS_PER_USER;
+          occurrences = occurrences.slice(-MAX_CATCHUP_EVENTS_PER_USER);
+        }
+
+        if (skipped > 0) {
+          console.warn(`Skipping ${skipped} stale slot(s) for user ${user.user_id}`);
+          await logEvent(env.DB, user.user_id, null, 'checkin_catchup_skipped', nowStr, 'skipped', {
+            slots_skipped: skipped,
+            since: user.next_checkin_at,
+            max_catchup_minutes: maxCatchupMinutes
+          });
+        }
+
+        for (const occurrence of occurrences) {
+          // Slots inside a pause window are not monitored
+          if (isPausedAt(user, pauses, occurrence.scheduledTime)) {
+            continue;
+          }
+
+          // Check if event already exists for this exact slot
           const existingEvent = await env.DB.prepare(`
             SELECT event_id FROM checkin_events 
-            WHERE user_id = ? 
-            AND scheduled_time >= ? 
-            AND scheduled_time LIKE ?
-          `).bind(
-            user.user_id,
-            todayStart.toISOString(),
-            `%T${scheduledTime}%`
-          ).first();
+            WHERE user_id = ? AND scheduled_time = ?
+          `).bind(user.user_id, occurrence.scheduledTime.toISOString()).first();
           
           if (!existingEvent) {
             // Create new pending event
-            await createPendingEvent(env, user, scheduledTime);
+            await createPendingEvent(env, user, occurrence);
           }
         }
       }
+
+      // Advance to the user's next slot
+      await refreshNextCheckin(env.DB, user.user_id, now, pauses);
     } catch (error) {
       console.error(`Error processing user ${user.user_id}:`, error);
+      complete = false;
     }
   }
+
+  if (complete) {
+    await setSystemConfig(env.DB, 'scheduler_last_run_at', nowStr);
+  }
 }
 
 /**
- * Create a pending check-in event for a user
+ * Recompute and store a user's next_checkin_at and next_early_reminder_at
+ * Must be called whenever the schedule, timezone, pause calendar or early
+ * reminder settings change.
+ */
+export async function refreshNextCheckin(
+  db: D1Database,
+  userId: string,
+  now: Date = new Date(),
+  pauses?: PauseWindow[]
+): Promise<string | null> {
+  const user = await db.prepare(
+    'SELECT * FROM users WHERE user_id = ?'
+  ).bind(userId).first<User>();
+
+  if (!user) {
+    return null;
+  }
+
+  const pauseWindows = pauses ?? await getPauseWindows(db, userId);
+  const nextCheckinAt = computeNextCheckinAt(user, now, pauseWindows);
+  const nextEarlyReminderAt = computeNextEarlyReminderAt(user, now, pauseWindows);
+
+  await db.prepare(
+    'UPDATE users SET next_checkin_at = ?, next_early_reminder_at = ? WHERE user_id = ?'
+  ).bind(nextCheckinAt, nextEarlyReminderAt, userId).run();
+
+  return nextCheckinAt;
+}
+
+/**
+ * Handle early reminders
+ * Sends an APNs pre-reminder early_reminder_minutes before each slot.
+ * The reminder slot is claimed with a compare-and-set on
+ * next_early_reminder_at, so each slot is reminded at most once.
  */
-async function createPendingEvent(env: Env, user: User, timeStr: string): Promise<void> {
+export async function handleEarlyReminders(env: Env): Promise<void> {
   const now = new Date();
-  const eventId = generateUUID();
+  const nowStr = now.toISOString();
+
+  console.log('Checking for early reminders');
+
+  const users = await env.DB.prepare(`
+    SELECT * FROM users
+    WHERE next_early_reminder_at IS NOT NULL AND next_early_reminder_at <= ?
+    ORDER BY next_early_reminder_at ASC
+    LIMIT ?
+  `).bind(nowStr, DUE_USERS_PER_RUN).all<User>();
+
+  for (const user of users.results) {
+    try {
+      const reminderAt = user.next_early_reminder_at!;
+      const scheduledTime = new Date(new Date(reminderAt).getTime() + user.early_reminder_minutes * 60 * 1000);
+      const pauses = await getPauseWindows(env.DB, user.user_id);
 
-  // Parse the scheduled time for today in user's timezone
-  // For simplicity, we'll use UTC and let the client handle timezone display
-  const [hours, minutes] = timeStr.split(':').map(Number);
-  const scheduledTime = new Date(now);
-  scheduledTime.setHours(hours, minutes, 0, 0);
+      // Claim this reminder and move on to the next slot's reminder
+      const claim = await env.DB.prepare(`
+        UPDATE users SET next_early_reminder_at = ?
+        WHERE user_id = ? AND next_early_reminder_at = ?
+      `).bind(computeNextEarlyReminderAt(user, now, pauses), user.user_id, reminderAt).run();
 
-  // If the scheduled time is in the past (edge case), skip
-  if (scheduledTime < now) {
-    return;
+      if (!claim.meta.changes) {
+        continue;
+      }
+
+      // Stale reminder (slot already arrived) or slot paused - skip
+      const isPaused = isPausedAt(user, pauses, now) || isPausedAt(user, pauses, scheduledTime);
+      if (scheduledTime <= now || isPaused || !user.early_reminder_enabled) {
+        continue;
+      }
+
+      if (!user.apns_token) {
+        continue;
+      }
+
+      const minutesBefore = Math.max(1, Math.round((scheduledTime.getTime() - now.getTime()) / 60000));
+      const result = await sendEarlyReminder({
+        deviceToken: user.apns_token,
+        minutesBefore,
+        scheduledTime: scheduledTime.toISOString(),
+        env,
+      });
+
+      await logEvent(env.DB, user.user_id, null, 'early_reminder_sent', nowStr, result.success ? 'ok' : 'failed', {
+        scheduled_time: scheduledTime.toISOString(),
+        minutes_before: minutesBefore,
+        ...(result.errorReason && { error: result.errorReason })
+      });
+    } catch (error) {
+      console.error(`Error sending early reminder to user ${user.user_id}:`, error);
+    }
   }
+}
 
-  const deadlineTime = new Date(scheduledTime.getTime() + user.grace_minutes * 60 * 1000);
+/**
+ * Create a pending check-in event for a user
+ * Exact slots get a grace window; window slots use the window end as deadline.
+ */
+async function createPendingEvent(env: Env, user: User, occurrence: ScheduleOccurrence): Promise<void> {
+  const now = new Date();
+  const eventId = generateUUID();
+  const { scheduledTime, windowEnd } = occurrence;
+
+  // A window slot is due by the end of its window, however short. Other
+  // slots materialized late (catch-up) still get a full grace window from
+  // now, so the user has a chance to respond before anyone is alerted
+  const graceMs = user.grace_minutes * 60 * 1000;
+  const caughtUp = now.getTime() - scheduledTime.getTime() > 60 * 1000;
+  const latestStart = Math.max(scheduledTime.getTime(), now.getTime());
+  const deadlineTime = windowEnd || new Date(latestStart + graceMs);
+
+  const nextReminderAt = getNextReminderAt(
+    parseReminderLadder(user.reminder_ladder),
+    scheduledTime.toISOString(),
+    deadlineTime.toISOString(),
+    0
+  );
 
   await env.DB.prepare(`
     INSERT INTO checkin_events (
-      event_id, user_id, scheduled_time, deadline_time,
-      status, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, 'pending', ?, ?)
+      event_id, user_id, scheduled_time, deadline_time, window_end,
+      status, next_reminder_at, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, ?)
   `).bind(
     eventId,
     user.user_id,
     scheduledTime.toISOString(),
     deadlineTime.toISOString(),
+    windowEnd ? windowEnd.toISOString() : null,
+    nextReminderAt,
     now.toISOString(),
     now.toISOString()
   ).run();
@@ -106,7 +402,7 @@ async function createPendingEvent(env: Env, user: User, timeStr: string): Promis
       await sendCheckinReminder({
         deviceToken: user.apns_token,
         userName: user.name,
-        graceMinutes: user.grace_minutes,
+        graceMinutes: Math.max(0, Math.round((deadlineTime.getTime() - latestStart) / 60000)),
         eventId: eventId,
         scheduledTime: scheduledTime.toISOString(),
         env,
@@ -120,10 +416,79 @@ async function createPendingEvent(env: Env, user: User, timeStr: string): Promis
   // Log the event
   await logEvent(env.DB, user.user_id, eventId, 'checkin_scheduled', now.toISOString(), 'ok', {
     scheduled_time: scheduledTime.toISOString(),
-    deadline_time: deadlineTime.toISOString()
+    deadline_time: deadlineTime.toISOString(),
+    ...(windowEnd && { window_end: windowEnd.toISOString() }),
+    ...(caughtUp && { caught_up: true })
   });
 }
 
+/**
+ * Handle the in-grace reminder ladder
+ * Sends follow-up pushes for pending events at the steps configured in
+ * the user's reminder_ladder. The final step is sent as a "last chance"
+ * push. Each step is claimed with a compare-and-set on reminders_sent,
+ * so it is never sent twice.
+ */
+export async function handleReminderLadder(env: Env): Promise<void> {
+  const now = new Date();
+  const nowStr = now.toISOString();
+
+  console.log('Checking for in-grace reminders');
+
+  const dueEvents = await env.DB.prepare(`
+    SELECT e.*, u.apns_token, u.reminder_ladder, u.timezone, u.pause_until
+    FROM checkin_events e
+    JOIN users u ON e.user_id = u.user_id
+    WHERE e.next_reminder_at IS NOT NULL AND e.next_reminder_at <= ?
+    AND e.status IN ('pending', 'snoozed')
+    ORDER BY e.next_reminder_at ASC
+    LIMIT ?
+  `).bind(nowStr, DUE_USERS_PER_RUN).all<CheckinEvent & Pick<User, 'apns_token' | 'reminder_ladder' | 'timezone' | 'pause_until'>>();
+
+  for (const event of dueEvents.results) {
+    try {
+      const ladder = parseReminderLadder(event.reminder_ladder);
+      const totalSteps = getReminderTimes(ladder, event.scheduled_time, event.deadline_time).length;
+      const step = event.reminders_sent + 1;
+      const nextReminderAt = getNextReminderAt(ladder, event.scheduled_time, event.deadline_time, step);
+
+      // Claim this step
+      const claim = await env.DB.prepare(`
+        UPDATE checkin_events
+        SET reminders_sent = ?, next_reminder_at = ?, updated_at = ?
+        WHERE event_id = ? AND reminders_sent = ?
+      `).bind(step, nextReminderAt, nowStr, event.event_id, event.reminders_sent).run();
+
+      if (!claim.meta.changes) {
+        continue;
+      }
+
+      const pauses = await getEventPauseWindows(env.DB, event);
+      const isPaused = isPausedAt(event, pauses, now);
+      const deadline = new Date(event.deadline_time);
+      if (isPaused || deadline <= now || !event.apns_token) {
+        continue;
+      }
+
+      const isLastStep = step >= totalSteps;
+      const minutesLeft = Math.max(1, Math.round((deadline.getTime() - now.getTime()) / 60000));
+      const result = isLastStep
+        ? await sendCheckinLastChance({ deviceToken: event.apns_token, eventId: event.event_id, minutesLeft, env })
+        : await sendCheckinReminderFollowup({ deviceToken: event.apns_token, eventId: event.event_id, env });
+
+      await logEvent(env.DB, event.user_id, event.event_id, 'checkin_reminder_sent', nowStr, result.success ? 'ok' : 'failed', {
+        step,
+        total_steps: totalSteps,
+        kind: isLastStep ? 'last_chance' : 'followup',
+        minutes_left: minutesLeft,
+        ...(result.errorReason && { error: result.errorReason })
+      });
+    } catch (error) {
+      console.error(`Error sending reminder for event ${event.event_id}:`, error);
+    }
+  }
+}
+
 /**
  * Handle escalations for missed check-ins
  * Sends SMS alerts to contacts for events past their deadline
@@ -133,85 +498,233 @@ export async function handleEscalations(env: Env): Promise<void> {
   
   console.log('Checking for events to escalate');
   
-  // Find events that are past deadline and not yet escalated
-  const overdueEvents = await env.DB.prepare(`
-    SELECT e.*, u.name as user_name, u.sms_alerts_enabled
-    FROM checkin_events e
-    JOIN users u ON e.user_id = u.user_id
-    WHERE e.status IN ('pending', 'snoozed')
-    AND e.deadline_time < ?
-    AND (u.pause_until IS NULL OR u.pause_until < ?)
-  `).bind(now.toISOString(), now.toISOString()).all();
-  
-  for (const event of overdueEvents.results as any[]) {
-    try {
-      await triggerEscalation(env, event.event_id);
-    } catch (error) {
-      console.error(`Error escalating event ${event.event_id}:`, error);
+  // Find events that are past deadline and not yet escalated, oldest first
+  const { processed, complete } = await runBatchedPhase<EscalationRow>(env, {
+    name: 'escalations',
+    fetch: async (after, limit) => {
+      const cursor = afterCursor(after, 'e.deadline_time', 'e.event_id');
+      const result = await env.DB.prepare(`
+        SELECT e.*, u.name as user_name, u.sms_alerts_enabled, u.timezone, u.pause_until
+        FROM checkin_events e
+        JOIN users u ON e.user_id = u.user_id
+        WHERE e.status IN ('pending', 'snoozed')
+        AND e.deadline_time < ?
+        AND (u.pause_until IS NULL OR u.pause_until < ?)
+        ${cursor.clause}
+        ORDER BY e.deadline_time ASC, e.event_id ASC
+        LIMIT ?
+      `).bind(now.toISOString(), now.toISOString(), ...cursor.values, limit).all<EscalationRow>();
+      return result.results;
+    },
+    cursorOf: (event) => ({ sort: event.deadline_time, id: event.event_id }),
+    process: async (event) => {
+      try {
+        // A deadline that fell inside a pause window is not escalated;
+        // the check-in is closed, since no pause end will resume it.
+        // Only scheduled check-ins follow the pause calendar.
+        const pauses = await getEventPauseWindows(env.DB, event);
+        if (pauses.length > 0 && isPausedAt(event, pauses, new Date(event.deadline_time))) {
+          await transitionEvent(env.DB, event, 'cancelled', {
+            at: now.toISOString(),
+            logType: 'checkin_skipped',
+            logResult: 'skipped',
+            details: { reason: 'pause_window', deadline_time: event.deadline_time }
+          });
+          return;
+        }
+
+        // Nobody can be alerted - record the miss instead of an empty escalation
+        const contacts = await env.DB.prepare(
+          'SELECT COUNT(*) as count FROM contacts WHERE user_id = ?'
+        ).bind(event.user_id).first<{ count: number }>();
+
+        // A duress confirmation alerts even with alerts turned off
+        const alertsOff = !event.sms_alerts_enabled && event.kind !== 'duress';
+        if (alertsOff || !contacts?.count) {
+          await transitionEvent(env.DB, event, 'missed', {
+            at: now.toISOString(),
+            logResult: 'missed',
+            details: { reason: alertsOff ? 'alerts_disabled' : 'no_contacts' }
+          });
+          return;
+        }
+
+        await triggerEscalation(env, event.event_id);
+      } catch (error) {
+        console.error(`Error escalating event ${event.event_id}:`, error);
+      }
     }
+  });
+
+  if (!complete) {
+    console.warn(`Escalation backlog: ${processed} events handled this run, continuing next run`);
   }
 }
 
 /**
  * Trigger escalation for a specific event
- * Multi-level escalation: Level 1 contacts notified first, Level 2 after delay
+ * Walks the user's escalation chain: tier 1 at the deadline, each later
+ * tier after its delay. Each tier is claimed exactly once per event.
  */
 export async function triggerEscalation(env: Env, eventId: string, targetLevel: number = 1): Promise<{
   event_id: string;
   contacts_notified: number;
   escalation_level: number;
-  deliveries: { contact_id: string; status: string; error?: string }[];
+  deliveries: AlertResult[];
 }> {
   const now = new Date();
   const nowStr = now.toISOString();
 
   // Get the event with user info
   const event = await env.DB.prepare(`
-    SELECT e.*, u.name as user_name, u.sms_alerts_enabled
+    SELECT e.*, u.name as user_name, u.timezone as user_timezone, u.sms_alerts_enabled, u.level2_delay_minutes
     FROM checkin_events e
     JOIN users u ON e.user_id = u.user_id
     WHERE e.event_id = ?
-  `).bind(eventId).first<CheckinEvent & { user_name: string; sms_alerts_enabled: number }>();
+  `).bind(eventId).first<CheckinEvent & {
+    user_name: string;
+    user_timezone: string;
+    sms_alerts_enabled: number;
+    level2_delay_minutes: number;
+  }>();
 
   if (!event) {
     throw new Error('Event not found');
   }
 
-  const deliveries: { contact_id: string; status: string; error?: string }[] = [];
+  const chain = await loadEscalationChain(env.DB, { user_id: event.user_id, level2_delay_minutes: event.level2_delay_minutes });
+  const tier = chain.find((t) => t.position === targetLevel);
+  if (!tier) {
+    throw new Error(`No escalation tier ${targetLevel}`);
+  }
+
+  const nextEscalationAt = getNextEscalationAt(chain, targetLevel, nowStr);
 
   // Update event status based on escalation level
   if (targetLevel === 1) {
-    // First escalation - update to alerted status
-    await env.DB.prepare(`
-      UPDATE checkin_events
-      SET status = 'alerted', escalated_at = ?, escalation_level = 1, updated_at = ?
-      WHERE event_id = ?
-    `).bind(nowStr, nowStr, eventId).run();
+    // Already confirmed, alerted or cancelled (a confirmation raced this run,
+    // or the debug trigger ran twice) - nothing to escalate
+    if (!canTransition(event.status, 'alerted')) {
+      return { event_id: eventId, contacts_notified: 0, escalation_level: targetLevel, deliveries: [] };
+    }
 
-    // Log the escalation
-    await logEvent(env.DB, event.user_id, eventId, 'checkin_escalated', nowStr, 'missed', {
-      escalation_level: 1
+    // Alerts are off - record the miss. A duress confirmation always alerts.
+    if (!event.sms_alerts_enabled && event.kind !== 'duress') {
+      await transitionEvent(env.DB, event, 'missed', {
+        at: nowStr,
+        logResult: 'missed',
+        details: { reason: 'alerts_disabled' }
+      });
+      return { event_id: eventId, contacts_notified: 0, escalation_level: targetLevel, deliveries: [] };
+    }
+
+    // First escalation - update to alerted status (skip if another run got there first)
+    const escalated = await transitionEvent(env.DB, event, 'alerted', {
+      at: nowStr,
+      fields: { last_escalated_at: nowStr, next_escalation_at: nextEscalationAt },
+      logResult: 'missed',
+      details: { escalation_level: 1 }
     });
-  } else if (targetLevel === 2) {
-    // Level 2 escalation
-    await env.DB.prepare(`
+
+    if (!escalated) {
+      return { event_id: eventId, contacts_notified: 0, escalation_level: targetLevel, deliveries: [] };
+    }
+  } else {
+    // Later tier - claimed once, from the previous tier, while the event is
+    // still unanswered and no contact has acknowledged it
+    const escalated = await env.DB.prepare(`
       UPDATE checkin_events
-      SET escalation_level = 2, level2_escalated_at = ?, updated_at = ?
-      WHERE event_id = ?
-    `).bind(nowStr, nowStr, eventId).run();
+      SET escalation_level = ?, last_escalated_at = ?, next_escalation_at = ?, updated_at = ?
+      WHERE event_id = ? AND status = 'alerted' AND escalation_level = ? AND acknowledged_at IS NULL
+    `).bind(targetLevel, nowStr, nextEscalationAt, nowStr, eventId, targetLevel - 1).run();
 
-    // Log Level 2 escalation
-    await logEvent(env.DB, event.user_id, eventId, 'level2_escalated', nowStr, 'ok', {
-      escalation_level: 2
+    if (!escalated.meta.changes) {
+      return { event_id: eventId, contacts_notified: 0, escalation_level: targetLevel, deliveries: [] };
+    }
+
+    await logEvent(env.DB, event.user_id, eventId, `level${targetLevel}_escalated`, nowStr, 'ok', {
+      escalation_level: targetLevel
     });
   }
 
-  // Check if SMS alerts are enabled
-  if (!event.sms_alerts_enabled) {
+  // Check if SMS alerts are enabled (turned off since the first tier)
+  if (!event.sms_alerts_enabled && event.kind !== 'duress') {
     console.log(`SMS alerts not enabled for user ${event.user_id}`);
-    return { event_id: eventId, contacts_notified: 0, escalation_level: targetLevel, deliveries };
+    return { event_id: eventId, contacts_notified: 0, escalation_level: targetLevel, deliveries: [] };
+  }
+
+  const deliveries = await alertTierContacts(env, event, tier, nowStr);
+
+  // Log contacts alerted
+  await logEvent(env.DB, event.user_id, eventId, `level${targetLevel}_contacts_alerted`, nowStr, 'ok', {
+    contacts_count: countNotified(deliveries),
+    level: targetLevel
+  });
+
+  return {
+    event_id: eventId,
+    contacts_notified: countNotified(deliveries),
+    escalation_level: targetLevel,
+    deliveries
+  };
+}
+
+/**
+ * Alert every tier of an SOS event at once
+ * The event is created already alerted at the last tier (see POST /api/sos),
+ * so there is nothing left for the tier escalation phase to do.
+ */
+export async function triggerSos(env: Env, eventId: string): Promise<{
+  event_id: string;
+  contacts_notified: number;
+  deliveries: AlertResult[];
+}> {
+  const nowStr = new Date().toISOString();
+
+  const event = await env.DB.prepare(`
+    SELECT e.*, u.name as user_name, u.timezone as user_timezone, u.level2_delay_minutes
+    FROM checkin_events e
+    JOIN users u ON e.user_id = u.user_id
+    WHERE e.event_id = ? AND e.kind = 'sos'
+  `).bind(eventId).first<CheckinEvent & { user_name: string; user_timezone: string; level2_delay_minutes: number }>();
+
+  if (!event) {
+    throw new Error('SOS event not found');
   }
 
+  const chain = await loadEscalationChain(env.DB, { user_id: event.user_id, level2_delay_minutes: event.level2_delay_minutes });
+
+  // All tiers in parallel, each over its own channels
+  const results = await Promise.all(chain.map((tier) => alertTierContacts(env, event, tier, nowStr)));
+  const deliveries = results.flat();
+
+  await logEvent(env.DB, event.user_id, eventId, 'sos_contacts_alerted', nowStr, 'ok', {
+    contacts_count: countNotified(deliveries),
+    tiers: chain.length
+  });
+
+  return {
+    event_id: eventId,
+    contacts_notified: countNotified(deliveries),
+    deliveries
+  };
+}
+
+/**
+ * Alert one tier's contacts about an event, over the tier's channels
+ * Each (contact, channel) delivery is claimed before sending, so a tier
+ * that is alerted twice reports 'already_exists' instead of re-sending.
+ */
+async function alertTierContacts(
+  env: Env,
+  event: CheckinEvent & { user_name: string; user_timezone: string },
+  tier: EscalationTierConfig,
+  nowStr: string
+): Promise<AlertResult[]> {
+  const targetLevel = tier.position;
+  const eventId = event.event_id;
+  const deliveries: AlertResult[] = [];
+
   // Get contacts for the target level
   const contacts = await env.DB.prepare(`
     SELECT * FROM contacts WHERE user_id = ? AND level = ? ORDER BY created_at ASC
@@ -219,63 +732,111 @@ export async function triggerEscalation(env: Env, eventId: string, targetLevel:
 
   if (contacts.results.length === 0) {
     console.log(`No Level ${targetLevel} contacts found for user ${event.user_id}`);
-    return { event_id: eventId, contacts_notified: 0, escalation_level: targetLevel, deliveries };
+    return deliveries;
   }
 
-  // Generate alert message
-  const message = generateAlertMessage(event.user_name || 'Your contact', event.scheduled_time);
+  const useSms = tier.channels.includes('sms');
+  const usePush = tier.channels.includes('push');
+  const useVoice = tier.channels.includes('voice');
 
-  // Send notifications to contacts at this level
+  // Send notifications to contacts at this level, over the tier's channels
   for (const contact of contacts.results) {
     try {
-      // Check if delivery already exists (idempotency)
-      const existingDelivery = await env.DB.prepare(`
-        SELECT delivery_id FROM alert_deliveries
-        WHERE event_id = ? AND contact_id = ? AND channel = 'sms'
-      `).bind(eventId, contact.contact_id).first();
-
-      if (existingDelivery) {
-        console.log(`Delivery already exists for event ${eventId}, contact ${contact.contact_id}`);
-        deliveries.push({ contact_id: contact.contact_id, status: 'already_exists' });
+      // Contacts with a channel plan pick their own channels and timing
+      const steps = parseChannelSteps(contact.channel_steps);
+      if (steps) {
+        deliveries.push(await startChannelPlan(env, event, contact, steps, nowStr));
         continue;
       }
 
+      const textChannel = getTextChannel(env, contact);
+
+      // Claim the text delivery record (idempotency) - the unique index on
+      // (event_id, contact_id, channel) lets exactly one run insert it
+      const deliveryId = generateUUID();
+      if (useSms) {
+        const claimed = await env.DB.prepare(`
+          INSERT OR IGNORE INTO alert_deliveries (
+            delivery_id, event_id, contact_id, channel, status, sender_key, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, 'pending', ?, ?, ?)
+        `).bind(
+          deliveryId,
+          eventId,
+          contact.contact_id,
+          textChannel,
+          await getReplyKey(env, contact, textChannel),
+          nowStr,
+          nowStr
+        ).run();
+
+        if (!claimed.meta.changes) {
+          console.log(`Delivery already exists for event ${eventId}, contact ${contact.contact_id}`);
+          deliveries.push({ contact_id: contact.contact_id, status: 'already_exists' });
+          continue;
+        }
+      }
+
       // Send push notification if contact has the app installed
-      if (contact.has_app && contact.apns_token) {
-        try {
-          await sendContactAlert({
-            deviceToken: contact.apns_token,
-            userName: event.user_name || 'Your contact',
-            scheduledTime: event.scheduled_time,
-            env,
-          });
-          console.log(`Push notification sent to Level ${targetLevel} contact ${contact.contact_id}`);
+      if (usePush && contact.has_app && contact.apns_token) {
+        const pushDeliveryId = generateUUID();
+        const pushClaimed = await env.DB.prepare(`
+          INSERT OR IGNORE INTO alert_deliveries (
+            delivery_id, event_id, contact_id, channel, status, created_at, updated_at
+          ) VALUES (?, ?, ?, 'push', 'pending', ?, ?)
+        `).bind(pushDeliveryId, eventId, contact.contact_id, nowStr, nowStr).run();
 
-          // Record push delivery
-          const pushDeliveryId = generateUUID();
-          await env.DB.prepare(`
-            INSERT INTO alert_deliveries (
-              delivery_id, event_id, contact_id, channel, status, sent_at, created_at, updated_at
-            ) VALUES (?, ?, ?, 'push', 'sent', ?, ?, ?)
-          `).bind(pushDeliveryId, eventId, contact.contact_id, nowStr, nowStr, nowStr).run();
-        } catch (pushError) {
-          console.error(`Push notification failed for contact ${contact.contact_id}:`, pushError);
+        if (pushClaimed.meta.changes) {
+          try {
+            const pushResult = await sendPushAlert(env, event, contact.apns_token);
+            console.log(`Push notification sent to Level ${targetLevel} contact ${contact.contact_id}`);
+
+            // Record push delivery
+            await env.DB.prepare(`
+              UPDATE alert_deliveries
+              SET status = ?, error_message = ?, sent_at = ?, updated_at = ?
+              WHERE delivery_id = ?
+            `).bind(
+              pushResult.success ? 'sent' : 'failed',
+              pushResult.errorReason || null,
+              pushResult.success ? nowStr : null,
+              nowStr,
+              pushDeliveryId
+            ).run();
+
+            if (!useSms) {
+              deliveries.push({ contact_id: contact.contact_id, status: pushResult.success ? 'sent' : 'failed' });
+            }
+          } catch (pushError) {
+            console.error(`Push notification failed for contact ${contact.contact_id}:`, pushError);
+          }
+        } else if (!useSms) {
+          deliveries.push({ contact_id: contact.contact_id, status: 'already_exists' });
         }
       }
 
-      // Decrypt phone number
-      const phone = await decrypt(contact.phone_enc, env.ENCRYPTION_KEY);
+      // Call the contact; pressing 1 during the call acknowledges the alert
+      if (useVoice) {
+        deliveries.push(await callContact(env, event, contact, nowStr));
+      }
 
-      // Create SMS delivery record
-      const deliveryId = generateUUID();
-      await env.DB.prepare(`
-        INSERT INTO alert_deliveries (
-          delivery_id, event_id, contact_id, channel, status, created_at, updated_at
-        ) VALUES (?, ?, ?, 'sms', 'pending', ?, ?)
-      `).bind(deliveryId, eventId, contact.contact_id, nowStr, nowStr).run();
+      if (!useSms) {
+        continue;
+      }
 
-      // Send SMS
-      const result = await sendSMS({ to: phone, body: message, env });
+      let result;
+      if (textChannel === 'email') {
+        result = await sendAlertEmail(env, event, event.user_name || 'Your contact', event.user_timezone, contact.email_enc!, deliveryId);
+      } else {
+        // Decrypt phone number
+        const phone = await decrypt(contact.phone_enc, env.ENCRYPTION_KEY);
+
+        // Generate alert message, with this delivery's acknowledgment link
+        const ackUrl = await buildAckUrl(env, deliveryId);
+        const message = await buildAlertMessage(env, event, event.user_name || 'Your contact', event.user_timezone, ackUrl);
+
+        // Send SMS or WhatsApp
+        result = await sendTextAlert(env, textChannel, phone, message);
+      }
 
       if (result.success) {
         // Update delivery as sent
@@ -286,7 +847,7 @@ export async function triggerEscalation(env: Env, eventId: string, targetLevel:
         `).bind(result.sid, result.status, nowStr, nowStr, deliveryId).run();
 
         deliveries.push({ contact_id: contact.contact_id, status: 'sent' });
-        console.log(`SMS sent to Level ${targetLevel} contact ${contact.contact_id}`);
+        console.log(`${textChannel} alert sent to Level ${targetLevel} contact ${contact.contact_id}`);
       } else {
         // Update delivery as failed with retry
         const nextRetry = calculateNextRetry(0);
@@ -297,7 +858,12 @@ export async function triggerEscalation(env: Env, eventId: string, targetLevel:
         `).bind(result.errorMessage, nextRetry, nowStr, deliveryId).run();
 
         deliveries.push({ contact_id: contact.contact_id, status: 'failed', error: result.errorMessage });
-        console.error(`SMS failed for contact ${contact.contact_id}: ${result.errorMessage}`);
+        console.error(`${textChannel} alert failed for contact ${contact.contact_id}: ${result.errorMessage}`);
+
+        // Fall back to email while the text alert waits for its retry
+        if (textChannel !== 'email' && contact.email_enc && isEmailEnabled(env)) {
+          deliveries.push(await emailContact(env, event, contact, nowStr));
+        }
       }
 
     } catch (error) {
@@ -310,150 +876,671 @@ export async function triggerEscalation(env: Env, eventId: string, targetLevel:
     }
   }
 
-  // Log contacts alerted
-  await logEvent(env.DB, event.user_id, eventId, `level${targetLevel}_contacts_alerted`, nowStr, 'ok', {
-    contacts_count: deliveries.filter(d => d.status === 'sent').length,
-    level: targetLevel
+  return deliveries;
+}
+
+/**
+ * Place an alert call to a contact
+ * The call's outcome arrives later on the status webhook, which queues
+ * unanswered calls for retry (see routes/alerts.ts).
+ */
+async function callContact(
+  env: Env,
+  event: CheckinEvent & { user_name: string },
+  contact: Contact,
+  nowStr: string
+): Promise<AlertResult> {
+  // Claim the voice delivery record (idempotency, as for SMS)
+  const deliveryId = generateUUID();
+  const claimed = await env.DB.prepare(`
+    INSERT OR IGNORE INTO alert_deliveries (
+      delivery_id, event_id, contact_id, channel, status, created_at, updated_at
+    ) VALUES (?, ?, ?, 'voice', 'pending', ?, ?)
+  `).bind(deliveryId, event.event_id, contact.contact_id, nowStr, nowStr).run();
+
+  if (!claimed.meta.changes) {
+    return { contact_id: contact.contact_id, status: 'already_exists' };
+  }
+
+  const phone = await decrypt(contact.phone_enc, env.ENCRYPTION_KEY);
+  const result = await placeAlertCall(env, event.kind, event.user_name || 'Your contact', phone, deliveryId);
+
+  if (result.success) {
+    await env.DB.prepare(`
+      UPDATE alert_deliveries
+      SET status = 'sent', provider_ref = ?, provider_status = ?, sent_at = ?, updated_at = ?
+      WHERE delivery_id = ?
+    `).bind(result.sid, result.status, nowStr, nowStr, deliveryId).run();
+
+    console.log(`Alert call placed to contact ${contact.contact_id}`);
+    return { contact_id: contact.contact_id, status: 'sent' };
+  }
+
+  await env.DB.prepare(`
+    UPDATE alert_deliveries
+    SET status = 'failed', error_message = ?, next_retry_at = ?, updated_at = ?
+    WHERE delivery_id = ?
+  `).bind(result.errorMessage, calculateNextRetry(0), nowStr, deliveryId).run();
+
+  console.error(`Alert call failed for contact ${contact.contact_id}: ${result.errorMessage}`);
+  return { contact_id: contact.contact_id, status: 'failed', error: result.errorMessage };
+}
+
+/**
+ * Start a contact's channel plan
+ * The first step is sent now; the others are queued at their times for
+ * handleQueuedDeliveries. Claiming the first step's delivery guards the
+ * whole plan against a second run.
+ */
+async function startChannelPlan(
+  env: Env,
+  event: CheckinEvent & { user_name: string; user_timezone: string },
+  contact: Contact,
+  steps: ChannelStep[],
+  nowStr: string
+): Promise<AlertResult> {
+  const times = getStepTimes(steps, nowStr);
+
+  const deliveryId = generateUUID();
+  const claimed = await env.DB.prepare(`
+    INSERT OR IGNORE INTO alert_deliveries (
+      delivery_id, event_id, contact_id, channel, status, sender_key, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, 'pending', ?, ?, ?)
+  `).bind(
+    deliveryId,
+    event.event_id,
+    contact.contact_id,
+    steps[0].channel,
+    await getReplyKey(env, contact, steps[0].channel),
+    nowStr,
+    nowStr
+  ).run();
+
+  if (!claimed.meta.changes) {
+    return { contact_id: contact.contact_id, status: 'already_exists' };
+  }
+
+  for (let i = 1; i < steps.length; i++) {
+    await env.DB.prepare(`
+      INSERT OR IGNORE INTO alert_deliveries (
+        delivery_id, event_id, contact_id, channel, status, scheduled_at, sender_key, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, 'queued', ?, ?, ?, ?)
+    `).bind(
+      generateUUID(),
+      event.event_id,
+      contact.contact_id,
+      steps[i].channel,
+      times[i],
+      await getReplyKey(env, contact, steps[i].channel),
+      nowStr,
+      nowStr
+    ).run();
+  }
+
+  return sendPlanStep(env, event, contact, steps[0].channel, deliveryId, nowStr);
+}
+
+/**
+ * Send one claimed step of a contact's channel plan and record the outcome
+ * A step that fails to send is retried like any delivery (except push),
+ * and the contact's next queued step is brought forward to now.
+ */
+async function sendPlanStep(
+  env: Env,
+  event: CheckinEvent & { user_name: string; user_timezone: string },
+  contact: Contact,
+  channel: AlertChannel,
+  deliveryId: string,
+  nowStr: string
+): Promise<AlertResult> {
+  const result = await deliverAlert(env, event, contact, channel, deliveryId);
+
+  if (result.success) {
+    await env.DB.prepare(`
+      UPDATE alert_deliveries
+      SET status = 'sent', provider_ref = ?, provider_status = ?, sent_at = ?, updated_at = ?
+      WHERE delivery_id = ?
+    `).bind(result.sid || null, result.status || null, nowStr, nowStr, deliveryId).run();
+
+    console.log(`${channel} alert sent to contact ${contact.contact_id}`);
+    return { contact_id: contact.contact_id, status: 'sent' };
+  }
+
+  await env.DB.prepare(`
+    UPDATE alert_deliveries
+    SET status = 'failed', error_message = ?, next_retry_at = ?, updated_at = ?
+    WHERE delivery_id = ?
+  `).bind(
+    result.errorMessage || null,
+    channel === 'push' ? null : calculateNextRetry(0),
+    nowStr,
+    deliveryId
+  ).run();
+
+  // Don't wait out the delay before falling back
+  await env.DB.prepare(`
+    UPDATE alert_deliveries
+    SET scheduled_at = ?, updated_at = ?
+    WHERE delivery_id = (
+      SELECT delivery_id FROM alert_deliveries
+      WHERE event_id = ? AND contact_id = ? AND status = 'queued'
+      ORDER BY scheduled_at ASC
+      LIMIT 1
+    )
+  `).bind(nowStr, nowStr, event.event_id, contact.contact_id).run();
+
+  console.error(`${channel} alert failed for contact ${contact.contact_id}: ${result.errorMessage}`);
+  return { contact_id: contact.contact_id, status: 'failed', error: result.errorMessage };
+}
+
+/**
+ * Lookup key for replies to a delivery, for the channels a contact can
+ * reply on (see findAlertBySender)
+ */
+async function getReplyKey(env: Env, contact: Contact, channel: string): Promise<string | null> {
+  if (channel !== 'sms' && channel !== 'whatsapp') {
+    return null;
+  }
+  return getSenderKey(env, await decrypt(contact.phone_enc, env.ENCRYPTION_KEY));
+}
+
+/**
+ * Send an alert for one delivery over the given channel
+ */
+async function deliverAlert(
+  env: Env,
+  event: CheckinEvent & { user_name: string; user_timezone: string },
+  contact: Contact,
+  channel: AlertChannel,
+  deliveryId: string
+): Promise<{ success: boolean; sid?: string | null; status?: string | null; errorMessage?: string }> {
+  const userName = event.user_name || 'Your contact';
+
+  switch (channel) {
+    case 'push': {
+      if (!contact.apns_token) {
+        return { success: false, errorMessage: 'Contact has no app installed' };
+      }
+      const result = await sendPushAlert(env, event, contact.apns_token);
+      return { success: result.success, errorMessage: result.errorReason };
+    }
+    case 'email':
+      if (!contact.email_enc) {
+        return { success: false, errorMessage: 'Contact has no email address' };
+      }
+      return sendAlertEmail(env, event, userName, event.user_timezone, contact.email_enc, deliveryId);
+    case 'voice': {
+      const phone = await decrypt(contact.phone_enc, env.ENCRYPTION_KEY);
+      return placeAlertCall(env, event.kind, userName, phone, deliveryId);
+    }
+    default: {
+      const phone = await decrypt(contact.phone_enc, env.ENCRYPTION_KEY);
+      const ackUrl = await buildAckUrl(env, deliveryId);
+      const message = await buildAlertMessage(env, event, userName, event.user_timezone, ackUrl);
+      return sendTextAlert(env, channel, phone, message);
+    }
+  }
+}
+
+/**
+ * Send the push alert for an event to a contact's device
+ */
+async function sendPushAlert(
+  env: Env,
+  event: CheckinEvent & { user_name: string; user_timezone: string },
+  deviceToken: string
+) {
+  const userName = event.user_name || 'Your contact';
+
+  if (event.kind === 'sos') {
+    return sendContactSosAlert({
+      deviceToken,
+      userName,
+      note: event.note_enc ? await decrypt(event.note_enc, env.ENCRYPTION_KEY) : null,
+      eventId: event.event_id,
+      env,
+    });
+  }
+  if (event.kind === 'duress') {
+    return sendContactDuressAlert({ deviceToken, userName, eventId: event.event_id, env });
+  }
+  return sendContactAlert({
+    deviceToken,
+    userName,
+    scheduledTime: event.scheduled_time,
+    timeZone: event.user_timezone,
+    eventId: event.event_id,
+    env,
   });
+}
+
+/**
+ * Email an alert to a contact, as a fallback for a failed text alert
+ */
+async function emailContact(
+  env: Env,
+  event: CheckinEvent & { user_name: string; user_timezone: string },
+  contact: Contact,
+  nowStr: string
+): Promise<AlertResult> {
+  // Claim the email delivery record (idempotency, as for SMS)
+  const deliveryId = generateUUID();
+  const claimed = await env.DB.prepare(`
+    INSERT OR IGNORE INTO alert_deliveries (
+      delivery_id, event_id, contact_id, channel, status, created_at, updated_at
+    ) VALUES (?, ?, ?, 'email', 'pending', ?, ?)
+  `).bind(deliveryId, event.event_id, contact.contact_id, nowStr, nowStr).run();
+
+  if (!claimed.meta.changes) {
+    return { contact_id: contact.contact_id, status: 'already_exists' };
+  }
+
+  const result = await sendAlertEmail(
+    env,
+    event,
+    event.user_name || 'Your contact',
+    event.user_timezone,
+    contact.email_enc!,
+    deliveryId
+  );
+
+  if (result.success) {
+    await env.DB.prepare(`
+      UPDATE alert_deliveries
+      SET status = 'sent', provider_ref = ?, provider_status = ?, sent_at = ?, updated_at = ?
+      WHERE delivery_id = ?
+    `).bind(result.sid, result.status, nowStr, nowStr, deliveryId).run();
+
+    console.log(`Fallback email sent to contact ${contact.contact_id}`);
+    return { contact_id: contact.contact_id, status: 'sent' };
+  }
+
+  await env.DB.prepare(`
+    UPDATE alert_deliveries
+    SET status = 'failed', error_message = ?, next_retry_at = ?, updated_at = ?
+    WHERE delivery_id = ?
+  `).bind(result.errorMessage, calculateNextRetry(0), nowStr, deliveryId).run();
+
+  console.error(`Fallback email failed for contact ${contact.contact_id}: ${result.errorMessage}`);
+  return { contact_id: contact.contact_id, status: 'failed', error: result.errorMessage };
+}
 
+/**
+ * Send the alert email for an email delivery, with its acknowledgment link
+ */
+async function sendAlertEmail(
+  env: Env,
+  event: Pick<CheckinEvent, 'kind' | 'scheduled_time' | 'deadline_time' | 'note_enc'>,
+  userName: string,
+  timeZone: string,
+  emailEnc: string,
+  deliveryId: string
+) {
+  const to = await decrypt(emailEnc, env.ENCRYPTION_KEY);
+  const message = await buildAlertMessage(env, event, userName, timeZone);
+  const ackUrl = await buildAckUrl(env, deliveryId);
+
+  const result = await sendEmail(env, renderEmail({
+    to,
+    subject: generateAlertEmailSubject(userName, event.kind),
+    text: message,
+    action: { url: ackUrl, label: "I'm checking on them" },
+  }));
+  return toDeliveryResult(result);
+}
+
+// Email results in the shape recorded for SMS deliveries
+function toDeliveryResult(result: EmailResult) {
   return {
-    event_id: eventId,
-    contacts_notified: deliveries.filter(d => d.status === 'sent').length,
-    escalation_level: targetLevel,
-    deliveries
+    success: result.success,
+    sid: result.id || null,
+    status: result.success ? 'accepted' : null,
+    errorMessage: result.errorMessage,
   };
 }
 
 /**
- * Handle Level 2 escalations
- * Sends SMS alerts to Level 2 contacts after the configured delay
+ * Place the Twilio call for a voice delivery
+ */
+async function placeAlertCall(
+  env: Env,
+  kind: CheckinEvent['kind'],
+  userName: string,
+  to: string,
+  deliveryId: string
+) {
+  const urls = getVoiceWebhookUrls(getApiBaseUrl(env), deliveryId);
+  return placeVoiceCall({
+    to,
+    twiml: buildAlertCallTwiml(generateVoiceAlertScript(userName, kind), urls.gather),
+    statusCallbackUrl: urls.status,
+    env,
+  });
+}
+
+// Channel for a contact's text alert: their preference if it can be used, SMS otherwise
+function getTextChannel(env: Env, contact: Contact): 'sms' | 'whatsapp' | 'email' {
+  if (contact.preferred_channel === 'email' && contact.email_enc && isEmailEnabled(env)) {
+    return 'email';
+  }
+  if (contact.preferred_channel === 'whatsapp' && isWhatsAppEnabled(env)) {
+    return 'whatsapp';
+  }
+  return 'sms';
+}
+
+/**
+ * Send an alert text over SMS or WhatsApp
+ */
+async function sendTextAlert(env: Env, channel: string, to: string, body: string) {
+  return channel === 'whatsapp'
+    ? sendWhatsAppAlert({ to, body, env })
+    : sendSMS({ to, body, env });
+}
+
+// A contact reached on several channels counts once
+function countNotified(deliveries: AlertResult[]): number {
+  return new Set(deliveries.filter(d => d.status === 'sent').map(d => d.contact_id)).size;
+}
+
+/**
+ * Handle later escalation tiers
+ * Alerts the next tier's contacts once its delay after the previous tier
+ * has passed and the user still hasn't confirmed
  */
-export async function handleLevel2Escalations(env: Env): Promise<void> {
+export async function handleTierEscalations(env: Env): Promise<void> {
   const now = new Date();
 
-  console.log('Checking for Level 2 escalations');
+  console.log('Checking for next-tier escalations');
 
-  // Find events that:
-  // 1. Are in 'alerted' status
-  // 2. Have escalation_level = 1 (Level 1 was notified but not Level 2)
-  // 3. Sufficient time has passed since Level 1 escalation
-  // 4. User still hasn't confirmed (still alerted status)
-  const pendingLevel2 = await env.DB.prepare(`
-    SELECT e.*, u.name as user_name, u.sms_alerts_enabled, u.level2_delay_minutes
-    FROM checkin_events e
-    JOIN users u ON e.user_id = u.user_id
-    WHERE e.status = 'alerted'
-    AND (e.escalation_level IS NULL OR e.escalation_level = 1)
-    AND e.escalated_at IS NOT NULL
-    AND (u.pause_until IS NULL OR u.pause_until < ?)
-  `).bind(now.toISOString()).all();
+  // Alerted events whose next tier is due (uses idx_events_next_escalation)
+  const { processed, complete } = await runBatchedPhase<TierEscalationRow>(env, {
+    name: 'tier_escalations',
+    fetch: async (after, limit) => {
+      const cursor = afterCursor(after, 'e.next_escalation_at', 'e.event_id');
+      const result = await env.DB.prepare(`
+        SELECT e.event_id, e.escalation_level, e.next_escalation_at
+        FROM checkin_events e
+        JOIN users u ON e.user_id = u.user_id
+        WHERE e.status = 'alerted'
+        AND e.next_escalation_at IS NOT NULL AND e.next_escalation_at <= ?
+        AND (u.pause_until IS NULL OR u.pause_until < ?)
+        ${cursor.clause}
+        ORDER BY e.next_escalation_at ASC, e.event_id ASC
+        LIMIT ?
+      `).bind(now.toISOString(), now.toISOString(), ...cursor.values, limit).all<TierEscalationRow>();
+      return result.results;
+    },
+    cursorOf: (event) => ({ sort: event.next_escalation_at, id: event.event_id }),
+    process: async (event) => {
+      try {
+        const targetLevel = (event.escalation_level || 1) + 1;
+        console.log(`Triggering Level ${targetLevel} escalation for event ${event.event_id}`);
+        await triggerEscalation(env, event.event_id, targetLevel);
+      } catch (error) {
+        console.error(`Error handling tier escalation for event ${event.event_id}:`, error);
+      }
+    }
+  });
 
-  for (const event of pendingLevel2.results as any[]) {
-    try {
-      // Check if enough time has passed since Level 1 escalation
-      const escalatedAt = new Date(event.escalated_at);
-      const delayMinutes = event.level2_delay_minutes || 15;
-      const level2Time = new Date(escalatedAt.getTime() + delayMinutes * 60 * 1000);
-
-      if (now >= level2Time) {
-        // Check if there are Level 2 contacts
-        const level2Contacts = await env.DB.prepare(`
-          SELECT COUNT(*) as count FROM contacts WHERE user_id = ? AND level = 2
-        `).bind(event.user_id).first<{ count: number }>();
-
-        if (level2Contacts && level2Contacts.count > 0) {
-          console.log(`Triggering Level 2 escalation for event ${event.event_id}`);
-          await triggerEscalation(env, event.event_id, 2);
-        } else {
-          // No Level 2 contacts, mark as fully escalated
+  if (!complete) {
+    console.warn(`Tier escalation backlog: ${processed} events handled this run, continuing next run`);
+  }
+}
+
+/**
+ * Handle queued steps of contacts' channel plans
+ * Sends each step when due, unless the alert has been acknowledged or
+ * resolved in the meantime, in which case the step is cancelled.
+ */
+export async function handleQueuedDeliveries(env: Env): Promise<void> {
+  const now = new Date();
+
+  console.log('Checking for queued deliveries');
+
+  // Due queued steps, oldest first (uses idx_deliveries_queued); paused
+  // users' steps wait like their tier escalations
+  const { processed, complete } = await runBatchedPhase<QueuedDeliveryRow>(env, {
+    name: 'queued_deliveries',
+    fetch: async (after, limit) => {
+      const cursor = afterCursor(after, 'd.scheduled_at', 'd.delivery_id');
+      const result = await env.DB.prepare(`
+        SELECT d.delivery_id, d.event_id, d.contact_id, d.channel, d.scheduled_at
+        FROM alert_deliveries d
+        JOIN checkin_events e ON d.event_id = e.event_id
+        JOIN users u ON e.user_id = u.user_id
+        WHERE d.status = 'queued' AND d.scheduled_at <= ?
+        AND (u.pause_until IS NULL OR u.pause_until < ?)
+        ${cursor.clause}
+        ORDER BY d.scheduled_at ASC, d.delivery_id ASC
+        LIMIT ?
+      `).bind(now.toISOString(), now.toISOString(), ...cursor.values, limit).all<QueuedDeliveryRow>();
+      return result.results;
+    },
+    cursorOf: (delivery) => ({ sort: delivery.scheduled_at, id: delivery.delivery_id }),
+    process: async (delivery) => {
+      try {
+        const nowStr = now.toISOString();
+
+        const event = await env.DB.prepare(`
+          SELECT e.*, u.name as user_name, u.timezone as user_timezone
+          FROM checkin_events e
+          JOIN users u ON e.user_id = u.user_id
+          WHERE e.event_id = ?
+        `).bind(delivery.event_id).first<CheckinEvent & { user_name: string; user_timezone: string }>();
+
+        const contact = await env.DB.prepare(
+          'SELECT * FROM contacts WHERE contact_id = ?'
+        ).bind(delivery.contact_id).first<Contact>();
+
+        // Someone is on it, or the user is safe
+        if (!event || !contact || event.status !== 'alerted' || event.acknowledged_at) {
           await env.DB.prepare(`
-            UPDATE checkin_events SET escalation_level = 2, updated_at = ?
-            WHERE event_id = ?
-          `).bind(now.toISOString(), event.event_id).run();
-          console.log(`No Level 2 contacts for event ${event.event_id}, marking as fully escalated`);
+            UPDATE alert_deliveries
+            SET status = 'cancelled', updated_at = ?
+            WHERE delivery_id = ? AND status = 'queued'
+          `).bind(nowStr, delivery.delivery_id).run();
+          return;
+        }
+
+        // Claim the step
+        const claim = await env.DB.prepare(`
+          UPDATE alert_deliveries
+          SET status = 'pending', updated_at = ?
+          WHERE delivery_id = ? AND status = 'queued'
+        `).bind(nowStr, delivery.delivery_id).run();
+
+        if (!claim.meta.changes) {
+          return;
         }
+
+        await sendPlanStep(env, event, contact, delivery.channel, delivery.delivery_id, nowStr);
+      } catch (error) {
+        console.error(`Error sending queued delivery ${delivery.delivery_id}:`, error);
       }
-    } catch (error) {
-      console.error(`Error handling Level 2 escalation for event ${event.event_id}:`, error);
     }
+  });
+
+  if (!complete) {
+    console.warn(`Queued delivery backlog: ${processed} deliveries handled this run, continuing next run`);
   }
 }
 
 /**
- * Handle retries for failed SMS deliveries
+ * Load a user's escalation chain, ordered by tier
+ * Users without a stored chain get the default two-level chain.
+ */
+export async function loadEscalationChain(
+  db: D1Database,
+  user: Pick<User, 'user_id' | 'level2_delay_minutes'>
+): Promise<EscalationTierConfig[]> {
+  const result = await db.prepare(
+    'SELECT * FROM escalation_tiers WHERE user_id = ? ORDER BY position ASC'
+  ).bind(user.user_id).all<EscalationTier>();
+
+  if (result.results.length === 0) {
+    return defaultEscalationChain(user);
+  }
+
+  return result.results.map((tier) => ({
+    position: tier.position,
+    delay_minutes: tier.delay_minutes,
+    channels: parseTierChannels(tier.channels),
+  }));
+}
+
+/**
+ * Handle retries for failed SMS/WhatsApp/email deliveries and unanswered alert calls
  */
 export async function handleRetries(env: Env): Promise<void> {
   const now = new Date();
   
   console.log('Checking for SMS retries');
   
-  // Find failed deliveries that are due for retry
-  const pendingRetries = await env.DB.prepare(`
-    SELECT d.*, c.phone_enc, e.scheduled_time, u.name as user_name
-    FROM alert_deliveries d
-    JOIN contacts c ON d.contact_id = c.contact_id
-    JOIN checkin_events e ON d.event_id = e.event_id
-    JOIN users u ON e.user_id = u.user_id
-    WHERE d.status = 'failed'
-    AND d.retry_count < d.max_retries
-    AND d.next_retry_at <= ?
-  `).bind(now.toISOString()).all();
-  
-  for (const delivery of pendingRetries.results as any[]) {
-    try {
-      // Decrypt phone number
-      const phone = await decrypt(delivery.phone_enc, env.ENCRYPTION_KEY);
-      
-      // Generate message
-      const message = generateAlertMessage(delivery.user_name || 'Your contact', delivery.scheduled_time);
-      
-      // Retry SMS
-      const result = await sendSMS({ to: phone, body: message, env });
+  // Find failed deliveries that are due for retry, oldest first; alerts
+  // stop retrying once the event is no longer alerted (e.g. confirmed)
+  const { processed, complete } = await runBatchedPhase<RetryRow>(env, {
+    name: 'retries',
+    fetch: async (after, limit) => {
+      const cursor = afterCursor(after, 'd.next_retry_at', 'd.delivery_id');
+      const result = await env.DB.prepare(`
+        SELECT d.*, c.phone_enc, c.email_enc, e.kind, e.scheduled_time, e.deadline_time, e.note_enc,
+               u.name as user_name, u.timezone as user_timezone
+        FROM alert_deliveries d
+        JOIN contacts c ON d.contact_id = c.contact_id
+        JOIN checkin_events e ON d.event_id = e.event_id
+        JOIN users u ON e.user_id = u.user_id
+        WHERE d.status = 'failed'
+        AND (
+          (d.purpose = 'alert' AND e.status = 'alerted')
+          OR d.purpose = 'all_clear'
+        )
+        AND d.retry_count < d.max_retries
+        AND d.next_retry_at <= ?
+        ${cursor.clause}
+        ORDER BY d.next_retry_at ASC, d.delivery_id ASC
+        LIMIT ?
+      `).bind(now.toISOString(), ...cursor.values, limit).all<RetryRow>();
+      return result.results;
+    },
+    cursorOf: (delivery) => ({ sort: delivery.next_retry_at, id: delivery.delivery_id }),
+    process: async (delivery) => {
+      try {
+        // Claim this attempt; the placeholder retry time frees it again if
+        // this run dies before recording the outcome
+        const claim = await env.DB.prepare(`
+          UPDATE alert_deliveries
+          SET next_retry_at = ?, updated_at = ?
+          WHERE delivery_id = ? AND status = 'failed' AND retry_count = ? AND next_retry_at = ?
+        `).bind(
+          new Date(now.getTime() + RETRY_CLAIM_MS).toISOString(),
+          now.toISOString(),
+          delivery.delivery_id,
+          delivery.retry_count,
+          delivery.next_retry_at
+        ).run();
+
+        if (!claim.meta.changes) {
+          return;
+        }
+
+        let result;
+        if (delivery.channel === 'email') {
+          // Email the alert, or the all-clear that followed it
+          result = delivery.purpose === 'all_clear'
+            ? toDeliveryResult(await sendNoticeEmail(env, delivery.email_enc!, 'all_clear', delivery.user_name || 'Your contact', delivery.kind))
+            : await sendAlertEmail(
+                env,
+                delivery,
+                delivery.user_name || 'Your contact',
+                delivery.user_timezone,
+                delivery.email_enc!,
+                delivery.delivery_id
+              );
+        } else if (delivery.channel === 'voice') {
+          // Call again
+          const phone = await decrypt(delivery.phone_enc, env.ENCRYPTION_KEY);
+          result = await placeAlertCall(env, delivery.kind, delivery.user_name || 'Your contact', phone, delivery.delivery_id);
+        } else {
+          // Decrypt phone number
+          const phone = await decrypt(delivery.phone_enc, env.ENCRYPTION_KEY);
+
+          // Generate message (an alert, or the all-clear that followed it)
+          const message = delivery.purpose === 'all_clear'
+            ? generateNoticeMessage('all_clear', delivery.user_name || 'Your contact', delivery.kind)
+            : await buildAlertMessage(
+                env,
+                delivery,
+                delivery.user_name || 'Your contact',
+                delivery.user_timezone,
+                await buildAckUrl(env, delivery.delivery_id)
+              );
+
+          // Retry SMS or WhatsApp
+          result = await sendTextAlert(env, delivery.channel, phone, message);
+        }
       
-      const nowStr = now.toISOString();
+        const nowStr = now.toISOString();
       
-      if (result.success) {
-        await env.DB.prepare(`
-          UPDATE alert_deliveries 
-          SET status = 'sent', provider_ref = ?, provider_status = ?, 
-              sent_at = ?, next_retry_at = NULL, updated_at = ?
-          WHERE delivery_id = ?
-        `).bind(result.sid, result.status, nowStr, nowStr, delivery.delivery_id).run();
+        if (result.success) {
+          await env.DB.prepare(`
+            UPDATE alert_deliveries 
+            SET status = 'sent', provider_ref = ?, provider_status = ?, 
+                sent_at = ?, next_retry_at = NULL, updated_at = ?
+            WHERE delivery_id = ?
+          `).bind(result.sid, result.status, nowStr, nowStr, delivery.delivery_id).run();
         
-        console.log(`Retry successful for delivery ${delivery.delivery_id}`);
-      } else {
-        const newRetryCount = delivery.retry_count + 1;
-        const nextRetry = newRetryCount < delivery.max_retries 
-          ? calculateNextRetry(newRetryCount)
-          : null;
+          console.log(`Retry successful for delivery ${delivery.delivery_id}`);
+        } else {
+          const newRetryCount = delivery.retry_count + 1;
+          const nextRetry = newRetryCount < delivery.max_retries 
+            ? calculateNextRetry(newRetryCount)
+            : null;
         
-        await env.DB.prepare(`
-          UPDATE alert_deliveries 
-          SET retry_count = ?, error_message = ?, next_retry_at = ?, updated_at = ?
-          WHERE delivery_id = ?
-        `).bind(newRetryCount, result.errorMessage, nextRetry, nowStr, delivery.delivery_id).run();
+          await env.DB.prepare(`
+            UPDATE alert_deliveries 
+            SET retry_count = ?, error_message = ?, next_retry_at = ?, updated_at = ?
+            WHERE delivery_id = ?
+          `).bind(newRetryCount, result.errorMessage, nextRetry, nowStr, delivery.delivery_id).run();
         
-        console.log(`Retry ${newRetryCount} failed for delivery ${delivery.delivery_id}`);
-      }
+          console.log(`Retry ${newRetryCount} failed for delivery ${delivery.delivery_id}`);
+        }
       
-    } catch (error) {
-      console.error(`Error retrying delivery ${delivery.delivery_id}:`, error);
+      } catch (error) {
+        console.error(`Error retrying delivery ${delivery.delivery_id}:`, error);
+      }
     }
+  });
+
+  if (!complete) {
+    console.warn(`Retry backlog: ${processed} deliveries handled this run, continuing next run`);
   }
 }
 
 /**
- * Check if two time strings match (within 1 minute tolerance)
+ * Build the SMS alert text for an event
+ * Timer check-ins and SOS alerts carry the user's (encrypted) note for contacts; ackUrl
+ * is the delivery's signed acknowledgment link.
  */
-function isTimeMatch(current: string, scheduled: string): boolean {
-  const [currentH, currentM] = current.split(':').map(Number);
-  const [scheduledH, scheduledM] = scheduled.split(':').map(Number);
-  
-  const currentMinutes = currentH * 60 + currentM;
-  const scheduledMinutes = scheduledH * 60 + scheduledM;
-  
-  // Allow 1 minute tolerance for cron timing
-  return Math.abs(currentMinutes - scheduledMinutes) <= 1;
+async function buildAlertMessage(
+  env: Env,
+  event: Pick<CheckinEvent, 'kind' | 'scheduled_time' | 'deadline_time' | 'note_enc'>,
+  userName: string,
+  timeZone: string,
+  ackUrl?: string
+): Promise<string> {
+  if (event.kind === 'duress') {
+    return generateDuressAlertMessage(userName, ackUrl);
+  }
+  if (event.kind === 'sos') {
+    const note = event.note_enc ? await decrypt(event.note_enc, env.ENCRYPTION_KEY) : null;
+    return generateSosAlertMessage(userName, note, ackUrl);
+  }
+  if (event.kind === 'timer') {
+    const note = event.note_enc ? await decrypt(event.note_enc, env.ENCRYPTION_KEY) : null;
+    return generateTimerAlertMessage(userName, event.deadline_time, note, timeZone, ackUrl);
+  }
+  return generateAlertMessage(userName, event.scheduled_time, timeZone, ackUrl);
 }
 
 /**
@@ -484,6 +1571,45 @@ async function logEvent(
   ).run();
 }
 
+/**
+ * Read a value from system_config
+ */
+async function getSystemConfig(db: D1Database, key: string): Promise<string | null> {
+  const row = await db.prepare(
+    'SELECT value FROM system_config WHERE key = ?'
+  ).bind(key).first<{ value: string }>();
+  return row ? row.value : null;
+}
+
+/**
+ * Load the pause windows that apply to an event
+ * Pause windows only cover scheduled check-ins; timers, SOS and duress
+ * events are only held by pause_until.
+ */
+async function getEventPauseWindows(db: D1Database, event: Pick<CheckinEvent, 'user_id' | 'kind'>): Promise<PauseWindow[]> {
+  return event.kind === 'scheduled' ? getPauseWindows(db, event.user_id) : [];
+}
+
+/**
+ * Load a user's pause calendar
+ */
+async function getPauseWindows(db: D1Database, userId: string): Promise<PauseWindow[]> {
+  const result = await db.prepare(
+    'SELECT * FROM pause_windows WHERE user_id = ?'
+  ).bind(userId).all<PauseWindow>();
+  return result.results;
+}
+
+/**
+ * Write a value to system_config
+ */
+async function setSystemConfig(db: D1Database, key: string, value: string): Promise<void> {
+  await db.prepare(`
+    INSERT INTO system_config (key, value, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `).bind(key, value, new Date().toISOString()).run();
+}
+
 /**
  * Data lifecycle management - cleanup old data
  * Runs daily to remove data older than retention period
@@ -538,6 +1664,12 @@ export async function handleDataCleanup(env: Env): Promise<{
     `).bind(deliveryCutoff).run();
     deliveriesDeleted = deliveryResult.meta.changes || 0;
 
+    // Delete pause ranges that ended more than a day ago
+    await env.DB.prepare(`
+      DELETE FROM pause_windows
+      WHERE kind = 'range' AND ends_at < ?
+    `).bind(new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString()).run();
+
     console.log(`Cleanup complete: ${eventsDeleted} events, ${logsDeleted} logs, ${deliveriesDeleted} deliveries deleted`);
 
   } catch (error) {
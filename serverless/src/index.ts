@@ -16,7 +16,11 @@ import { historyRoutes } from './routes/history';
 import { debugRoutes } from './routes/debug';
 import { inviteRoutes } from './routes/invite';
 import { marketingRoutes } from './routes/marketing';
-import { handleScheduledCheckins, handleEscalations, handleLevel2Escalations, handleRetries, handleDataCleanup } from './cron/scheduler';
+import { alertRoutes } from './routes/alerts';
+import { sosRoutes } from './routes/sos';
+import { handlePauseExpiry, handleScheduledCheckins, handleEarlyReminders, handleReminderLadder, handleEscalations, handleTierEscalations, handleQueuedDeliveries, handleRetries, handleDataCleanup } from './cron/scheduler';
+import { runWithLease } from './cron/lease';
+import { generateUUID } from './utils/crypto';
 import { Env } from './types';
 
 const app = new Hono<{ Bindings: Env }>();
@@ -47,6 +51,8 @@ app.route('/api', settingsRoutes);
 app.route('/api', historyRoutes);
 app.route('/api', debugRoutes);
 app.route('/api', inviteRoutes);
+app.route('/api', alertRoutes);
+app.route('/api', sosRoutes);
 app.route('/', marketingRoutes);
 
 // Error handling
@@ -73,22 +79,37 @@ export default {
   // Scheduled cron handler - runs every minute
   async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext) {
     console.log('Cron triggered at:', new Date().toISOString());
+
+    // Each phase runs under a lease so an overlapping run skips it
+    const runId = generateUUID();
     
     try {
-      // 1. Create pending events for users whose check-in time has arrived
-      await handleScheduledCheckins(env);
+      // 1. Resume monitoring for users whose pause has expired
+      await runWithLease(env, 'pause_expiry', runId, handlePauseExpiry);
+
+      // 2. Create pending events for users whose check-in time has arrived
+      await runWithLease(env, 'scheduled_checkins', runId, handleScheduledCheckins);
+
+      // 3. Send early reminders for upcoming check-ins
+      await runWithLease(env, 'early_reminders', runId, handleEarlyReminders);
+
+      // 4. Send in-grace reminders for pending events
+      await runWithLease(env, 'reminder_ladder', runId, handleReminderLadder);
+
+      // 5. Escalate events that have passed their deadline without response (Level 1)
+      await runWithLease(env, 'escalations', runId, handleEscalations);
 
-      // 2. Escalate events that have passed their deadline without response (Level 1)
-      await handleEscalations(env);
+      // 6. Escalate to the next tier of each user's chain (after its delay)
+      await runWithLease(env, 'tier_escalations', runId, handleTierEscalations);
 
-      // 3. Handle Level 2 escalations (after configured delay)
-      await handleLevel2Escalations(env);
+      // 7. Send queued steps of contacts' channel plans
+      await runWithLease(env, 'queued_deliveries', runId, handleQueuedDeliveries);
 
-      // 4. Retry failed SMS deliveries
-      await handleRetries(env);
+      // 8. Retry failed SMS deliveries
+      await runWithLease(env, 'retries', runId, handleRetries);
 
-      // 5. Data lifecycle cleanup (runs once daily at midnight UTC)
-      await handleDataCleanup(env);
+      // 9. Data lifecycle cleanup (runs once daily at midnight UTC)
+      await runWithLease(env, 'data_cleanup', runId, handleDataCleanup);
 
       console.log('Cron completed successfully');
     } catch (error) {
@@ -0,0 +1,340 @@
+import { createHmac } from 'node:crypto';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { Env, CheckinEvent, AlertDelivery } from '../types';
+import {
+  createTestEnv,
+  insertUser,
+  insertContact,
+  insertEvent,
+  insertDelivery,
+  recordProviderRequests,
+  ProviderRequests,
+  TestEnv,
+} from '../test/env';
+import { buildAckUrl, findAlertBySender, getSenderKey } from '../services/acknowledgment';
+import { UNANSWERED_CALL_STATUSES } from '../services/voice';
+import { alertRoutes } from './alerts';
+
+let testEnv: TestEnv;
+let env: Env;
+let sent: ProviderRequests;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  env = testEnv.env;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+beforeEach(() => {
+  sent = recordProviderRequests();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+interface AlertedEvent {
+  eventId: string;
+  contactIds: string[];
+  deliveryIds: string[];
+}
+
+let slot = 0;
+
+// An alerted event whose alert SMS reached each of the given phones
+async function insertAlertedEvent(phones: string[], escalatedAt = '2026-03-02T12:00:00.000Z'): Promise<AlertedEvent> {
+  const userId = await insertUser(env, { name: 'Riley' });
+  const scheduled = new Date(Date.UTC(2026, 2, 2, 11, 50) + slot++ * 60 * 1000).toISOString();
+  const eventId = await insertEvent(env, userId, {
+    scheduled_time: scheduled,
+    deadline_time: scheduled,
+    status: 'alerted',
+    escalated_at: escalatedAt,
+    escalation_level: 1,
+    next_escalation_at: '2026-03-02T12:15:00.000Z',
+  });
+
+  const contactIds: string[] = [];
+  const deliveryIds: string[] = [];
+  for (const phone of phones) {
+    const contactId = await insertContact(env, userId, { phone });
+    contactIds.push(contactId);
+    deliveryIds.push(await insertDelivery(env, eventId, contactId, {
+      channel: 'sms',
+      status: 'sent',
+      sender_key: await getSenderKey(env, phone),
+    }));
+  }
+  return { eventId, contactIds, deliveryIds };
+}
+
+async function getEvent(eventId: string): Promise<CheckinEvent> {
+  return (await env.DB.prepare('SELECT * FROM checkin_events WHERE event_id = ?').bind(eventId).first<CheckinEvent>())!;
+}
+
+// Path and query of a delivery's signed acknowledgment link
+async function ackPath(deliveryId: string): Promise<string> {
+  const url = new URL(await buildAckUrl(env, deliveryId));
+  return url.pathname.replace(/^\/api/, '') + url.search;
+}
+
+// Twilio's signature: HMAC-SHA1 over the URL followed by the sorted params
+function twilioSignature(url: string, params: Record<string, string>): string {
+  const data = Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], url);
+  return createHmac('sha1', env.TWILIO_AUTH_TOKEN).update(data).digest('base64');
+}
+
+async function postTwilioWebhook(path: string, params: Record<string, string>, signature?: string): Promise<Response> {
+  return alertRoutes.request(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Twilio-Signature': signature ?? twilioSignature(`http://localhost${path}`, params),
+    },
+    body: new URLSearchParams(params).toString(),
+  }, env);
+}
+
+async function postIncomingSms(params: Record<string, string>, signature?: string): Promise<Response> {
+  return postTwilioWebhook('/webhooks/twilio/sms', params, signature);
+}
+
+describe('signed acknowledgment links', () => {
+  it('shows the page on GET without acknowledging', async () => {
+    const alert = await insertAlertedEvent(['+15551300001']);
+
+    const res = await alertRoutes.request(await ackPath(alert.deliveryIds[0]), {}, env);
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("I'm on it");
+    expect((await getEvent(alert.eventId)).acknowledged_at).toBeNull();
+  });
+
+  it('acknowledges on POST and tells the other alerted contacts once', async () => {
+    const alert = await insertAlertedEvent(['+15551300011', '+15551300012']);
+    const path = await ackPath(alert.deliveryIds[0]);
+
+    const res = await alertRoutes.request(path, { method: 'POST' }, env);
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain('Thank you');
+    expect(await getEvent(alert.eventId)).toMatchObject({
+      status: 'alerted',
+      acknowledged_by: alert.contactIds[0],
+      acknowledged_via: 'link',
+      next_escalation_at: null,
+    });
+    expect(sent.smsTo('+15551300012')).toHaveLength(1);
+    expect(sent.smsTo('+15551300011')).toHaveLength(0);
+
+    const again = await alertRoutes.request(path, { method: 'POST' }, env);
+    expect(await again.text()).toContain('Already handled');
+    expect(sent.smsTo('+15551300012')).toHaveLength(1);
+  });
+
+  it('rejects a tampered or foreign signature', async () => {
+    const alert = await insertAlertedEvent(['+15551300021']);
+    const other = await insertAlertedEvent(['+15551300022']);
+    const path = await ackPath(alert.deliveryIds[0]);
+    const tampered = path.replace(/sig=(.)/, (_, c) => `sig=${c === '0' ? '1' : '0'}`);
+    const foreign = path.replace(/sig=.*/, (await ackPath(other.deliveryIds[0])).replace(/.*(sig=)/, '$1'));
+
+    for (const badPath of [tampered, foreign, path.replace(/\?sig=.*/, '')]) {
+      expect((await alertRoutes.request(badPath, {}, env)).status).toBe(404);
+      expect((await alertRoutes.request(badPath, { method: 'POST' }, env)).status).toBe(404);
+    }
+    expect((await getEvent(alert.eventId)).acknowledged_at).toBeNull();
+  });
+});
+
+describe('POST /webhooks/twilio/sms', () => {
+  it('acknowledges the sender\'s alert on an "OK" reply', async () => {
+    const alert = await insertAlertedEvent(['+15551300031', '+15551300032']);
+
+    const res = await postIncomingSms({ From: '+15551300031', Body: 'ok, calling her now' });
+
+    expect(res.headers.get('Content-Type')).toContain('text/xml');
+    expect(await res.text()).toContain('Their other contacts have been told you&apos;re on it.');
+    expect(await getEvent(alert.eventId)).toMatchObject({ acknowledged_by: alert.contactIds[0], acknowledged_via: 'sms' });
+    expect(sent.smsTo('+15551300032')).toHaveLength(1);
+  });
+
+  it('acknowledges a WhatsApp "OK" reply', async () => {
+    const alert = await insertAlertedEvent(['+15551300191']);
+    await env.DB.prepare("UPDATE alert_deliveries SET channel = 'whatsapp' WHERE delivery_id = ?")
+      .bind(alert.deliveryIds[0]).run();
+
+    const res = await postIncomingSms({ From: 'whatsapp:+15551300191', Body: 'OK' });
+
+    expect(await res.text()).toContain('Thanks.');
+    expect(await getEvent(alert.eventId)).toMatchObject({ acknowledged_by: alert.contactIds[0], acknowledged_via: 'whatsapp' });
+  });
+
+  it('asks for OK when the reply is something else', async () => {
+    const alert = await insertAlertedEvent(['+15551300041']);
+
+    const res = await postIncomingSms({ From: '+15551300041', Body: 'who is this?' });
+
+    expect(await res.text()).toContain('Reply OK');
+    expect((await getEvent(alert.eventId)).acknowledged_at).toBeNull();
+  });
+
+  it('ignores senders who were not alerted', async () => {
+    const res = await postIncomingSms({ From: '+15551300099', Body: 'OK' });
+
+    expect(await res.text()).toBe('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
+  });
+
+  it('rejects requests without a valid Twilio signature', async () => {
+    const alert = await insertAlertedEvent(['+15551300051']);
+    const params = { From: '+15551300051', Body: 'OK' };
+
+    const forged = await postIncomingSms(params, twilioSignature('http://localhost/webhooks/twilio/sms', { ...params, Body: 'no' }));
+    const missing = await postIncomingSms(params, '');
+
+    expect(forged.status).toBe(403);
+    expect(missing.status).toBe(403);
+    expect((await getEvent(alert.eventId)).acknowledged_at).toBeNull();
+  });
+});
+
+describe('findAlertBySender', () => {
+  it('matches the alerted contact by phone number', async () => {
+    const alert = await insertAlertedEvent(['+15551300061']);
+
+    expect(await findAlertBySender(env, '+15551300061')).toEqual({ event_id: alert.eventId, contact_id: alert.contactIds[0] });
+  });
+
+  it('returns null for an unknown sender', async () => {
+    await insertAlertedEvent(['+15551300071']);
+
+    expect(await findAlertBySender(env, '+15551300079')).toBeNull();
+  });
+
+  it('ignores deliveries without a sender key', async () => {
+    const alert = await insertAlertedEvent(['+15551300091']);
+    await env.DB.prepare('UPDATE alert_deliveries SET sender_key = NULL WHERE delivery_id = ?')
+      .bind(alert.deliveryIds[0]).run();
+
+    expect(await findAlertBySender(env, '+15551300091')).toBeNull();
+  });
+
+  it('picks the most recent open alert when a sender has several', async () => {
+    await insertAlertedEvent(['+15551300081'], '2026-03-02T10:00:00.000Z');
+    const latest = await insertAlertedEvent(['+15551300081'], '2026-03-02T11:00:00.000Z');
+    const acknowledged = await insertAlertedEvent(['+15551300081'], '2026-03-02T11:30:00.000Z');
+    await env.DB.prepare('UPDATE checkin_events SET acknowledged_at = ? WHERE event_id = ?')
+      .bind('2026-03-02T11:31:00.000Z', acknowledged.eventId).run();
+
+    expect((await findAlertBySender(env, '+15551300081'))?.event_id).toBe(latest.eventId);
+  });
+});
+
+describe('POST /webhooks/twilio/voice/:deliveryId/gather', () => {
+  // An alerted event whose alert call reached the first phone
+  async function insertCalledEvent(phones: string[]): Promise<AlertedEvent & { callId: string }> {
+    const alert = await insertAlertedEvent(phones);
+    const callId = await insertDelivery(env, alert.eventId, alert.contactIds[0], { channel: 'voice', status: 'sent', provider_ref: 'CA1' });
+    return { ...alert, callId };
+  }
+
+  it('acknowledges the alert when 1 is pressed', async () => {
+    const alert = await insertCalledEvent(['+15551300101', '+15551300102']);
+
+    const res = await postTwilioWebhook(`/webhooks/twilio/voice/${alert.callId}/gather`, { Digits: '1' });
+
+    expect(res.headers.get('Content-Type')).toContain('text/xml');
+    expect(await res.text()).toContain('Thank you. Their other contacts will be told you&apos;re checking on them.');
+    expect(await getEvent(alert.eventId)).toMatchObject({ acknowledged_by: alert.contactIds[0], acknowledged_via: 'voice' });
+    expect(sent.smsTo('+15551300102')).toHaveLength(1);
+  });
+
+  it('does not acknowledge on other digits', async () => {
+    const alert = await insertCalledEvent(['+15551300111']);
+
+    for (const digits of ['2', '0', '11', '']) {
+      const res = await postTwilioWebhook(`/webhooks/twilio/voice/${alert.callId}/gather`, { Digits: digits });
+      expect(await res.text()).toContain('<Say>Goodbye.</Say>');
+    }
+    expect((await getEvent(alert.eventId)).acknowledged_at).toBeNull();
+  });
+
+  it('tells a second contact someone is already on it', async () => {
+    const alert = await insertCalledEvent(['+15551300121', '+15551300122']);
+    const secondCall = await insertDelivery(env, alert.eventId, alert.contactIds[1], { channel: 'voice', status: 'sent', provider_ref: 'CA2' });
+
+    await postTwilioWebhook(`/webhooks/twilio/voice/${alert.callId}/gather`, { Digits: '1' });
+    const res = await postTwilioWebhook(`/webhooks/twilio/voice/${secondCall}/gather`, { Digits: '1' });
+
+    expect(await res.text()).toContain('Another contact is already checking on them.');
+    expect((await getEvent(alert.eventId)).acknowledged_by).toBe(alert.contactIds[0]);
+  });
+
+  it('rejects keypresses without a valid Twilio signature', async () => {
+    const alert = await insertCalledEvent(['+15551300131']);
+
+    const res = await postTwilioWebhook(`/webhooks/twilio/voice/${alert.callId}/gather`, { Digits: '1' }, 'forged');
+
+    expect(res.status).toBe(403);
+    expect((await getEvent(alert.eventId)).acknowledged_at).toBeNull();
+  });
+});
+
+describe('POST /webhooks/twilio/voice/:deliveryId/status', () => {
+  async function getDelivery(deliveryId: string): Promise<AlertDelivery> {
+    return (await env.DB.prepare('SELECT * FROM alert_deliveries WHERE delivery_id = ?').bind(deliveryId).first<AlertDelivery>())!;
+  }
+
+  async function insertCall(alert: AlertedEvent): Promise<string> {
+    return insertDelivery(env, alert.eventId, alert.contactIds[0], {
+      channel: 'voice',
+      status: 'sent',
+      provider_ref: 'CA100',
+      max_retries: 3,
+    });
+  }
+
+  it.each(UNANSWERED_CALL_STATUSES)('queues a %s call for retry', async (callStatus) => {
+    const alert = await insertAlertedEvent(['+15551300141']);
+    const callId = await insertCall(alert);
+
+    const res = await postTwilioWebhook(`/webhooks/twilio/voice/${callId}/status`, { CallSid: 'CA100', CallStatus: callStatus });
+
+    expect(res.status).toBe(204);
+    const delivery = await getDelivery(callId);
+    expect(delivery).toMatchObject({ status: 'failed', provider_status: callStatus, retry_count: 1 });
+    expect(delivery.next_retry_at).not.toBeNull();
+  });
+
+  it('marks an answered call delivered without retrying it', async () => {
+    const alert = await insertAlertedEvent(['+15551300151']);
+    const callId = await insertCall(alert);
+
+    await postTwilioWebhook(`/webhooks/twilio/voice/${callId}/status`, { CallSid: 'CA100', CallStatus: 'completed' });
+
+    expect(await getDelivery(callId)).toMatchObject({ status: 'delivered', retry_count: 0, next_retry_at: null });
+  });
+
+  it('does not retry once the alert has been acknowledged', async () => {
+    const alert = await insertAlertedEvent(['+15551300161']);
+    const callId = await insertCall(alert);
+    await env.DB.prepare('UPDATE checkin_events SET acknowledged_at = ? WHERE event_id = ?')
+      .bind('2026-03-02T12:05:00.000Z', alert.eventId).run();
+
+    await postTwilioWebhook(`/webhooks/twilio/voice/${callId}/status`, { CallSid: 'CA100', CallStatus: 'no-answer' });
+
+    expect(await getDelivery(callId)).toMatchObject({ status: 'failed', next_retry_at: null });
+  });
+
+  it('ignores the status of an earlier call', async () => {
+    const alert = await insertAlertedEvent(['+15551300171']);
+    const callId = await insertCall(alert);
+
+    await postTwilioWebhook(`/webhooks/twilio/voice/${callId}/status`, { CallSid: 'CA099', CallStatus: 'busy' });
+
+    expect(await getDelivery(callId)).toMatchObject({ status: 'sent', retry_count: 0 });
+  });
+});
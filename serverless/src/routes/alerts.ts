@@ -0,0 +1,376 @@
+/**
+ * Are You Safe? - Alert Acknowledgment Routes
+ *
+ * Lets an alerted contact acknowledge an alert so later escalation tiers
+ * stop and the other contacts know someone is on it:
+ * - push action from the app (contact's own account)
+ * - signed link included in the alert SMS
+ * - SMS or WhatsApp reply, via the Twilio incoming message webhook
+ * - pressing 1 during an alert call, via the Twilio voice webhooks
+ */
+
+import { Hono } from 'hono';
+import { Env, User, Contact, AlertDelivery } from '../types';
+import {
+  acknowledgeAlert,
+  findAlertBySender,
+  verifyAckSignature,
+  AcknowledgmentResult,
+} from '../services/acknowledgment';
+import { isAcknowledgmentReply, verifyTwilioSignature, calculateNextRetry } from '../services/twilio';
+import { buildSayTwiml, UNANSWERED_CALL_STATUSES } from '../services/voice';
+import { fromWhatsAppAddress } from '../services/whatsapp';
+
+export const alertRoutes = new Hono<{ Bindings: Env }>();
+
+// Helper to get authenticated user
+async function getAuthUser(c: any): Promise<User | null> {
+  const authHeader = c.req.header('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = authHeader.substring(7);
+  return await c.env.DB.prepare(
+    'SELECT * FROM users WHERE auth_token = ?'
+  ).bind(token).first<User>();
+}
+
+/**
+ * POST /api/alerts/:eventId/ack
+ *
+ * Acknowledge an alert from the app (push notification action).
+ * The caller must be a linked contact of the user who missed the check-in.
+ */
+alertRoutes.post('/alerts/:eventId/ack', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const eventId = c.req.param('eventId');
+
+  try {
+    // The caller's contact entry for the event's owner, if they were alerted
+    const contact = await c.env.DB.prepare(`
+      SELECT c.* FROM contacts c
+      JOIN checkin_events e ON e.user_id = c.user_id
+      WHERE e.event_id = ? AND c.linked_user_id = ?
+      AND EXISTS (
+        SELECT 1 FROM alert_deliveries d
+        WHERE d.event_id = e.event_id AND d.contact_id = c.contact_id AND d.purpose = 'alert'
+      )
+    `).bind(eventId, user.user_id).first<Contact>();
+
+    if (!contact) {
+      return c.json({ error: 'Alert not found' }, 404);
+    }
+
+    const result = await acknowledgeAlert(c.env, { eventId, contactId: contact.contact_id, via: 'push' });
+    return c.json(formatResult(result));
+
+  } catch (error) {
+    console.error('Alert acknowledgment error:', error);
+    return c.json({
+      error: 'Acknowledgment failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/alerts/ack/:deliveryId?sig=...
+ *
+ * Landing page for the link in an alert SMS. Acknowledging takes a button
+ * press (POST) so link previews don't acknowledge on the contact's behalf.
+ */
+alertRoutes.get('/alerts/ack/:deliveryId', async (c) => {
+  const deliveryId = c.req.param('deliveryId');
+  const signature = c.req.query('sig') || '';
+
+  if (!(await verifyAckSignature(c.env, deliveryId, signature))) {
+    return c.html(ackPage('Link not valid', 'This acknowledgment link is not valid.'), 404);
+  }
+
+  return c.html(ackPage(
+    'Are you checking on them?',
+    "Let their other emergency contacts know you're handling this alert.",
+    `<form method="POST" action="?sig=${encodeURIComponent(signature)}">
+      <button type="submit">I'm on it</button>
+    </form>`
+  ));
+});
+
+/**
+ * POST /api/alerts/ack/:deliveryId?sig=...
+ *
+ * Acknowledge an alert through its signed link.
+ */
+alertRoutes.post('/alerts/ack/:deliveryId', async (c) => {
+  const deliveryId = c.req.param('deliveryId');
+  const signature = c.req.query('sig') || '';
+
+  if (!(await verifyAckSignature(c.env, deliveryId, signature))) {
+    return c.html(ackPage('Link not valid', 'This acknowledgment link is not valid.'), 404);
+  }
+
+  const delivery = await c.env.DB.prepare(`
+    SELECT event_id, contact_id FROM alert_deliveries
+    WHERE delivery_id = ? AND purpose = 'alert'
+  `).bind(deliveryId).first<{ event_id: string; contact_id: string }>();
+
+  if (!delivery) {
+    return c.html(ackPage('Alert not found', 'This alert is no longer available.'), 404);
+  }
+
+  const result = await acknowledgeAlert(c.env, {
+    eventId: delivery.event_id,
+    contactId: delivery.contact_id,
+    via: 'link'
+  });
+
+  if (result.acknowledged) {
+    return c.html(ackPage('Thank you', "Their other contacts have been told you're on it."));
+  }
+  if (result.reason === 'already_acknowledged') {
+    return c.html(ackPage('Already handled', 'Another contact has already acknowledged this alert.'));
+  }
+  return c.html(ackPage('Alert resolved', 'This alert is no longer active.'));
+});
+
+/**
+ * POST /api/webhooks/twilio/sms
+ *
+ * Twilio incoming message webhook, for both the SMS number and the
+ * WhatsApp sender. A reply such as "OK" from an alerted contact
+ * acknowledges their alert. Answers with TwiML.
+ */
+alertRoutes.post('/webhooks/twilio/sms', async (c) => {
+  const params = await readTwilioParams(c);
+  if (!params) {
+    return c.json({ error: 'Invalid signature' }, 403);
+  }
+
+  const from = fromWhatsAppAddress(params.From || '');
+  const via = (params.From || '').startsWith('whatsapp:') ? 'whatsapp' : 'sms';
+  const body = params.Body || '';
+
+  try {
+    const alert = await findAlertBySender(c.env, from);
+    if (!alert) {
+      return twiml(c, null);
+    }
+
+    if (!isAcknowledgmentReply(body)) {
+      return twiml(c, "Reply OK to let their other contacts know you're checking on them.");
+    }
+
+    const result = await acknowledgeAlert(c.env, { eventId: alert.event_id, contactId: alert.contact_id, via });
+    return twiml(c, result.acknowledged
+      ? "Thanks. Their other contacts have been told you're on it."
+      : 'Another contact has already acknowledged this alert.');
+
+  } catch (error) {
+    console.error('Incoming SMS handling error:', error);
+    return twiml(c, null);
+  }
+});
+
+/**
+ * POST /api/webhooks/twilio/voice/:deliveryId/gather
+ *
+ * Keypress from an alert call. Pressing 1 acknowledges the alert.
+ * Answers with TwiML that is spoken before hanging up.
+ */
+alertRoutes.post('/webhooks/twilio/voice/:deliveryId/gather', async (c) => {
+  const params = await readTwilioParams(c);
+  if (!params) {
+    return c.json({ error: 'Invalid signature' }, 403);
+  }
+
+  if (params.Digits !== '1') {
+    return voiceReply(c, 'Goodbye.');
+  }
+
+  try {
+    const delivery = await c.env.DB.prepare(`
+      SELECT event_id, contact_id FROM alert_deliveries
+      WHERE delivery_id = ? AND channel = 'voice' AND purpose = 'alert'
+    `).bind(c.req.param('deliveryId')).first<{ event_id: string; contact_id: string }>();
+
+    if (!delivery) {
+      return voiceReply(c, 'This alert is no longer active. Goodbye.');
+    }
+
+    const result = await acknowledgeAlert(c.env, {
+      eventId: delivery.event_id,
+      contactId: delivery.contact_id,
+      via: 'voice'
+    });
+
+    if (result.acknowledged) {
+      return voiceReply(c, "Thank you. Their other contacts will be told you're checking on them. Goodbye.");
+    }
+    if (result.reason === 'already_acknowledged') {
+      return voiceReply(c, 'Another contact is already checking on them. Thank you. Goodbye.');
+    }
+    return voiceReply(c, 'This alert is no longer active. Goodbye.');
+
+  } catch (error) {
+    console.error('Voice keypress handling error:', error);
+    return voiceReply(c, 'Sorry, something went wrong. Goodbye.');
+  }
+});
+
+/**
+ * POST /api/webhooks/twilio/voice/:deliveryId/status
+ *
+ * Final status of an alert call. Answered calls are marked delivered;
+ * calls nobody took go back on the retry queue like failed SMS, unless
+ * the alert has been resolved or acknowledged meanwhile.
+ */
+alertRoutes.post('/webhooks/twilio/voice/:deliveryId/status', async (c) => {
+  const params = await readTwilioParams(c);
+  if (!params) {
+    return c.json({ error: 'Invalid signature' }, 403);
+  }
+
+  const deliveryId = c.req.param('deliveryId');
+  const callStatus = params.CallStatus || '';
+  const now = new Date().toISOString();
+
+  try {
+    const delivery = await c.env.DB.prepare(`
+      SELECT d.*, e.status as event_status, e.acknowledged_at as event_acknowledged_at
+      FROM alert_deliveries d
+      JOIN checkin_events e ON d.event_id = e.event_id
+      WHERE d.delivery_id = ? AND d.channel = 'voice'
+    `).bind(deliveryId).first<AlertDelivery & { event_status: string; event_acknowledged_at: string | null }>();
+
+    // Only the call placed for the current attempt may update the delivery
+    if (!delivery || delivery.status !== 'sent' || delivery.provider_ref !== params.CallSid) {
+      return c.body(null, 204);
+    }
+
+    if (callStatus === 'completed') {
+      await c.env.DB.prepare(`
+        UPDATE alert_deliveries
+        SET status = 'delivered', provider_status = ?, delivered_at = ?, updated_at = ?
+        WHERE delivery_id = ? AND status = 'sent'
+      `).bind(callStatus, now, now, deliveryId).run();
+    } else if (UNANSWERED_CALL_STATUSES.includes(callStatus)) {
+      const stillNeeded = delivery.event_status === 'alerted' && !delivery.event_acknowledged_at;
+      const newRetryCount = delivery.retry_count + 1;
+      const nextRetry = stillNeeded && newRetryCount < delivery.max_retries
+        ? calculateNextRetry(newRetryCount)
+        : null;
+
+      await c.env.DB.prepare(`
+        UPDATE alert_deliveries
+        SET status = 'failed', provider_status = ?, error_message = ?, retry_count = ?,
+            next_retry_at = ?, updated_at = ?
+        WHERE delivery_id = ? AND status = 'sent'
+      `).bind(callStatus, `Call ${callStatus}`, newRetryCount, nextRetry, now, deliveryId).run();
+    }
+
+    return c.body(null, 204);
+
+  } catch (error) {
+    console.error('Voice status handling error:', error);
+    return c.body(null, 500);
+  }
+});
+
+function formatResult(result: AcknowledgmentResult) {
+  return {
+    success: true,
+    acknowledged: result.acknowledged,
+    reason: result.reason || null,
+    contacts_notified: result.contacts_notified
+  };
+}
+
+// Form parameters of a Twilio webhook, or null if the signature is invalid
+async function readTwilioParams(c: any): Promise<Record<string, string> | null> {
+  const form = await c.req.parseBody();
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(form)) {
+    if (typeof value === 'string') {
+      params[key] = value;
+    }
+  }
+
+  const signature = c.req.header('X-Twilio-Signature') || '';
+  if (!(await verifyTwilioSignature(c.req.url, params, signature, c.env.TWILIO_AUTH_TOKEN))) {
+    return null;
+  }
+  return params;
+}
+
+// TwiML response for an alert call
+function voiceReply(c: any, message: string) {
+  return c.body(buildSayTwiml(message), 200, {
+    'Content-Type': 'text/xml'
+  });
+}
+
+// TwiML response, optionally replying to the sender
+function twiml(c: any, message: string | null) {
+  const reply = message ? `<Message>${escapeXml(message)}</Message>` : '';
+  return c.body(`<?xml version="1.0" encoding="UTF-8"?><Response>${reply}</Response>`, 200, {
+    'Content-Type': 'text/xml'
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Minimal page for the acknowledgment link
+function ackPage(title: string, message: string, action: string = ''): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <meta name="robots" content="noindex" />
+  <title>Are You Safe? — ${title}</title>
+  <style>
+    body {
+      margin: 0;
+      font-family: system-ui, -apple-system, sans-serif;
+      background: #f7f7fb;
+      color: #1b1b1f;
+    }
+    .container {
+      max-width: 480px;
+      margin: 0 auto;
+      padding: 64px 24px;
+      text-align: center;
+    }
+    button {
+      margin-top: 24px;
+      padding: 14px 28px;
+      font-size: 17px;
+      font-weight: 600;
+      color: #fff;
+      background: #4d2fd2;
+      border: none;
+      border-radius: 12px;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>${title}</h1>
+    <p>${message}</p>
+    ${action}
+  </div>
+</body>
+</html>`;
+}
@@ -0,0 +1,435 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { Env, CheckinEvent } from '../types';
+import {
+  createTestEnv,
+  insertUser,
+  insertContact,
+  insertEvent,
+  insertDelivery,
+  recordProviderRequests,
+  ProviderRequests,
+  TestEnv,
+} from '../test/env';
+import { decrypt, hashPin } from '../utils/crypto';
+import { checkinRoutes } from './checkin';
+import { historyRoutes } from './history';
+
+let testEnv: TestEnv;
+let env: Env;
+let sent: ProviderRequests;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  env = testEnv.env;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+beforeEach(() => {
+  sent = recordProviderRequests();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+const NOW = '2026-03-02T12:00:00.000Z';
+
+function setNow(iso: string): void {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date(iso));
+}
+
+// A user with a known auth token
+async function insertAuthUser(token: string): Promise<string> {
+  return insertUser(env, { auth_token: token });
+}
+
+async function post(path: string, token: string, body?: object): Promise<Response> {
+  return checkinRoutes.request(path, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  }, env);
+}
+
+async function getEvent(eventId: string): Promise<CheckinEvent> {
+  return (await env.DB.prepare('SELECT * FROM checkin_events WHERE event_id = ?').bind(eventId).first<CheckinEvent>())!;
+}
+
+async function startTimer(token: string, body: object): Promise<string> {
+  const res = await post('/checkin/timer', token, body);
+  expect(res.status).toBe(201);
+  return (await res.json<{ event_id: string }>()).event_id;
+}
+
+describe('POST /checkin/timer', () => {
+  it('creates a pending timer event with an encrypted note', async () => {
+    setNow(NOW);
+    await insertAuthUser('token-timer');
+
+    const res = await post('/checkin/timer', 'token-timer', { duration_minutes: 90, note: 'Hiking the ridge trail' });
+
+    expect(res.status).toBe(201);
+    const body = await res.json<Record<string, string>>();
+    expect(body).toMatchObject({ kind: 'timer', status: 'pending', scheduled_time: NOW, deadline_time: '2026-03-02T13:30:00.000Z' });
+
+    const event = await getEvent(body.event_id);
+    expect(event.kind).toBe('timer');
+    expect(event.next_reminder_at).not.toBeNull();
+    expect(await decrypt(event.note_enc!, env.ENCRYPTION_KEY)).toBe('Hiking the ridge trail');
+  });
+
+  it('accepts an absolute deadline', async () => {
+    setNow(NOW);
+    await insertAuthUser('token-timer-at');
+
+    const eventId = await startTimer('token-timer-at', { deadline_at: '2026-03-02T17:30:00Z' });
+    expect((await getEvent(eventId)).deadline_time).toBe('2026-03-02T17:30:00.000Z');
+  });
+
+  it('rejects deadlines that are too close, too far or missing', async () => {
+    setNow(NOW);
+    await insertAuthUser('token-timer-bad');
+
+    expect((await post('/checkin/timer', 'token-timer-bad', { duration_minutes: 2 })).status).toBe(400);
+    expect((await post('/checkin/timer', 'token-timer-bad', { duration_minutes: 25 * 60 })).status).toBe(400);
+    expect((await post('/checkin/timer', 'token-timer-bad', { deadline_at: 'tonight' })).status).toBe(400);
+    expect((await post('/checkin/timer', 'token-timer-bad', {})).status).toBe(400);
+    expect((await post('/checkin/timer', 'token-timer-bad', { duration_minutes: 30, note: 'x'.repeat(281) })).status).toBe(400);
+  });
+
+  it('requires authentication', async () => {
+    expect((await post('/checkin/timer', 'no-such-token', { duration_minutes: 30 })).status).toBe(401);
+  });
+});
+
+describe('POST /checkin/timer/:eventId/extend', () => {
+  it('moves the deadline later', async () => {
+    setNow(NOW);
+    await insertAuthUser('token-extend');
+    const eventId = await startTimer('token-extend', { duration_minutes: 60 });
+
+    const res = await post(`/checkin/timer/${eventId}/extend`, 'token-extend', { extend_minutes: 30 });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ original_deadline: '2026-03-02T13:00:00.000Z', new_deadline: '2026-03-02T13:30:00.000Z' });
+    expect((await getEvent(eventId)).deadline_time).toBe('2026-03-02T13:30:00.000Z');
+  });
+
+  it('refuses to move the deadline earlier', async () => {
+    setNow(NOW);
+    await insertAuthUser('token-extend-earlier');
+    const eventId = await startTimer('token-extend-earlier', { duration_minutes: 60 });
+
+    const res = await post(`/checkin/timer/${eventId}/extend`, 'token-extend-earlier', { deadline_at: '2026-03-02T12:30:00Z' });
+
+    expect(res.status).toBe(400);
+    expect((await getEvent(eventId)).deadline_time).toBe('2026-03-02T13:00:00.000Z');
+  });
+
+  it('does not find another user\'s timer', async () => {
+    setNow(NOW);
+    await insertAuthUser('token-owner');
+    await insertAuthUser('token-other');
+    const eventId = await startTimer('token-owner', { duration_minutes: 60 });
+
+    expect((await post(`/checkin/timer/${eventId}/extend`, 'token-other', { extend_minutes: 30 })).status).toBe(404);
+  });
+});
+
+describe('POST /checkin/timer/:eventId/cancel', () => {
+  it('cancels a running timer, and is idempotent', async () => {
+    setNow(NOW);
+    await insertAuthUser('token-cancel');
+    const eventId = await startTimer('token-cancel', { duration_minutes: 60 });
+
+    const first = await post(`/checkin/timer/${eventId}/cancel`, 'token-cancel');
+    const second = await post(`/checkin/timer/${eventId}/cancel`, 'token-cancel');
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(await second.json()).toMatchObject({ status: 'cancelled' });
+
+    const event = await getEvent(eventId);
+    expect(event.status).toBe('cancelled');
+    expect(event.next_reminder_at).toBeNull();
+  });
+
+  it('cannot cancel a timer that has already alerted', async () => {
+    setNow(NOW);
+    await insertAuthUser('token-cancel-alerted');
+    const eventId = await startTimer('token-cancel-alerted', { duration_minutes: 60 });
+    await env.DB.prepare("UPDATE checkin_events SET status = 'alerted' WHERE event_id = ?").bind(eventId).run();
+
+    expect((await post(`/checkin/timer/${eventId}/cancel`, 'token-cancel-alerted')).status).toBe(400);
+    expect((await post(`/checkin/timer/${eventId}/extend`, 'token-cancel-alerted', { extend_minutes: 30 })).status).toBe(400);
+  });
+});
+
+describe('POST /checkin/confirm with check-in windows', () => {
+  const WINDOW_RULES = JSON.stringify([{ times: ['07:00-10:00'] }]);
+
+  it('satisfies an open window before its event exists', async () => {
+    setNow('2026-03-02T06:59:50Z');
+    const userId = await insertUser(env, { auth_token: 'token-window', timezone: 'UTC', checkin_times: '["07:00"]', schedule_rules: WINDOW_RULES });
+
+    setNow('2026-03-02T08:15:00Z');
+    // The event for the 07:00 slot was not created yet (e.g. the cron was late)
+    const res = await post('/checkin/confirm', 'token-window', {});
+
+    expect(res.status).toBe(200);
+    const { event_id } = await res.json<{ event_id: string }>();
+    const event = await getEvent(event_id);
+    expect(event).toMatchObject({ status: 'confirmed', scheduled_time: '2026-03-02T07:00:00.000Z', window_end: '2026-03-02T10:00:00.000Z' });
+
+    const count = await env.DB.prepare('SELECT COUNT(*) as count FROM checkin_events WHERE user_id = ?').bind(userId).first<{ count: number }>();
+    expect(count!.count).toBe(1);
+  });
+
+  it('confirms the pending window event', async () => {
+    setNow('2026-03-02T08:15:00Z');
+    const userId = await insertUser(env, { auth_token: 'token-window-pending', timezone: 'UTC', checkin_times: '["07:00"]', schedule_rules: WINDOW_RULES });
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T07:00:00.000Z',
+      deadline_time: '2026-03-02T10:00:00.000Z',
+      window_end: '2026-03-02T10:00:00.000Z',
+      status: 'pending',
+    });
+
+    const res = await post('/checkin/confirm', 'token-window-pending', { scheduled_at: '2026-03-02T08:15:00.000Z' });
+
+    expect(res.status).toBe(200);
+    expect((await getEvent(eventId)).status).toBe('confirmed');
+  });
+});
+
+describe('POST /checkin/confirm in interval mode', () => {
+  it('restarts the interval from the confirmation', async () => {
+    setNow('2026-03-02T15:50:00Z');
+    const userId = await insertUser(env, {
+      auth_token: 'token-interval',
+      checkin_mode: 'interval',
+      interval_hours: 8,
+      interval_anchor_at: '2026-03-02T08:00:00.000Z',
+      grace_minutes: 10,
+    });
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T15:50:00.000Z',
+      deadline_time: '2026-03-02T16:00:00.000Z',
+      status: 'pending',
+    });
+
+    setNow('2026-03-02T15:55:00Z');
+    const res = await post('/checkin/confirm', 'token-interval', { event_id: eventId });
+
+    expect(res.status).toBe(200);
+    const user = await env.DB.prepare('SELECT interval_anchor_at, next_checkin_at FROM users WHERE user_id = ?')
+      .bind(userId).first<{ interval_anchor_at: string; next_checkin_at: string }>();
+    expect(user).toEqual({
+      interval_anchor_at: '2026-03-02T15:55:00.000Z',
+      next_checkin_at: '2026-03-02T23:45:00.000Z',
+    });
+  });
+});
+
+describe('POST /checkin/snooze', () => {
+  it('enforces the user\'s snooze policy', async () => {
+    setNow(NOW);
+    const userId = await insertUser(env, {
+      auth_token: 'token-snooze',
+      snooze_max_count: 2,
+      snooze_durations: '[5,15]',
+      snooze_max_total_minutes: 20,
+    });
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:55:00.000Z',
+      deadline_time: '2026-03-02T12:05:00.000Z',
+      status: 'pending',
+    });
+
+    const wrongDuration = await post('/checkin/snooze', 'token-snooze', { event_id: eventId, snooze_minutes: 10 });
+    expect(wrongDuration.status).toBe(400);
+
+    const first = await post('/checkin/snooze', 'token-snooze', { event_id: eventId, snooze_minutes: 15 });
+    expect(await first.json()).toMatchObject({ new_deadline: '2026-03-02T12:20:00.000Z', snoozes_remaining: 1, snooze_minutes_remaining: 5 });
+
+    const overTotal = await post('/checkin/snooze', 'token-snooze', { event_id: eventId, snooze_minutes: 15 });
+    expect(overTotal.status).toBe(400);
+    expect(await overTotal.json()).toMatchObject({ error: 'Snooze limit reached', remaining_minutes: 5 });
+
+    const second = await post('/checkin/snooze', 'token-snooze', { event_id: eventId, snooze_minutes: 5 });
+    expect(second.status).toBe(200);
+
+    const third = await post('/checkin/snooze', 'token-snooze', { event_id: eventId, snooze_minutes: 5 });
+    expect(third.status).toBe(400);
+    expect(await third.json()).toMatchObject({ error: 'Already snoozed' });
+
+    expect(await getEvent(eventId)).toMatchObject({ status: 'snoozed', snooze_count: 2, snooze_minutes_total: 20 });
+  });
+});
+
+describe('POST /checkin/confirm after alerts went out', () => {
+  it('confirms late and sends the alerted contacts one all-clear', async () => {
+    setNow(NOW);
+    const userId = await insertUser(env, { auth_token: 'token-late', name: 'Sam' });
+    const contactId = await insertContact(env, userId, { phone: '+15551310001' });
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:30:00.000Z',
+      deadline_time: '2026-03-02T11:40:00.000Z',
+      status: 'alerted',
+      escalated_at: '2026-03-02T11:40:30.000Z',
+    });
+    await insertDelivery(env, eventId, contactId, { channel: 'sms', status: 'sent' });
+
+    const res = await post('/checkin/confirm', 'token-late', { event_id: eventId });
+    const again = await post('/checkin/confirm', 'token-late', { event_id: eventId });
+
+    expect(await res.json()).toMatchObject({ status: 'confirmed', was_escalated: true, contacts_notified: 1 });
+    expect(await again.json()).toMatchObject({ message: 'Already confirmed' });
+    expect(sent.smsTo('+15551310001')).toEqual([expect.stringMatching(/All clear: Sam has checked in/)]);
+    const logs = await env.DB.prepare(
+      "SELECT COUNT(*) as count FROM event_logs WHERE event_id = ? AND event_type = 'all_clear_sent'"
+    ).bind(eventId).first<{ count: number }>();
+    expect(logs!.count).toBe(1);
+  });
+});
+
+describe('POST /checkin/confirm with a check-in PIN', () => {
+  // Duress escalations run after the response, through waitUntil
+  async function confirmWithPin(token: string, body: object): Promise<Response> {
+    const pending: Promise<unknown>[] = [];
+    const executionCtx = {
+      waitUntil: (promise: Promise<unknown>) => { pending.push(promise); },
+      passThroughOnException: () => {},
+    } as unknown as ExecutionContext;
+    const res = await checkinRoutes.request('/checkin/confirm', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }, env, executionCtx);
+    await Promise.all(pending);
+    return res;
+  }
+
+  async function insertPinUser(token: string, phone: string): Promise<{ userId: string; eventId: string }> {
+    const userId = await insertUser(env, {
+      auth_token: token,
+      name: 'Kim',
+      checkin_pin_hash: await hashPin('1357'),
+      duress_pin_hash: await hashPin('9753'),
+    });
+    await insertContact(env, userId, { phone });
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:55:00.000Z',
+      deadline_time: '2026-03-02T12:05:00.000Z',
+      status: 'pending',
+    });
+    return { userId, eventId };
+  }
+
+  it('requires the PIN and rejects a wrong one', async () => {
+    setNow(NOW);
+    const { eventId } = await insertPinUser('token-pin', '+15551330001');
+
+    expect((await confirmWithPin('token-pin', { event_id: eventId })).status).toBe(400);
+    expect((await confirmWithPin('token-pin', { event_id: eventId, pin: '0000' })).status).toBe(403);
+    expect((await getEvent(eventId)).status).toBe('pending');
+  });
+
+  it('confirms with the real PIN without alerting anyone', async () => {
+    setNow(NOW);
+    const { eventId } = await insertPinUser('token-pin-ok', '+15551330011');
+
+    const res = await confirmWithPin('token-pin-ok', { event_id: eventId, pin: '1357' });
+
+    expect(await res.json()).toMatchObject({ status: 'confirmed' });
+    expect(sent.smsTo('+15551330011')).toHaveLength(0);
+  });
+
+  it('confirms with the duress PIN and silently escalates a hidden event', async () => {
+    setNow(NOW);
+    const { userId, eventId } = await insertPinUser('token-pin-duress', '+15551330021');
+
+    const res = await confirmWithPin('token-pin-duress', { event_id: eventId, pin: '9753' });
+
+    expect(await res.json()).toMatchObject({ status: 'confirmed' });
+    expect((await getEvent(eventId)).status).toBe('confirmed');
+    const duress = await env.DB.prepare(
+      "SELECT * FROM checkin_events WHERE user_id = ? AND kind = 'duress'"
+    ).bind(userId).first<CheckinEvent>();
+    expect(duress).toMatchObject({ status: 'alerted', escalation_level: 1 });
+    expect(sent.smsTo('+15551330021')).toEqual([expect.stringContaining('Kim has signalled they may be in danger')]);
+  });
+
+  it('answers a late duress confirmation exactly like a real one, without an all-clear', async () => {
+    setNow(NOW);
+    const real = await insertPinUser('token-pin-late', '+15551330051');
+    const duress = await insertPinUser('token-pin-late-duress', '+15551330061');
+    for (const { userId, eventId } of [real, duress]) {
+      await env.DB.prepare("UPDATE checkin_events SET status = 'alerted', escalation_level = 1 WHERE event_id = ?")
+        .bind(eventId).run();
+      const [contact] = (await env.DB.prepare('SELECT contact_id FROM contacts WHERE user_id = ?')
+        .bind(userId).all<{ contact_id: string }>()).results;
+      await insertDelivery(env, eventId, contact.contact_id, { channel: 'sms', status: 'sent' });
+    }
+
+    const realBody = await (await confirmWithPin('token-pin-late', { event_id: real.eventId, pin: '1357' })).text();
+    const duressBody = await (await confirmWithPin('token-pin-late-duress', { event_id: duress.eventId, pin: '9753' })).text();
+
+    expect(duressBody.replace(duress.eventId, '<event>')).toBe(realBody.replace(real.eventId, '<event>'));
+    expect(JSON.parse(duressBody)).toMatchObject({ was_escalated: true, contacts_notified: 1 });
+
+    expect(sent.smsTo('+15551330051')).toEqual([expect.stringContaining('All clear')]);
+    expect(sent.smsTo('+15551330061')).toEqual([expect.stringContaining('Kim has signalled they may be in danger')]);
+    const allClearLogs = await env.DB.prepare(
+      "SELECT COUNT(*) as count FROM event_logs WHERE event_id = ? AND event_type = 'all_clear_sent'"
+    ).bind(duress.eventId).first<{ count: number }>();
+    expect(allClearLogs!.count).toBe(0);
+  });
+
+  it('keeps the duress event out of the history and stats', async () => {
+    setNow(NOW);
+    const { eventId } = await insertPinUser('token-pin-history', '+15551330071');
+
+    await confirmWithPin('token-pin-history', { event_id: eventId, pin: '9753' });
+
+    const headers = { 'Authorization': 'Bearer token-pin-history' };
+    const history = await (await historyRoutes.request('/history', { headers }, env)).json<{ events: { kind: string }[] }>();
+    expect(history.events.map((e) => e.kind)).toEqual(['scheduled']);
+    const stats = await (await historyRoutes.request('/history/stats', { headers }, env)).json();
+    expect(stats).toMatchObject({ total_checkins: 1, confirmed: 1, alerted: 0, missed: 0 });
+  });
+
+  it('alerts on the duress PIN even with alerts turned off', async () => {
+    setNow(NOW);
+    const { userId, eventId } = await insertPinUser('token-pin-off', '+15551330031');
+    await env.DB.prepare('UPDATE users SET sms_alerts_enabled = 0 WHERE user_id = ?').bind(userId).run();
+
+    await confirmWithPin('token-pin-off', { event_id: eventId, pin: '9753' });
+
+    expect(sent.smsTo('+15551330031')).toHaveLength(1);
+  });
+
+  it('records a duress confirmation nobody could be told about', async () => {
+    setNow(NOW);
+    const { userId, eventId } = await insertPinUser('token-pin-alone', '+15551330041');
+    await env.DB.prepare('DELETE FROM contacts WHERE user_id = ?').bind(userId).run();
+
+    const res = await confirmWithPin('token-pin-alone', { event_id: eventId, pin: '9753' });
+
+    expect(await res.json()).toMatchObject({ status: 'confirmed' });
+    const duress = await env.DB.prepare(
+      "SELECT * FROM checkin_events WHERE user_id = ? AND kind = 'duress'"
+    ).bind(userId).first<CheckinEvent>();
+    expect(duress!.status).toBe('missed');
+    const log = await env.DB.prepare(
+      "SELECT result, details FROM event_logs WHERE event_id = ? AND event_type = 'duress_unreachable'"
+    ).bind(duress!.event_id).first<{ result: string; details: string }>();
+    expect(log!.result).toBe('failed');
+    expect(JSON.parse(log!.details)).toMatchObject({ reason: 'no_contacts' });
+  });
+});
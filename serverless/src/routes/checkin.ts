@@ -1,15 +1,27 @@
 /**
  * Are You Safe? - Check-in Routes
  * 
- * Handles check-in confirmation and snooze operations.
+ * Handles check-in confirmation and snooze operations,
+ * plus ad-hoc one-off timer check-ins.
  */
 
 import { Hono } from 'hono';
-import { Env, User, CheckinEvent, ConfirmRequest, SnoozeRequest } from '../types';
-import { generateUUID } from '../utils/crypto';
+import { Env, User, CheckinEvent, ConfirmRequest, SnoozeRequest, TimerRequest, TimerExtendRequest } from '../types';
+import { generateUUID, encrypt, verifyPin } from '../utils/crypto';
+import { parseReminderLadder, getNextReminderAt } from '../utils/reminders';
+import { findOpenWindow } from '../utils/schedule';
+import { parseSnoozePolicy, SnoozePolicy } from '../utils/snooze';
+import { refreshNextCheckin, triggerEscalation } from '../cron/scheduler';
+import { canTransition, transitionEvent, OPEN_STATUSES } from '../services/lifecycle';
+import { notifyAlertedContacts, countAlertedContacts } from '../services/notices';
 
 export const checkinRoutes = new Hono<{ Bindings: Env }>();
 
+// Timer check-in limits
+const TIMER_MIN_MINUTES = 5;
+const TIMER_MAX_MINUTES = 24 * 60;
+const TIMER_NOTE_MAX_LENGTH = 280;
+
 // Helper to get authenticated user
 async function getAuthUser(c: any): Promise<User | null> {
   const authHeader = c.req.header('Authorization');
@@ -28,6 +40,11 @@ async function getAuthUser(c: any): Promise<User | null> {
  * 
  * Confirm a check-in event (user is safe).
  * Supports both event_id lookup and scheduled_at lookup.
+ * For window slots, any time inside the window matches the slot, and
+ * confirming while a window is open satisfies it even before the cron
+ * has created its event.
+ * In interval mode every confirmation restarts the interval.
+ * Once a check-in PIN is set, the request must include it (or the duress PIN).
  * Idempotent - multiple confirms for same event are safe.
  */
 checkinRoutes.post('/checkin/confirm', async (c) => {
@@ -41,42 +58,86 @@ checkinRoutes.post('/checkin/confirm', async (c) => {
     const now = new Date().toISOString();
     const confirmedAt = body.confirmed_at || now;
     
+    // With a PIN set, the duress PIN confirms exactly like the real one but
+    // silently alerts contacts. Both hashes are always checked so timing
+    // doesn't tell them apart, and the escalation runs after the response.
+    let underDuress = false;
+    if (user.checkin_pin_hash) {
+      if (typeof body.pin !== 'string' || !body.pin) {
+        return c.json({ error: 'PIN required', message: 'Enter your check-in PIN to confirm' }, 400);
+      }
+      
+      const [isPin, isDuress] = await Promise.all([
+        verifyPin(body.pin, user.checkin_pin_hash),
+        verifyPin(body.pin, user.duress_pin_hash || user.checkin_pin_hash),
+      ]);
+      if (!isPin && !(isDuress && user.duress_pin_hash)) {
+        return c.json({ error: 'Invalid PIN' }, 403);
+      }
+      if (!isPin) {
+        underDuress = true;
+        c.executionCtx.waitUntil(startDuressEscalation(c.env, user, now));
+      }
+    }
+    
     let event: CheckinEvent | null = null;
     
     // Find the event by event_id or scheduled_at
     if (body.event_id) {
       event = await c.env.DB.prepare(
-        'SELECT * FROM checkin_events WHERE event_id = ? AND user_id = ?'
+        "SELECT * FROM checkin_events WHERE event_id = ? AND user_id = ? AND kind != 'duress'"
       ).bind(body.event_id, user.user_id).first<CheckinEvent>();
     } else if (body.scheduled_at) {
       event = await c.env.DB.prepare(
-        'SELECT * FROM checkin_events WHERE user_id = ? AND scheduled_time = ?'
+        "SELECT * FROM checkin_events WHERE user_id = ? AND scheduled_time = ? AND kind != 'duress'"
       ).bind(user.user_id, body.scheduled_at).first<CheckinEvent>();
+
+      if (!event) {
+        // Match a window event containing the given time
+        event = await c.env.DB.prepare(`
+          SELECT * FROM checkin_events 
+          WHERE user_id = ? AND window_end IS NOT NULL
+          AND scheduled_time <= ? AND window_end >= ?
+          ORDER BY scheduled_time DESC
+          LIMIT 1
+        `).bind(user.user_id, body.scheduled_at, body.scheduled_at).first<CheckinEvent>();
+      }
     } else {
       // Find the most recent pending event for this user
       event = await c.env.DB.prepare(`
         SELECT * FROM checkin_events 
-        WHERE user_id = ? AND status IN ('pending', 'snoozed')
+        WHERE user_id = ? AND status IN ('pending', 'snoozed') AND kind != 'duress'
         ORDER BY scheduled_time DESC
         LIMIT 1
       `).bind(user.user_id).first<CheckinEvent>();
     }
     
+    // Confirming inside an open window satisfies that window's slot
+    const openWindow = event ? null : findOpenWindow(user, new Date(body.scheduled_at || now));
+    if (openWindow) {
+      event = await c.env.DB.prepare(
+        'SELECT * FROM checkin_events WHERE user_id = ? AND scheduled_time = ?'
+      ).bind(user.user_id, openWindow.scheduledTime.toISOString()).first<CheckinEvent>();
+    }
+    
     if (!event) {
       // No pending event found - create a new confirmed event for tracking
+      // (for an open window, this claims the slot so the cron won't create it)
       const eventId = generateUUID();
-      const scheduledTime = body.scheduled_at || now;
+      const scheduledTime = openWindow ? openWindow.scheduledTime.toISOString() : body.scheduled_at || now;
+      const windowEnd = openWindow ? openWindow.windowEnd!.toISOString() : null;
       
       await c.env.DB.prepare(`
         INSERT INTO checkin_events (
-          event_id, user_id, scheduled_time, deadline_time, 
+          event_id, user_id, scheduled_time, deadline_time, window_end,
           status, confirmed_at, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, 'confirmed', ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, 'confirmed', ?, ?, ?)
       `).bind(
         eventId,
         user.user_id,
         scheduledTime,
-        scheduledTime, // deadline doesn't matter for confirmed events
+        windowEnd || scheduledTime, // deadline doesn't matter for confirmed events
+        windowEnd,
         confirmedAt,
         now,
         now
@@ -84,6 +145,7 @@ checkinRoutes.post('/checkin/confirm', async (c) => {
       
       // Log the event
       await logEvent(c.env.DB, user.user_id, eventId, 'checkin_confirmed', confirmedAt, 'ok');
+      await restartInterval(c.env.DB, user, now);
       
       return c.json({
         success: true,
@@ -94,56 +156,83 @@ checkinRoutes.post('/checkin/confirm', async (c) => {
       });
     }
     
-    // Check if already confirmed (idempotent)
-    if (event.status === 'confirmed') {
-      return c.json({
-        success: true,
-        event_id: event.event_id,
-        status: 'confirmed',
-        confirmed_at: event.confirmed_at,
-        message: 'Already confirmed'
-      });
-    }
-    
-    // Check if already escalated
-    if (event.status === 'alerted') {
-      // Still allow confirmation but note that alerts were already sent
-      await c.env.DB.prepare(`
-        UPDATE checkin_events 
-        SET status = 'confirmed', confirmed_at = ?, updated_at = ?
-        WHERE event_id = ?
-      `).bind(confirmedAt, now, event.event_id).run();
-      
-      await logEvent(c.env.DB, user.user_id, event.event_id, 'checkin_confirmed_late', confirmedAt, 'ok', {
-        note: 'Confirmed after alerts were sent'
-      });
-      
-      return c.json({
-        success: true,
-        event_id: event.event_id,
-        status: 'confirmed',
-        confirmed_at: confirmedAt,
-        was_escalated: true,
-        message: 'Confirmed, but alerts were already sent to your contacts. Please let them know you are safe.'
+    // The cron may move the event (e.g. escalate it) between our read and
+    // write; re-read once and confirm from whatever state it reached
+    for (let attempt = 0; attempt < 2 && event; attempt++) {
+      // Check if already confirmed (idempotent)
+      if (event.status === 'confirmed') {
+        return c.json({
+          success: true,
+          event_id: event.event_id,
+          status: 'confirmed',
+          confirmed_at: event.confirmed_at,
+          message: 'Already confirmed'
+        });
+      }
+
+      if (!canTransition(event.status, 'confirmed')) {
+        return c.json({
+          error: 'Cannot confirm',
+          message: `Event is already ${event.status}`
+        }, 400);
+      }
+
+      // Alerts already went out (or nobody could be alerted) - still allow confirmation
+      const wasEscalated = event.status === 'alerted';
+      const isLate = wasEscalated || event.status === 'missed';
+
+      const confirmed = await transitionEvent(c.env.DB, event, 'confirmed', {
+        at: confirmedAt,
+        logType: isLate ? 'checkin_confirmed_late' : undefined,
+        details: wasEscalated ? { note: 'Confirmed after alerts were sent' } : undefined
       });
+
+      if (confirmed) {
+        await restartInterval(c.env.DB, user, now);
+
+        if (wasEscalated) {
+          let contactsNotified: number;
+          if (underDuress) {
+            // Nobody is told the user is safe, but the response reads the same
+            contactsNotified = await countAlertedContacts(c.env, event.event_id);
+          } else {
+            // Tell everyone who was alerted that the user is safe
+            contactsNotified = await notifyAlertedContacts(c.env, {
+              event_id: event.event_id,
+              kind: event.kind,
+              user_name: user.name
+            }, 'all_clear', { at: now });
+
+            await logEvent(c.env.DB, user.user_id, event.event_id, 'all_clear_sent', now, 'ok', {
+              contacts_count: contactsNotified
+            });
+          }
+
+          return c.json({
+            success: true,
+            event_id: event.event_id,
+            status: 'confirmed',
+            confirmed_at: confirmedAt,
+            was_escalated: true,
+            contacts_notified: contactsNotified,
+            message: 'Confirmed. The contacts who were alerted have been told you are safe.'
+          });
+        }
+
+        return c.json({
+          success: true,
+          event_id: event.event_id,
+          status: 'confirmed',
+          confirmed_at: confirmedAt
+        });
+      }
+
+      event = await c.env.DB.prepare(
+        'SELECT * FROM checkin_events WHERE event_id = ?'
+      ).bind(event.event_id).first<CheckinEvent>();
     }
-    
-    // Update event to confirmed
-    await c.env.DB.prepare(`
-      UPDATE checkin_events 
-      SET status = 'confirmed', confirmed_at = ?, updated_at = ?
-      WHERE event_id = ?
-    `).bind(confirmedAt, now, event.event_id).run();
-    
-    // Log the event
-    await logEvent(c.env.DB, user.user_id, event.event_id, 'checkin_confirmed', confirmedAt, 'ok');
-    
-    return c.json({
-      success: true,
-      event_id: event.event_id,
-      status: 'confirmed',
-      confirmed_at: confirmedAt
-    });
+
+    return c.json({ error: 'Confirmation conflict', message: 'Event changed, please retry' }, 409);
     
   } catch (error) {
     console.error('Confirm error:', error);
@@ -158,7 +247,7 @@ checkinRoutes.post('/checkin/confirm', async (c) => {
  * POST /api/checkin/snooze
  * 
  * Snooze a check-in event (delay the deadline).
- * Only allowed once per event.
+ * Limited by the user's snooze policy (count, durations and total time).
  */
 checkinRoutes.post('/checkin/snooze', async (c) => {
   const user = await getAuthUser(c);
@@ -174,30 +263,42 @@ checkinRoutes.post('/checkin/snooze', async (c) => {
       return c.json({ error: 'event_id is required' }, 400);
     }
     
-    const snoozeMinutes = body.snooze_minutes || 10;
-    if (![5, 10, 15, 30].includes(snoozeMinutes)) {
-      return c.json({ error: 'snooze_minutes must be 5, 10, 15, or 30' }, 400);
+    const policy = parseSnoozePolicy(user);
+    const snoozeMinutes = body.snooze_minutes
+      || (policy.durations.includes(10) ? 10 : policy.durations[0]);
+    if (!policy.durations.includes(snoozeMinutes)) {
+      return c.json({ error: `snooze_minutes must be one of ${policy.durations.join(', ')}` }, 400);
     }
     
     // Find the event
     const event = await c.env.DB.prepare(
-      'SELECT * FROM checkin_events WHERE event_id = ? AND user_id = ?'
+      "SELECT * FROM checkin_events WHERE event_id = ? AND user_id = ? AND kind != 'duress'"
     ).bind(body.event_id, user.user_id).first<CheckinEvent>();
     
     if (!event) {
       return c.json({ error: 'Event not found' }, 404);
     }
     
-    // Check if already snoozed
-    if (event.snooze_count >= 1) {
+    // Check the snooze allowance
+    if (event.snooze_count >= policy.max_count) {
       return c.json({ 
         error: 'Already snoozed',
-        message: 'Each check-in can only be snoozed once'
+        message: policy.max_count === 0
+          ? 'Snoozing is disabled'
+          : `Each check-in can only be snoozed ${policy.max_count === 1 ? 'once' : `${policy.max_count} times`}`
+      }, 400);
+    }
+    const snoozeMinutesTotal = (event.snooze_minutes_total || 0) + snoozeMinutes;
+    if (snoozeMinutesTotal > policy.max_total_minutes) {
+      return c.json({
+        error: 'Snooze limit reached',
+        message: `Check-ins can be snoozed for at most ${policy.max_total_minutes} minutes in total`,
+        remaining_minutes: Math.max(0, policy.max_total_minutes - (event.snooze_minutes_total || 0))
       }, 400);
     }
     
     // Check if event is in a snoozable state
-    if (event.status !== 'pending' && event.status !== 'snoozed') {
+    if (!canTransition(event.status, 'snoozed')) {
       return c.json({ 
         error: 'Cannot snooze',
         message: `Event is already ${event.status}`
@@ -208,20 +309,33 @@ checkinRoutes.post('/checkin/snooze', async (c) => {
     const currentDeadline = new Date(event.deadline_time);
     const newDeadline = new Date(currentDeadline.getTime() + snoozeMinutes * 60 * 1000);
     const snoozedUntil = newDeadline.toISOString();
+
+    // Remaining reminder ladder steps follow the new deadline
+    const nextReminderAt = getNextReminderAt(
+      parseReminderLadder(user.reminder_ladder),
+      event.scheduled_time,
+      snoozedUntil,
+      event.reminders_sent
+    );
     
     // Update event
-    await c.env.DB.prepare(`
-      UPDATE checkin_events 
-      SET status = 'snoozed', snoozed_until = ?, deadline_time = ?, 
-          snooze_count = snooze_count + 1, updated_at = ?
-      WHERE event_id = ?
-    `).bind(snoozedUntil, snoozedUntil, now, event.event_id).run();
-    
-    // Log the snooze
-    await logEvent(c.env.DB, user.user_id, event.event_id, 'checkin_snoozed', now, 'ok', {
-      snooze_minutes: snoozeMinutes,
-      new_deadline: snoozedUntil
+    const snoozed = await transitionEvent(c.env.DB, event, 'snoozed', {
+      at: now,
+      fields: {
+        snoozed_until: snoozedUntil,
+        deadline_time: snoozedUntil,
+        snooze_count: event.snooze_count + 1,
+        snooze_minutes_total: snoozeMinutesTotal,
+        next_reminder_at: nextReminderAt
+      },
+      details: {
+        snooze_minutes: snoozeMinutes,
+        new_deadline: snoozedUntil
+      }
     });
+    if (!snoozed) {
+      return c.json({ error: 'Cannot snooze', message: 'Event changed, please retry' }, 409);
+    }
     
     return c.json({
       success: true,
@@ -229,7 +343,9 @@ checkinRoutes.post('/checkin/snooze', async (c) => {
       status: 'snoozed',
       snoozed_until: snoozedUntil,
       original_deadline: event.deadline_time,
-      new_deadline: snoozedUntil
+      new_deadline: snoozedUntil,
+      snoozes_remaining: policy.max_count - event.snooze_count - 1,
+      snooze_minutes_remaining: policy.max_total_minutes - snoozeMinutesTotal
     });
     
   } catch (error) {
@@ -241,6 +357,219 @@ checkinRoutes.post('/checkin/snooze', async (c) => {
   }
 });
 
+/**
+ * POST /api/checkin/timer
+ * 
+ * Start a one-off timer check-in ("check on me by 17:30").
+ * The event goes through the normal reminder and escalation pipeline;
+ * the optional note is included in the alert sent to contacts.
+ */
+checkinRoutes.post('/checkin/timer', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+  
+  try {
+    const body = await c.req.json<TimerRequest>();
+    const now = new Date();
+    const nowStr = now.toISOString();
+    
+    const deadline = resolveTimerDeadline(now, body.deadline_at, body.duration_minutes);
+    if ('error' in deadline) {
+      return c.json({ error: 'Invalid deadline', message: deadline.error }, 400);
+    }
+    
+    if (body.note !== undefined && (typeof body.note !== 'string' || body.note.length > TIMER_NOTE_MAX_LENGTH)) {
+      return c.json({ 
+        error: 'Invalid note',
+        message: `note must be a string of at most ${TIMER_NOTE_MAX_LENGTH} characters`
+      }, 400);
+    }
+    
+    const eventId = generateUUID();
+    const deadlineStr = deadline.value.toISOString();
+    const noteEnc = body.note ? await encrypt(body.note.trim(), c.env.ENCRYPTION_KEY) : null;
+    const nextReminderAt = getNextReminderAt(parseReminderLadder(user.reminder_ladder), nowStr, deadlineStr, 0);
+    
+    await c.env.DB.prepare(`
+      INSERT INTO checkin_events (
+        event_id, user_id, kind, scheduled_time, deadline_time,
+        status, note_enc, next_reminder_at, created_at, updated_at
+      ) VALUES (?, ?, 'timer', ?, ?, 'pending', ?, ?, ?, ?)
+    `).bind(
+      eventId,
+      user.user_id,
+      nowStr,
+      deadlineStr,
+      noteEnc,
+      nextReminderAt,
+      nowStr,
+      nowStr
+    ).run();
+    
+    await logEvent(c.env.DB, user.user_id, eventId, 'timer_started', nowStr, 'ok', {
+      deadline_time: deadlineStr,
+      has_note: !!noteEnc
+    });
+    
+    return c.json({
+      success: true,
+      event_id: eventId,
+      kind: 'timer',
+      status: 'pending',
+      scheduled_time: nowStr,
+      deadline_time: deadlineStr
+    }, 201);
+    
+  } catch (error) {
+    console.error('Timer start error:', error);
+    return c.json({ 
+      error: 'Failed to start timer',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/checkin/timer/:eventId/extend
+ * 
+ * Move a running timer's deadline later.
+ */
+checkinRoutes.post('/checkin/timer/:eventId/extend', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+  
+  try {
+    const body = await c.req.json<TimerExtendRequest>();
+    const now = new Date();
+    const nowStr = now.toISOString();
+    
+    const event = await c.env.DB.prepare(
+      "SELECT * FROM checkin_events WHERE event_id = ? AND user_id = ? AND kind = 'timer'"
+    ).bind(c.req.param('eventId'), user.user_id).first<CheckinEvent>();
+    
+    if (!event) {
+      return c.json({ error: 'Timer not found' }, 404);
+    }
+    
+    if (!OPEN_STATUSES.includes(event.status)) {
+      return c.json({ 
+        error: 'Cannot extend',
+        message: `Timer is already ${event.status}`
+      }, 400);
+    }
+    
+    const currentDeadline = new Date(event.deadline_time);
+    const base = currentDeadline > now ? currentDeadline : now;
+    const deadline = resolveTimerDeadline(base, body.deadline_at, body.extend_minutes);
+    if ('error' in deadline) {
+      return c.json({ error: 'Invalid deadline', message: deadline.error }, 400);
+    }
+    if (deadline.value <= currentDeadline) {
+      return c.json({ error: 'Invalid deadline', message: 'New deadline must be later than the current one' }, 400);
+    }
+    
+    const deadlineStr = deadline.value.toISOString();
+    const nextReminderAt = getNextReminderAt(
+      parseReminderLadder(user.reminder_ladder),
+      event.scheduled_time,
+      deadlineStr,
+      event.reminders_sent
+    );
+    
+    // Only while the timer is still open - not after it was escalated
+    const extended = await c.env.DB.prepare(`
+      UPDATE checkin_events 
+      SET deadline_time = ?, next_reminder_at = ?, updated_at = ?
+      WHERE event_id = ? AND status = ?
+    `).bind(deadlineStr, nextReminderAt, nowStr, event.event_id, event.status).run();
+    if (!extended.meta.changes) {
+      return c.json({ error: 'Cannot extend', message: 'Timer changed, please retry' }, 409);
+    }
+    
+    await logEvent(c.env.DB, user.user_id, event.event_id, 'timer_extended', nowStr, 'ok', {
+      previous_deadline: event.deadline_time,
+      new_deadline: deadlineStr
+    });
+    
+    return c.json({
+      success: true,
+      event_id: event.event_id,
+      status: event.status,
+      original_deadline: event.deadline_time,
+      new_deadline: deadlineStr
+    });
+    
+  } catch (error) {
+    console.error('Timer extend error:', error);
+    return c.json({ 
+      error: 'Failed to extend timer',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/checkin/timer/:eventId/cancel
+ * 
+ * Cancel a running timer. No alerts will be sent for it.
+ */
+checkinRoutes.post('/checkin/timer/:eventId/cancel', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+  
+  try {
+    const now = new Date().toISOString();
+    
+    const event = await c.env.DB.prepare(
+      "SELECT * FROM checkin_events WHERE event_id = ? AND user_id = ? AND kind = 'timer'"
+    ).bind(c.req.param('eventId'), user.user_id).first<CheckinEvent>();
+    
+    if (!event) {
+      return c.json({ error: 'Timer not found' }, 404);
+    }
+    
+    // Idempotent
+    if (event.status === 'cancelled') {
+      return c.json({ success: true, event_id: event.event_id, status: 'cancelled' });
+    }
+    
+    // Once contacts were alerted, the way out is confirming
+    if (event.status === 'alerted' || !canTransition(event.status, 'cancelled')) {
+      return c.json({ 
+        error: 'Cannot cancel',
+        message: `Timer is already ${event.status}`
+      }, 400);
+    }
+    
+    const cancelled = await transitionEvent(c.env.DB, event, 'cancelled', {
+      at: now,
+      logType: 'timer_cancelled'
+    });
+    if (!cancelled) {
+      return c.json({ error: 'Cannot cancel', message: 'Timer changed, please retry' }, 409);
+    }
+    
+    return c.json({
+      success: true,
+      event_id: event.event_id,
+      status: 'cancelled'
+    });
+    
+  } catch (error) {
+    console.error('Timer cancel error:', error);
+    return c.json({ 
+      error: 'Failed to cancel timer',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
 /**
  * GET /api/checkin/current
  * 
@@ -256,15 +585,26 @@ checkinRoutes.get('/checkin/current', async (c) => {
     // Find the most recent pending/snoozed event
     const event = await c.env.DB.prepare(`
       SELECT * FROM checkin_events 
-      WHERE user_id = ? AND status IN ('pending', 'snoozed')
+      WHERE user_id = ? AND status IN ('pending', 'snoozed') AND kind != 'duress'
       ORDER BY scheduled_time DESC
       LIMIT 1
     `).bind(user.user_id).first<CheckinEvent>();
     
     if (!event) {
+      // A window that has opened but not been materialized yet is already confirmable
+      const openWindow = findOpenWindow(user, new Date());
+      const windowEvent = openWindow && await c.env.DB.prepare(
+        'SELECT event_id FROM checkin_events WHERE user_id = ? AND scheduled_time = ?'
+      ).bind(user.user_id, openWindow.scheduledTime.toISOString()).first();
+
       return c.json({
         has_pending: false,
-        next_checkin: null
+        next_checkin: user.next_checkin_at,
+        open_window: openWindow && !windowEvent ? {
+          window_start: openWindow.scheduledTime.toISOString(),
+          window_end: openWindow.windowEnd!.toISOString(),
+          confirmable: true
+        } : null
       });
     }
     
@@ -272,11 +612,17 @@ checkinRoutes.get('/checkin/current', async (c) => {
       has_pending: true,
       event: {
         event_id: event.event_id,
+        kind: event.kind,
         scheduled_time: event.scheduled_time,
         deadline_time: event.deadline_time,
+        window_start: event.window_end ? event.scheduled_time : null,
+        window_end: event.window_end,
+        confirmable: new Date(event.scheduled_time) <= new Date(),
         status: event.status,
         snooze_count: event.snooze_count,
-        snoozed_until: event.snoozed_until
+        snooze_minutes_total: event.snooze_minutes_total,
+        snoozed_until: event.snoozed_until,
+        snooze_options: getSnoozeOptions(parseSnoozePolicy(user), event)
       }
     });
     
@@ -286,6 +632,119 @@ checkinRoutes.get('/checkin/current', async (c) => {
   }
 });
 
+// Helper to list the snooze durations still available for an event
+function getSnoozeOptions(policy: SnoozePolicy, event: CheckinEvent): number[] {
+  if (event.snooze_count >= policy.max_count) {
+    return [];
+  }
+  const remaining = policy.max_total_minutes - (event.snooze_minutes_total || 0);
+  return policy.durations.filter((minutes) => minutes <= remaining);
+}
+
+// Helper to resolve a timer deadline from an absolute time or a number of minutes after base
+function resolveTimerDeadline(
+  base: Date,
+  deadlineAt?: string,
+  minutes?: number
+): { value: Date } | { error: string } {
+  let deadline: Date;
+  if (deadlineAt) {
+    deadline = new Date(deadlineAt);
+    if (isNaN(deadline.getTime())) {
+      return { error: 'deadline_at must be an ISO8601 datetime' };
+    }
+  } else if (minutes !== undefined) {
+    if (!Number.isInteger(minutes) || minutes < 1) {
+      return { error: 'minutes must be a positive integer' };
+    }
+    deadline = new Date(base.getTime() + minutes * 60 * 1000);
+  } else {
+    return { error: 'deadline_at or a number of minutes is required' };
+  }
+
+  const minutesAway = (deadline.getTime() - Date.now()) / 60000;
+  if (minutesAway < TIMER_MIN_MINUTES) {
+    return { error: `Deadline must be at least ${TIMER_MIN_MINUTES} minutes from now` };
+  }
+  if (minutesAway > TIMER_MAX_MINUTES) {
+    return { error: `Timers can run for at most ${TIMER_MAX_MINUTES / 60} hours` };
+  }
+  return { value: deadline };
+}
+
+/**
+ * In interval mode, move the anchor to this confirmation so the next
+ * deadline is a full interval away. Uses server time so a client-supplied
+ * confirmed_at cannot push the deadline out.
+ */
+async function restartInterval(db: D1Database, user: User, now: string) {
+  if (user.checkin_mode !== 'interval') {
+    return;
+  }
+  await db.prepare(
+    'UPDATE users SET interval_anchor_at = ? WHERE user_id = ?'
+  ).bind(now, user.user_id).run();
+  await refreshNextCheckin(db, user.user_id, new Date(now));
+}
+
+/**
+ * Create the hidden duress event and escalate it right away
+ * It follows the user's escalation chain like a missed check-in, with the
+ * duress alert template, and never appears in the user's history.
+ */
+async function startDuressEscalation(env: Env, user: User, at: string): Promise<void> {
+  try {
+    const eventId = generateUUID();
+
+    // scheduled_time is unique per user; step past an event at the same instant
+    for (let offset = 0; offset < 3; offset++) {
+      const scheduledTime = new Date(Date.parse(at) + offset).toISOString();
+      const inserted = await env.DB.prepare(`
+        INSERT OR IGNORE INTO checkin_events (
+          event_id, user_id, kind, scheduled_time, deadline_time, status, created_at, updated_at
+        ) VALUES (?, ?, 'duress', ?, ?, 'pending', ?, ?)
+      `).bind(eventId, user.user_id, scheduledTime, scheduledTime, at, at).run();
+
+      if (!inserted.meta.changes) {
+        continue;
+      }
+
+      await logEvent(env.DB, user.user_id, eventId, 'duress_triggered', at, 'ok');
+
+      // Nobody to alert - record the failure rather than an empty escalation
+      const contacts = await env.DB.prepare(
+        'SELECT COUNT(*) as count FROM contacts WHERE user_id = ?'
+      ).bind(user.user_id).first<{ count: number }>();
+
+      if (!contacts?.count) {
+        console.error(`Duress PIN used by user ${user.user_id} with no contacts to alert`);
+        await transitionEvent(env.DB, { event_id: eventId, user_id: user.user_id, status: 'pending' }, 'missed', {
+          at,
+          logType: 'duress_unreachable',
+          logResult: 'failed',
+          details: { reason: 'no_contacts' }
+        });
+        return;
+      }
+
+      const escalation = await triggerEscalation(env, eventId, 1);
+      if (!escalation.contacts_notified) {
+        console.error(`Duress alert for user ${user.user_id} reached no contacts`);
+        await logEvent(env.DB, user.user_id, eventId, 'duress_unreachable', at, 'failed', {
+          reason: 'no_deliveries',
+          escalation_level: 1,
+          deliveries: escalation.deliveries.length
+        });
+      }
+      return;
+    }
+
+    console.error(`Could not create duress event for user ${user.user_id}`);
+  } catch (error) {
+    console.error(`Duress escalation failed for user ${user.user_id}:`, error);
+  }
+}
+
 // Helper function to log events
 async function logEvent(
   db: D1Database,
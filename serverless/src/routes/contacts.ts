@@ -6,11 +6,15 @@
  */
 
 import { Hono } from 'hono';
-import { Env, User, Contact, ContactsRequest } from '../types';
-import { encrypt, decrypt, generateUUID, isValidE164 } from '../utils/crypto';
+import { Env, User, Contact, ContactsRequest, ContactChannel, ContactChannelsRequest, ChannelStep } from '../types';
+import { encrypt, decrypt, generateUUID, isValidE164, isValidEmail } from '../utils/crypto';
+import { loadEscalationChain } from '../cron/scheduler';
+import { validateChannelSteps, normalizeChannelSteps, parseChannelSteps } from '../utils/channels';
 
 export const contactsRoutes = new Hono<{ Bindings: Env }>();
 
+const CONTACT_CHANNELS: ContactChannel[] = ['sms', 'whatsapp', 'email'];
+
 // Helper to get authenticated user
 async function getAuthUser(c: any): Promise<User | null> {
   const authHeader = c.req.header('Authorization');
@@ -29,7 +33,11 @@ async function getAuthUser(c: any): Promise<User | null> {
  * 
  * Upload contacts for SMS alerts.
  * Only called when user has enabled SMS alerts and consented.
- * Phone numbers are encrypted before storage.
+ * Phone and email are encrypted before storage. Each contact may set
+ * preferred_channel 'whatsapp' or 'email' to get text alerts there
+ * instead; an email address also serves as fallback when SMS fails.
+ * channels: [{ channel, delay_minutes }] sets the contact's own ordered
+ * channel plan in place of the tier's channels (see PUT .../channels).
  */
 contactsRoutes.post('/contacts/sms', async (c) => {
   const user = await getAuthUser(c);
@@ -52,6 +60,9 @@ contactsRoutes.post('/contacts/sms', async (c) => {
       return c.json({ error: 'contacts array is required' }, 400);
     }
     
+    // Contacts can sit at any tier of the user's escalation chain
+    const chain = await loadEscalationChain(c.env.DB, user);
+
     // Validate all phone numbers first
     for (const contact of body.contacts) {
       if (!isValidE164(contact.phone_e164)) {
@@ -60,12 +71,36 @@ contactsRoutes.post('/contacts/sms', async (c) => {
           message: `Phone number ${contact.phone_e164} is not in E.164 format`
         }, 400);
       }
-      if (contact.level !== 1 && contact.level !== 2) {
+      if (!Number.isInteger(contact.level) || contact.level < 1 || contact.level > chain.length) {
         return c.json({ 
           error: 'Invalid contact level',
-          message: 'Contact level must be 1 or 2'
+          message: `Contact level must be between 1 and ${chain.length}`
+        }, 400);
+      }
+      if (contact.preferred_channel !== undefined && !CONTACT_CHANNELS.includes(contact.preferred_channel)) {
+        return c.json({
+          error: 'Invalid preferred channel',
+          message: `preferred_channel must be one of ${CONTACT_CHANNELS.join(', ')}`
+        }, 400);
+      }
+      if (contact.email !== undefined && (typeof contact.email !== 'string' || !isValidEmail(contact.email))) {
+        return c.json({
+          error: 'Invalid email',
+          message: `Email address ${contact.email} is not valid`
         }, 400);
       }
+      if (contact.preferred_channel === 'email' && !contact.email) {
+        return c.json({
+          error: 'Email required',
+          message: 'Contacts who prefer email need an email address'
+        }, 400);
+      }
+      if (contact.channels !== undefined && contact.channels !== null) {
+        const channelsError = checkChannelSteps(contact.channels, !!contact.email);
+        if (channelsError) {
+          return c.json({ error: 'Invalid channels', message: channelsError }, 400);
+        }
+      }
     }
     
     // Delete existing contacts for this user
@@ -75,25 +110,33 @@ contactsRoutes.post('/contacts/sms', async (c) => {
     
     // Insert new contacts with encrypted phone numbers
     const now = new Date().toISOString();
-    const insertedContacts: { contact_id: string; level: number }[] = [];
+    const insertedContacts: { contact_id: string; level: number; preferred_channel: ContactChannel }[] = [];
     
     for (const contact of body.contacts) {
       const contactId = generateUUID();
       const phoneEnc = await encrypt(contact.phone_e164, c.env.ENCRYPTION_KEY);
+      const emailEnc = contact.email ? await encrypt(contact.email, c.env.ENCRYPTION_KEY) : null;
+      const preferredChannel = contact.preferred_channel || 'sms';
+      const channelSteps = contact.channels ? JSON.stringify(normalizeChannelSteps(contact.channels)) : null;
       
       await c.env.DB.prepare(`
-        INSERT INTO contacts (contact_id, user_id, phone_enc, level, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?)
+        INSERT INTO contacts (
+          contact_id, user_id, phone_enc, email_enc, level, preferred_channel, channel_steps, created_at, updated_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).bind(
         contactId,
         user.user_id,
         phoneEnc,
+        emailEnc,
         contact.level,
+        preferredChannel,
+        channelSteps,
         now,
         now
       ).run();
       
-      insertedContacts.push({ contact_id: contactId, level: contact.level });
+      insertedContacts.push({ contact_id: contactId, level: contact.level, preferred_channel: preferredChannel });
     }
     
     return c.json({
@@ -123,11 +166,14 @@ contactsRoutes.get('/contacts/sms', async (c) => {
   }
 
   try {
-    // Get contacts with their latest delivery status
+    // Get contacts with their latest delivery status (duress alerts stay hidden)
     const contacts = await c.env.DB.prepare(`
       SELECT
         c.contact_id,
         c.level,
+        c.preferred_channel,
+        c.channel_steps,
+        c.email_enc IS NOT NULL as has_email,
         c.has_app,
         c.created_at,
         d.status as last_delivery_status,
@@ -142,15 +188,22 @@ contactsRoutes.get('/contacts/sms', async (c) => {
           error_message,
           ROW_NUMBER() OVER (PARTITION BY contact_id ORDER BY created_at DESC) as rn
         FROM alert_deliveries
+        WHERE purpose = 'alert'
+        AND event_id NOT IN (
+          SELECT event_id FROM checkin_events WHERE user_id = ? AND kind = 'duress'
+        )
       ) d ON c.contact_id = d.contact_id AND d.rn = 1
       WHERE c.user_id = ?
       ORDER BY c.level ASC, c.created_at ASC
-    `).bind(user.user_id).all();
+    `).bind(user.user_id, user.user_id).all();
 
     return c.json({
       contacts: contacts.results.map((contact: any) => ({
         contact_id: contact.contact_id,
         level: contact.level,
+        preferred_channel: contact.preferred_channel,
+        channels: parseChannelSteps(contact.channel_steps),
+        has_email: contact.has_email === 1,
         has_app: contact.has_app === 1,
         created_at: contact.created_at,
         last_delivery: contact.last_delivery_status ? {
@@ -168,6 +221,67 @@ contactsRoutes.get('/contacts/sms', async (c) => {
   }
 });
 
+/**
+ * PUT /api/contacts/sms/:contactId/channels
+ *
+ * Set a contact's ordered channel plan.
+ *
+ * Request body:
+ * - channels: [{ channel, delay_minutes }] - push, sms, whatsapp, email or
+ *   voice, each tried delay_minutes after the previous one until someone
+ *   acknowledges (e.g. push, then sms after 3); null = the tier's channels
+ */
+contactsRoutes.put('/contacts/sms/:contactId/channels', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const contactId = c.req.param('contactId');
+
+  try {
+    const body = await c.req.json<ContactChannelsRequest>();
+
+    if (body.channels === undefined) {
+      return c.json({ error: 'channels is required' }, 400);
+    }
+
+    const contact = await c.env.DB.prepare(
+      'SELECT * FROM contacts WHERE contact_id = ? AND user_id = ?'
+    ).bind(contactId, user.user_id).first<Contact>();
+
+    if (!contact) {
+      return c.json({ error: 'Contact not found' }, 404);
+    }
+
+    let channels: ChannelStep[] | null = null;
+    if (body.channels !== null) {
+      const channelsError = checkChannelSteps(body.channels, !!contact.email_enc);
+      if (channelsError) {
+        return c.json({ error: 'Invalid channels', message: channelsError }, 400);
+      }
+      channels = normalizeChannelSteps(body.channels);
+    }
+
+    await c.env.DB.prepare(
+      'UPDATE contacts SET channel_steps = ?, updated_at = ? WHERE contact_id = ?'
+    ).bind(channels ? JSON.stringify(channels) : null, new Date().toISOString(), contactId).run();
+
+    return c.json({
+      success: true,
+      contact_id: contactId,
+      channels
+    });
+
+  } catch (error) {
+    console.error('Update contact channels error:', error);
+    return c.json({
+      error: 'Failed to update channels',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
 /**
  * DELETE /api/contacts/sms
  * 
@@ -221,3 +335,15 @@ contactsRoutes.delete('/contacts/sms/:contactId', async (c) => {
     return c.json({ error: 'Failed to delete contact' }, 500);
   }
 });
+
+// Validate a channel plan for a contact; email steps need an address
+function checkChannelSteps(channels: unknown, hasEmail: boolean): string | null {
+  const error = validateChannelSteps(channels);
+  if (error) {
+    return error;
+  }
+  if (!hasEmail && (channels as ChannelStep[]).some((step) => step.channel === 'email')) {
+    return 'Add an email address before using the email channel';
+  }
+  return null;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Env } from '../types';
+import { clearOutbox, sendOnChannel } from '../services/channels';
+import { debugRoutes } from './debug';
+
+const env = { NOTIFICATION_OUTBOX: 'true' } as Env;
+
+beforeEach(() => {
+  clearOutbox();
+});
+
+describe('outbox debug routes', () => {
+  it('lists the recorded messages, optionally for one channel', async () => {
+    await sendOnChannel(env, 'sms', { to: '+15551390001', body: 'Alert' });
+    await sendOnChannel(env, 'push', { to: 'device-1', title: 'Alert', body: 'Alert' });
+
+    const all = await (await debugRoutes.request('/debug/outbox', {}, env)).json<{ count: number }>();
+    const sms = await (await debugRoutes.request('/debug/outbox?channel=sms', {}, env)).json<{ messages: { message: { to: string } }[] }>();
+
+    expect(all.count).toBe(2);
+    expect(sms.messages.map((entry) => entry.message.to)).toEqual(['+15551390001']);
+  });
+
+  it('simulates failures on a channel', async () => {
+    const res = await debugRoutes.request('/debug/outbox/failures', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ channel: 'sms', error_message: 'Carrier unreachable' }),
+    }, env);
+
+    expect(res.status).toBe(200);
+    expect(await sendOnChannel(env, 'sms', { to: '+15551390011', body: 'Alert' })).toMatchObject({ success: false });
+  });
+
+  it('rejects failures for unknown channels', async () => {
+    const res = await debugRoutes.request('/debug/outbox/failures', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ channel: 'fax', error_message: 'Nope' }),
+    }, env);
+
+    expect(res.status).toBe(400);
+  });
+
+  it('empties the outbox', async () => {
+    await sendOnChannel(env, 'sms', { to: '+15551390021', body: 'Alert' });
+
+    await debugRoutes.request('/debug/outbox', { method: 'DELETE' }, env);
+
+    const body = await (await debugRoutes.request('/debug/outbox', {}, env)).json<{ count: number }>();
+    expect(body.count).toBe(0);
+  });
+});
+
+describe('outbox debug routes without the outbox', () => {
+  it('are not served', async () => {
+    const offEnv = {} as Env;
+
+    expect((await debugRoutes.request('/debug/outbox', {}, offEnv)).status).toBe(404);
+    expect((await debugRoutes.request('/debug/outbox', { method: 'DELETE' }, offEnv)).status).toBe(404);
+    expect((await debugRoutes.request('/debug/outbox/failures', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ channel: 'sms', error_message: 'Nope' }),
+    }, offEnv)).status).toBe(404);
+  });
+});
@@ -8,6 +8,8 @@
 import { Hono } from 'hono';
 import { Env, User } from '../types';
 import { generateUUID, generateAuthToken, encrypt } from '../utils/crypto';
+import { refreshNextCheckin } from '../cron/scheduler';
+import { getOutbox, clearOutbox, setOutboxFailure, isOutboxEnabled, ChannelName, CHANNEL_NAMES } from '../services/channels';
 
 export const debugRoutes = new Hono<{ Bindings: Env }>();
 
@@ -64,6 +66,8 @@ debugRoutes.post('/debug/seed', async (c) => {
       nowStr,
       nowStr
     ).run();
+
+    await refreshNextCheckin(c.env.DB, userId);
     
     // Add test contacts if provided
     const contactIds: string[] = [];
@@ -264,6 +268,66 @@ debugRoutes.get('/debug/db-stats', async (c) => {
   }
 });
 
+/**
+ * Outbox routes (/api/debug/outbox...)
+ *
+ * Only served while NOTIFICATION_OUTBOX = 'true'; 404 otherwise, since the
+ * outbox holds decrypted phone numbers, emails and device tokens.
+ *
+ * The outbox lives in module state of a single Worker isolate. Requests
+ * (and cron runs) served by another isolate see a different outbox, so
+ * these routes are only reliable under `wrangler dev` or in tests.
+ */
+debugRoutes.use('/debug/outbox/*', async (c, next) => {
+  if (!isOutboxEnabled(c.env)) {
+    return c.notFound();
+  }
+  await next();
+});
+
+/**
+ * GET /api/debug/outbox
+ *
+ * Messages recorded by the notification outbox.
+ * Optional query: channel (sms, whatsapp, voice, push or email)
+ */
+debugRoutes.get('/debug/outbox', async (c) => {
+  const channel = c.req.query('channel') as ChannelName | undefined;
+  const messages = getOutbox(channel);
+
+  return c.json({
+    messages,
+    count: messages.length
+  });
+});
+
+/**
+ * POST /api/debug/outbox/failures
+ *
+ * Make the outbox fail sends on a channel, to exercise retries and fallbacks.
+ * Body: { channel, error_message } (error_message null to stop failing)
+ */
+debugRoutes.post('/debug/outbox/failures', async (c) => {
+  const body = await c.req.json<{ channel: ChannelName; error_message: string | null }>();
+
+  if (!CHANNEL_NAMES.includes(body.channel)) {
+    return c.json({ error: 'Invalid channel', message: `channel must be one of ${CHANNEL_NAMES.join(', ')}` }, 400);
+  }
+
+  setOutboxFailure(body.channel, body.error_message || null);
+  return c.json({ success: true });
+});
+
+/**
+ * DELETE /api/debug/outbox
+ *
+ * Empty the notification outbox and clear simulated failures.
+ */
+debugRoutes.delete('/debug/outbox', async (c) => {
+  clearOutbox();
+  return c.json({ success: true });
+});
+
 /**
  * DELETE /api/debug/reset
  * 
@@ -43,6 +43,7 @@ historyRoutes.get('/history', async (c) => {
     let query = `
       SELECT 
         e.event_id,
+        e.kind,
         e.scheduled_time,
         e.deadline_time,
         e.status,
@@ -52,7 +53,7 @@ historyRoutes.get('/history', async (c) => {
         e.escalated_at,
         e.created_at
       FROM checkin_events e
-      WHERE e.user_id = ?
+      WHERE e.user_id = ? AND e.kind != 'duress'
     `;
     const params: any[] = [user.user_id];
     
@@ -80,7 +81,7 @@ historyRoutes.get('/history', async (c) => {
           const deliveries = await c.env.DB.prepare(`
             SELECT d.status, d.sent_at
             FROM alert_deliveries d
-            WHERE d.event_id = ?
+            WHERE d.event_id = ? AND d.purpose = 'alert'
           `).bind(event.event_id).all();
           
           contactsAlerted = deliveries.results
@@ -90,6 +91,7 @@ historyRoutes.get('/history', async (c) => {
         
         return {
           event_id: event.event_id,
+          kind: event.kind,
           scheduled_time: event.scheduled_time,
           deadline_time: event.deadline_time,
           status: event.status,
@@ -97,6 +99,7 @@ historyRoutes.get('/history', async (c) => {
           snoozed_until: event.snoozed_until,
           snooze_count: event.snooze_count,
           escalated_at: event.escalated_at,
+          acknowledged_at: event.acknowledged_at,
           contacts_alerted_count: contactsAlerted.length
         };
       })
@@ -114,90 +117,6 @@ historyRoutes.get('/history', async (c) => {
   }
 });
 
-/**
- * GET /api/history/:eventId
- * 
- * Get detailed information about a specific event.
- */
-historyRoutes.get('/history/:eventId', async (c) => {
-  const user = await getAuthUser(c);
-  if (!user) {
-    return c.json({ error: 'Unauthorized' }, 401);
-  }
-  
-  const eventId = c.req.param('eventId');
-  
-  try {
-    // Get the event
-    const event = await c.env.DB.prepare(`
-      SELECT * FROM checkin_events WHERE event_id = ? AND user_id = ?
-    `).bind(eventId, user.user_id).first<CheckinEvent>();
-    
-    if (!event) {
-      return c.json({ error: 'Event not found' }, 404);
-    }
-    
-    // Get alert deliveries for this event
-    const deliveries = await c.env.DB.prepare(`
-      SELECT 
-        delivery_id,
-        channel,
-        status,
-        sent_at,
-        delivered_at,
-        error_message,
-        retry_count
-      FROM alert_deliveries
-      WHERE event_id = ?
-    `).bind(eventId).all();
-    
-    // Get event logs
-    const logs = await c.env.DB.prepare(`
-      SELECT 
-        event_type,
-        event_time,
-        result,
-        details
-      FROM event_logs
-      WHERE event_id = ?
-      ORDER BY event_time ASC
-    `).bind(eventId).all<EventLog>();
-    
-    return c.json({
-      event: {
-        event_id: event.event_id,
-        scheduled_time: event.scheduled_time,
-        deadline_time: event.deadline_time,
-        status: event.status,
-        confirmed_at: event.confirmed_at,
-        snoozed_until: event.snoozed_until,
-        snooze_count: event.snooze_count,
-        escalated_at: event.escalated_at,
-        created_at: event.created_at
-      },
-      deliveries: deliveries.results.map((d: any) => ({
-        delivery_id: d.delivery_id,
-        channel: d.channel,
-        status: d.status,
-        sent_at: d.sent_at,
-        delivered_at: d.delivered_at,
-        error_message: d.error_message,
-        retry_count: d.retry_count
-      })),
-      timeline: logs.results.map((l: any) => ({
-        event_type: l.event_type,
-        event_time: l.event_time,
-        result: l.result,
-        details: l.details ? JSON.parse(l.details) : null
-      }))
-    });
-    
-  } catch (error) {
-    console.error('Event detail error:', error);
-    return c.json({ error: 'Failed to get event details' }, 500);
-  }
-});
-
 /**
  * GET /api/history/stats
  * 
@@ -210,20 +129,28 @@ historyRoutes.get('/history/stats', async (c) => {
   }
   
   try {
-    // Get counts by status
+    // Get counts by status (SOS alerts are counted separately)
     const stats = await c.env.DB.prepare(`
       SELECT 
         status,
         COUNT(*) as count
       FROM checkin_events
-      WHERE user_id = ?
+      WHERE user_id = ? AND kind NOT IN ('sos', 'duress')
       GROUP BY status
     `).bind(user.user_id).all();
     
+    const sos = await c.env.DB.prepare(`
+      SELECT
+        COUNT(*) as total,
+        SUM(CASE WHEN status = 'cancelled' THEN 1 ELSE 0 END) as cancelled
+      FROM checkin_events
+      WHERE user_id = ? AND kind = 'sos'
+    `).bind(user.user_id).first<{ total: number; cancelled: number | null }>();
+    
     // Get recent streak (consecutive confirmed check-ins)
     const recentEvents = await c.env.DB.prepare(`
       SELECT status FROM checkin_events
-      WHERE user_id = ?
+      WHERE user_id = ? AND kind NOT IN ('sos', 'duress')
       ORDER BY scheduled_time DESC
       LIMIT 30
     `).bind(user.user_id).all<{ status: string }>();
@@ -232,7 +159,7 @@ historyRoutes.get('/history/stats', async (c) => {
     for (const event of recentEvents.results) {
       if (event.status === 'confirmed') {
         streak++;
-      } else if (event.status !== 'paused') {
+      } else if (event.status !== 'paused' && event.status !== 'cancelled') {
         break;
       }
     }
@@ -249,7 +176,9 @@ historyRoutes.get('/history/stats', async (c) => {
       missed: statusCounts['missed'] || 0,
       alerted: statusCounts['alerted'] || 0,
       snoozed: statusCounts['snoozed'] || 0,
-      current_streak: streak
+      current_streak: streak,
+      sos_alerts: sos?.total || 0,
+      sos_cancelled: sos?.cancelled || 0
     });
     
   } catch (error) {
@@ -279,6 +208,7 @@ historyRoutes.get('/history/export', async (c) => {
     let query = `
       SELECT
         e.event_id,
+        e.kind,
         e.scheduled_time,
         e.deadline_time,
         e.status,
@@ -289,7 +219,7 @@ historyRoutes.get('/history/export', async (c) => {
         e.escalation_level,
         e.created_at
       FROM checkin_events e
-      WHERE e.user_id = ?
+      WHERE e.user_id = ? AND e.kind != 'duress'
     `;
     const params: any[] = [user.user_id];
 
@@ -313,10 +243,12 @@ historyRoutes.get('/history/export', async (c) => {
         status,
         COUNT(*) as count
       FROM checkin_events
-      WHERE user_id = ?
+      WHERE user_id = ? AND kind NOT IN ('sos', 'duress')
       GROUP BY status
     `).bind(user.user_id).all();
 
+    const sosCount = events.results.filter((e) => e.kind === 'sos').length;
+
     const statusCounts: Record<string, number> = {};
     for (const row of stats.results as any[]) {
       statusCounts[row.status] = row.count;
@@ -335,10 +267,12 @@ historyRoutes.get('/history/export', async (c) => {
         confirmed: statusCounts['confirmed'] || 0,
         missed: statusCounts['missed'] || 0,
         alerted: statusCounts['alerted'] || 0,
-        snoozed: statusCounts['snoozed'] || 0
+        snoozed: statusCounts['snoozed'] || 0,
+        sos_alerts: sosCount
       },
       events: events.results.map((e: any) => ({
         date: e.scheduled_time.split('T')[0],
+        kind: e.kind,
         scheduled_time: e.scheduled_time,
         deadline_time: e.deadline_time,
         status: e.status,
@@ -370,3 +304,97 @@ historyRoutes.get('/history/export', async (c) => {
     return c.json({ error: 'Failed to export data' }, 500);
   }
 });
+
+/**
+ * GET /api/history/:eventId
+ * 
+ * Get detailed information about a specific event.
+ */
+historyRoutes.get('/history/:eventId', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+  
+  const eventId = c.req.param('eventId');
+  
+  try {
+    // Get the event
+    const event = await c.env.DB.prepare(`
+      SELECT * FROM checkin_events WHERE event_id = ? AND user_id = ? AND kind != 'duress'
+    `).bind(eventId, user.user_id).first<CheckinEvent>();
+    
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
+    }
+    
+    // Get alert deliveries for this event
+    const deliveries = await c.env.DB.prepare(`
+      SELECT 
+        delivery_id,
+        channel,
+        purpose,
+        status,
+        sent_at,
+        delivered_at,
+        error_message,
+        retry_count,
+        acknowledged_at
+      FROM alert_deliveries
+      WHERE event_id = ?
+    `).bind(eventId).all();
+    
+    // Get event logs
+    const logs = await c.env.DB.prepare(`
+      SELECT 
+        event_type,
+        event_time,
+        result,
+        details
+      FROM event_logs
+      WHERE event_id = ?
+      ORDER BY event_time ASC
+    `).bind(eventId).all<EventLog>();
+    
+    return c.json({
+      event: {
+        event_id: event.event_id,
+        kind: event.kind,
+        scheduled_time: event.scheduled_time,
+        deadline_time: event.deadline_time,
+        window_end: event.window_end,
+        status: event.status,
+        confirmed_at: event.confirmed_at,
+        snoozed_until: event.snoozed_until,
+        snooze_count: event.snooze_count,
+        reminders_sent: event.reminders_sent,
+        escalated_at: event.escalated_at,
+        escalation_level: event.escalation_level,
+        acknowledged_at: event.acknowledged_at,
+        acknowledged_via: event.acknowledged_via,
+        created_at: event.created_at
+      },
+      deliveries: deliveries.results.map((d: any) => ({
+        delivery_id: d.delivery_id,
+        channel: d.channel,
+        purpose: d.purpose,
+        status: d.status,
+        sent_at: d.sent_at,
+        delivered_at: d.delivered_at,
+        error_message: d.error_message,
+        retry_count: d.retry_count,
+        acknowledged_at: d.acknowledged_at
+      })),
+      timeline: logs.results.map((l: any) => ({
+        event_type: l.event_type,
+        event_time: l.event_time,
+        result: l.result,
+        details: l.details ? JSON.parse(l.details) : null
+      }))
+    });
+    
+  } catch (error) {
+    console.error('Event detail error:', error);
+    return c.json({ error: 'Failed to get event details' }, 500);
+  }
+});
@@ -7,6 +7,9 @@
 import { Hono } from 'hono';
 import { Env, RegisterRequest, RegisterResponse, User } from '../types';
 import { generateUUID, generateAuthToken } from '../utils/crypto';
+import { isValidTimeZone } from '../utils/timezone';
+import { refreshNextCheckin } from '../cron/scheduler';
+import { parseScheduleRules, validateScheduleRules, validateIntervalHours } from '../utils/schedule';
 
 export const registerRoutes = new Hono<{ Bindings: Env }>();
 
@@ -24,6 +27,20 @@ registerRoutes.post('/register', async (c) => {
     if (!body.device_id) {
       return c.json({ error: 'device_id is required' }, 400);
     }
+
+    if (body.timezone && !isValidTimeZone(body.timezone)) {
+      return c.json({
+        error: 'Invalid timezone',
+        message: `"${body.timezone}" is not a valid IANA timezone`
+      }, 400);
+    }
+
+    if (body.schedule_times) {
+      const validationError = validateScheduleRules([{ times: body.schedule_times }]);
+      if (validationError) {
+        return c.json({ error: 'Invalid schedule', message: validationError }, 400);
+      }
+    }
     
     // Check if device already registered
     const existingUser = await c.env.DB.prepare(
@@ -44,8 +61,8 @@ registerRoutes.post('/register', async (c) => {
         values.push(body.name);
       }
       if (body.schedule_times) {
-        updates.push('checkin_times = ?');
-        values.push(JSON.stringify(body.schedule_times));
+        updates.push('checkin_times = ?', 'schedule_rules = ?');
+        values.push(JSON.stringify(body.schedule_times), JSON.stringify([{ times: body.schedule_times }]));
       }
       if (body.grace_minutes !== undefined) {
         updates.push('grace_minutes = ?');
@@ -68,6 +85,10 @@ registerRoutes.post('/register', async (c) => {
         await c.env.DB.prepare(
           `UPDATE users SET ${updates.join(', ')} WHERE user_id = ?`
         ).bind(...values).run();
+
+        if (body.timezone || body.schedule_times) {
+          await refreshNextCheckin(c.env.DB, existingUser.user_id);
+        }
       }
       
       const response: RegisterResponse = {
@@ -84,21 +105,20 @@ registerRoutes.post('/register', async (c) => {
     const authToken = generateAuthToken();
     const now = new Date().toISOString();
     
-    const checkinTimes = body.schedule_times 
-      ? JSON.stringify(body.schedule_times)
-      : '["09:00"]';
+    const times = body.schedule_times || ['09:00'];
     
     await c.env.DB.prepare(`
       INSERT INTO users (
-        user_id, device_id, timezone, name, checkin_times,
+        user_id, device_id, timezone, name, checkin_times, schedule_rules,
         grace_minutes, sms_alerts_enabled, auth_token, apns_token, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       userId,
       body.device_id,
       body.timezone || 'UTC',
       body.name || 'User',
-      checkinTimes,
+      JSON.stringify(times),
+      JSON.stringify([{ times }]),
       body.grace_minutes || 10,
       body.sms_alerts_enabled ? 1 : 0,
       authToken,
@@ -106,6 +126,8 @@ registerRoutes.post('/register', async (c) => {
       now,
       now
     ).run();
+
+    await refreshNextCheckin(c.env.DB, userId);
     
     const response: RegisterResponse = {
       user_id: userId,
@@ -151,11 +173,16 @@ registerRoutes.get('/user', async (c) => {
     timezone: user.timezone,
     name: user.name,
     checkin_times: JSON.parse(user.checkin_times),
+    schedule_rules: parseScheduleRules(user),
     grace_minutes: user.grace_minutes,
     early_reminder_enabled: user.early_reminder_enabled === 1,
     early_reminder_minutes: user.early_reminder_minutes,
     sms_alerts_enabled: user.sms_alerts_enabled === 1,
     pause_until: user.pause_until,
+    checkin_mode: user.checkin_mode,
+    interval_hours: user.interval_hours,
+    interval_anchor_at: user.interval_anchor_at,
+    next_checkin_at: user.next_checkin_at,
     created_at: user.created_at,
   });
 });
@@ -187,6 +214,12 @@ registerRoutes.put('/user', async (c) => {
     const values: any[] = [];
     
     if (body.timezone !== undefined) {
+      if (!isValidTimeZone(body.timezone)) {
+        return c.json({
+          error: 'Invalid timezone',
+          message: `"${body.timezone}" is not a valid IANA timezone`
+        }, 400);
+      }
       updates.push('timezone = ?');
       values.push(body.timezone);
     }
@@ -195,18 +228,56 @@ registerRoutes.put('/user', async (c) => {
       values.push(body.name);
     }
     if (body.checkin_times !== undefined) {
-      updates.push('checkin_times = ?');
-      values.push(JSON.stringify(body.checkin_times));
+      // A flat list replaces any rule-based schedule with an every-day rule
+      const validationError = validateScheduleRules([{ times: body.checkin_times }]);
+      if (validationError) {
+        return c.json({ error: 'Invalid schedule', message: validationError }, 400);
+      }
+      updates.push('checkin_times = ?', 'schedule_rules = ?');
+      values.push(JSON.stringify(body.checkin_times), JSON.stringify([{ times: body.checkin_times }]));
     }
     if (body.grace_minutes !== undefined) {
       updates.push('grace_minutes = ?');
       values.push(body.grace_minutes);
     }
+    if (body.checkin_mode !== undefined) {
+      if (body.checkin_mode !== 'schedule' && body.checkin_mode !== 'interval') {
+        return c.json({ error: "checkin_mode must be 'schedule' or 'interval'" }, 400);
+      }
+      updates.push('checkin_mode = ?');
+      values.push(body.checkin_mode);
+      // Entering interval mode starts the clock now
+      if (body.checkin_mode === 'interval' && user.checkin_mode !== 'interval') {
+        updates.push('interval_anchor_at = ?');
+        values.push(new Date().toISOString());
+      }
+    }
+    if (body.interval_hours !== undefined || body.grace_minutes !== undefined || body.checkin_mode !== undefined) {
+      // In interval mode the grace period must fit inside the interval
+      const isInterval = (body.checkin_mode ?? user.checkin_mode) === 'interval';
+      if (isInterval || body.interval_hours !== undefined) {
+        const validationError = validateIntervalHours(
+          body.interval_hours ?? user.interval_hours,
+          isInterval ? (body.grace_minutes ?? user.grace_minutes) : 0
+        );
+        if (validationError) {
+          return c.json({ error: 'Invalid interval', message: validationError }, 400);
+        }
+      }
+    }
+    if (body.interval_hours !== undefined) {
+      updates.push('interval_hours = ?');
+      values.push(body.interval_hours);
+    }
     if (body.early_reminder_enabled !== undefined) {
       updates.push('early_reminder_enabled = ?');
       values.push(body.early_reminder_enabled ? 1 : 0);
     }
     if (body.early_reminder_minutes !== undefined) {
+      if (!Number.isInteger(body.early_reminder_minutes)
+        || body.early_reminder_minutes < 1 || body.early_reminder_minutes > 240) {
+        return c.json({ error: 'early_reminder_minutes must be an integer between 1 and 240' }, 400);
+      }
       updates.push('early_reminder_minutes = ?');
       values.push(body.early_reminder_minutes);
     }
@@ -230,6 +301,12 @@ registerRoutes.put('/user', async (c) => {
     await c.env.DB.prepare(
       `UPDATE users SET ${updates.join(', ')} WHERE user_id = ?`
     ).bind(...values).run();
+
+    if (body.timezone !== undefined || body.checkin_times !== undefined
+      || body.grace_minutes !== undefined || body.checkin_mode !== undefined || body.interval_hours !== undefined
+      || body.early_reminder_enabled !== undefined || body.early_reminder_minutes !== undefined) {
+      await refreshNextCheckin(c.env.DB, user.user_id);
+    }
     
     return c.json({ success: true });
     
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Env } from '../types';
+import { createTestEnv, insertUser, insertContact, TestEnv } from '../test/env';
+import { loadEscalationChain } from '../cron/scheduler';
+import { settingsRoutes } from './settings';
+
+let testEnv: TestEnv;
+let env: Env;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  env = testEnv.env;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+async function post(path: string, token: string, body: object): Promise<Response> {
+  return settingsRoutes.request(path, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }, env);
+}
+
+describe('POST /settings/escalation', () => {
+  const threeTiers = [
+    { delay_minutes: 0, channels: ['sms'] },
+    { delay_minutes: 10, channels: ['sms', 'push'] },
+    { delay_minutes: 20, channels: ['voice'] },
+  ];
+
+  it('replaces the whole chain', async () => {
+    const userId = await insertUser(env, { auth_token: 'token-chain' });
+
+    expect((await post('/settings/escalation', 'token-chain', { tiers: threeTiers })).status).toBe(200);
+    expect((await post('/settings/escalation', 'token-chain', { tiers: threeTiers.slice(0, 2) })).status).toBe(200);
+
+    const chain = await loadEscalationChain(env.DB, { user_id: userId, level2_delay_minutes: 15 });
+    expect(chain.map((tier) => [tier.delay_minutes, tier.channels])).toEqual([[0, ['sms']], [10, ['sms', 'push']]]);
+  });
+
+  it('refuses a chain that would strand contacts above its last tier', async () => {
+    const userId = await insertUser(env, { auth_token: 'token-stranded' });
+    await post('/settings/escalation', 'token-stranded', { tiers: threeTiers });
+    await insertContact(env, userId, { phone: '+15551400001', level: 3 });
+
+    const res = await post('/settings/escalation', 'token-stranded', { tiers: threeTiers.slice(0, 2) });
+
+    expect(res.status).toBe(409);
+    expect(await loadEscalationChain(env.DB, { user_id: userId, level2_delay_minutes: 15 })).toHaveLength(3);
+  });
+});
+
+describe('/settings/pin', () => {
+  it('never reveals whether a duress PIN is set', async () => {
+    const userId = await insertUser(env, { auth_token: 'token-pins' });
+
+    const res = await post('/settings/pin', 'token-pins', { pin: '1357', duress_pin: '9753' });
+    const current = await settingsRoutes.request('/settings/pin', { headers: { 'Authorization': 'Bearer token-pins' } }, env);
+
+    expect(await res.json()).toEqual({ success: true, pin_enabled: true });
+    expect(await current.json()).toEqual({ pin_enabled: true });
+    const log = await env.DB.prepare(
+      "SELECT details FROM event_logs WHERE user_id = ? AND event_type = 'checkin_pin_updated'"
+    ).bind(userId).first<{ details: string }>();
+    expect(JSON.parse(log!.details)).toEqual({ pin_enabled: true });
+  });
+});
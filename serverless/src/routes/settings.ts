@@ -5,11 +5,27 @@
  */
 
 import { Hono } from 'hono';
-import { Env, User, PauseRequest } from '../types';
-import { generateUUID } from '../utils/crypto';
+import { Env, User, PauseRequest, PauseWindow, PauseWindowRequest, CheckinMode, PinSettingsRequest } from '../types';
+import { generateUUID, hashPin, verifyPin } from '../utils/crypto';
+import { refreshNextCheckin, loadEscalationChain } from '../cron/scheduler';
+import { transitionUserEvents, OPEN_STATUSES } from '../services/lifecycle';
+import { validatePauseWindow, parsePauseDays, getPauseEnd, MAX_PAUSE_WINDOWS } from '../utils/pauses';
+import { SnoozePolicy, validateSnoozePolicy, normalizeSnoozePolicy, parseSnoozePolicy } from '../utils/snooze';
+import { EscalationTierConfig, validateEscalationTiers, normalizeEscalationTiers } from '../utils/escalation';
+import { parseReminderLadder, validateReminderLadder, ReminderStep } from '../utils/reminders';
+import {
+  ScheduleRule,
+  validateScheduleRules,
+  normalizeScheduleRules,
+  rulesToCheckinTimes,
+  validateIntervalHours,
+} from '../utils/schedule';
 
 export const settingsRoutes = new Hono<{ Bindings: Env }>();
 
+// Check-in and duress PINs: 4-8 digits
+const PIN_PATTERN = /^\d{4,8}$/;
+
 // Helper to get authenticated user
 async function getAuthUser(c: any): Promise<User | null> {
   const authHeader = c.req.header('Authorization');
@@ -28,6 +44,8 @@ async function getAuthUser(c: any): Promise<User | null> {
  * 
  * Set or clear pause/vacation mode.
  * When paused, no check-ins are scheduled and no alerts are sent.
+ * When pause_until passes, the cron resumes monitoring automatically;
+ * notify_contacts_on_resume also tells linked contacts at that point.
  */
 settingsRoutes.post('/settings/pause', async (c) => {
   const user = await getAuthUser(c);
@@ -55,14 +73,20 @@ settingsRoutes.post('/settings/pause', async (c) => {
       UPDATE users SET pause_until = ?, updated_at = ?
       WHERE user_id = ?
     `).bind(body.pause_until, now, user.user_id).run();
+
+    if (body.notify_contacts_on_resume !== undefined) {
+      await c.env.DB.prepare(`
+        UPDATE users SET notify_contacts_on_resume = ?
+        WHERE user_id = ?
+      `).bind(body.notify_contacts_on_resume ? 1 : 0, user.user_id).run();
+    }
+
+    // Next slot moves past the pause (or back to the regular schedule)
+    await refreshNextCheckin(c.env.DB, user.user_id);
     
     // If pausing, mark all pending events as paused
     if (body.pause_until) {
-      await c.env.DB.prepare(`
-        UPDATE checkin_events 
-        SET status = 'paused', updated_at = ?
-        WHERE user_id = ? AND status IN ('pending', 'snoozed')
-      `).bind(now, user.user_id).run();
+      await transitionUserEvents(c.env.DB, user.user_id, OPEN_STATUSES, 'paused', { at: now });
       
       // Log the pause
       await logEvent(c.env.DB, user.user_id, null, 'monitoring_paused', now, 'ok', {
@@ -76,6 +100,9 @@ settingsRoutes.post('/settings/pause', async (c) => {
         message: `Monitoring paused until ${body.pause_until}`
       });
     } else {
+      // Events paused earlier whose deadline is still ahead are live again
+      await transitionUserEvents(c.env.DB, user.user_id, ['paused'], 'pending', { at: now, deadlineAfter: now });
+
       // Log the resume
       await logEvent(c.env.DB, user.user_id, null, 'monitoring_resumed', now, 'ok');
       
@@ -110,14 +137,182 @@ settingsRoutes.get('/settings/pause', async (c) => {
   
   return c.json({
     paused: isPaused,
-    pause_until: isPaused ? user.pause_until : null
+    pause_until: isPaused ? user.pause_until : null,
+    notify_contacts_on_resume: user.notify_contacts_on_resume === 1
+  });
+});
+
+/**
+ * GET /api/settings/pauses
+ *
+ * List the pause calendar (ranges and recurring windows) and whether
+ * monitoring is paused right now.
+ */
+settingsRoutes.get('/settings/pauses', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const result = await c.env.DB.prepare(`
+    SELECT * FROM pause_windows WHERE user_id = ?
+    ORDER BY kind ASC, starts_at ASC, start_time ASC
+  `).bind(user.user_id).all<PauseWindow>();
+
+  const pauseEnd = getPauseEnd(user, result.results, new Date());
+
+  return c.json({
+    paused: pauseEnd !== null,
+    paused_until: pauseEnd ? pauseEnd.toISOString() : null,
+    pauses: result.results.map(formatPauseWindow)
   });
 });
 
+/**
+ * POST /api/settings/pauses
+ *
+ * Add a pause to the calendar:
+ * - {"kind": "range", "starts_at", "ends_at"} for a one-off period such as a trip
+ * - {"kind": "recurring", "days"?, "start_time", "end_time"} for e.g. every
+ *   Sunday or nightly 23:00-07:00 (wall-clock times in the user's timezone)
+ * Check-ins falling inside a pause are not scheduled or escalated.
+ */
+settingsRoutes.post('/settings/pauses', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await c.req.json<PauseWindowRequest>();
+    const now = new Date().toISOString();
+
+    const validationError = validatePauseWindow(body);
+    if (validationError) {
+      return c.json({ error: 'Invalid pause', message: validationError }, 400);
+    }
+
+    const count = await c.env.DB.prepare(
+      'SELECT COUNT(*) as count FROM pause_windows WHERE user_id = ?'
+    ).bind(user.user_id).first<{ count: number }>();
+    if (count && count.count >= MAX_PAUSE_WINDOWS) {
+      return c.json({ error: `A maximum of ${MAX_PAUSE_WINDOWS} pauses is allowed` }, 400);
+    }
+
+    const pause: PauseWindow = body.kind === 'range'
+      ? {
+        pause_id: generateUUID(),
+        user_id: user.user_id,
+        kind: 'range',
+        starts_at: new Date(body.starts_at!).toISOString(),
+        ends_at: new Date(body.ends_at!).toISOString(),
+        days: null,
+        start_time: null,
+        end_time: null,
+        label: body.label || null,
+        created_at: now
+      }
+      : {
+        pause_id: generateUUID(),
+        user_id: user.user_id,
+        kind: 'recurring',
+        starts_at: null,
+        ends_at: null,
+        days: body.days ? JSON.stringify(body.days) : null,
+        start_time: body.start_time!,
+        end_time: body.end_time!,
+        label: body.label || null,
+        created_at: now
+      };
+
+    await c.env.DB.prepare(`
+      INSERT INTO pause_windows (
+        pause_id, user_id, kind, starts_at, ends_at, days, start_time, end_time, label, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      pause.pause_id,
+      pause.user_id,
+      pause.kind,
+      pause.starts_at,
+      pause.ends_at,
+      pause.days,
+      pause.start_time,
+      pause.end_time,
+      pause.label,
+      pause.created_at
+    ).run();
+
+    const nextCheckinAt = await refreshNextCheckin(c.env.DB, user.user_id);
+
+    await logEvent(c.env.DB, user.user_id, null, 'pause_window_created', now, 'ok', {
+      pause_id: pause.pause_id,
+      kind: pause.kind
+    });
+
+    return c.json({
+      success: true,
+      pause: formatPauseWindow(pause),
+      next_checkin_at: nextCheckinAt
+    }, 201);
+
+  } catch (error) {
+    console.error('Pause window create error:', error);
+    return c.json({
+      error: 'Pause operation failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * DELETE /api/settings/pauses/:pauseId
+ *
+ * Remove a pause from the calendar.
+ */
+settingsRoutes.delete('/settings/pauses/:pauseId', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const pauseId = c.req.param('pauseId');
+    const now = new Date().toISOString();
+
+    const result = await c.env.DB.prepare(
+      'DELETE FROM pause_windows WHERE pause_id = ? AND user_id = ?'
+    ).bind(pauseId, user.user_id).run();
+
+    if (!result.meta.changes) {
+      return c.json({ error: 'Pause not found' }, 404);
+    }
+
+    const nextCheckinAt = await refreshNextCheckin(c.env.DB, user.user_id);
+
+    await logEvent(c.env.DB, user.user_id, null, 'pause_window_deleted', now, 'ok', {
+      pause_id: pauseId
+    });
+
+    return c.json({
+      success: true,
+      next_checkin_at: nextCheckinAt
+    });
+
+  } catch (error) {
+    console.error('Pause window delete error:', error);
+    return c.json({
+      error: 'Pause operation failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
 /**
  * POST /api/settings/schedule
  *
- * Update check-in schedule times.
+ * Update the check-in schedule.
+ * Accepts either rule-based schedules ("rules", see ScheduleRule) or the
+ * legacy flat "times" list, which applies every day.
  */
 settingsRoutes.post('/settings/schedule', async (c) => {
   const user = await getAuthUser(c);
@@ -126,35 +321,52 @@ settingsRoutes.post('/settings/schedule', async (c) => {
   }
 
   try {
-    const body = await c.req.json<{ times: string[]; grace_minutes?: number }>();
+    const body = await c.req.json<{ times?: string[]; rules?: ScheduleRule[]; grace_minutes?: number }>();
     const now = new Date().toISOString();
 
-    // Validate times
-    if (!body.times || !Array.isArray(body.times) || body.times.length === 0) {
-      return c.json({ error: 'At least one check-in time is required' }, 400);
-    }
+    if (body.rules === undefined) {
+      // Validate times
+      if (!body.times || !Array.isArray(body.times) || body.times.length === 0) {
+        return c.json({ error: 'At least one check-in time is required' }, 400);
+      }
 
-    // Validate time format (HH:MM)
-    const timeRegex = /^([01]\d|2[0-3]):([0-5]\d)$/;
-    for (const time of body.times) {
-      if (!timeRegex.test(time)) {
-        return c.json({
-          error: 'Invalid time format',
-          message: `Time "${time}" is not in HH:MM format`
-        }, 400);
+      // Validate time format (HH:MM)
+      const timeRegex = /^([01]\d|2[0-3]):([0-5]\d)$/;
+      for (const time of body.times) {
+        if (!timeRegex.test(time)) {
+          return c.json({
+            error: 'Invalid time format',
+            message: `Time "${time}" is not in HH:MM format`
+          }, 400);
+        }
       }
     }
 
+    const rules: ScheduleRule[] = body.rules !== undefined ? body.rules : [{ times: body.times! }];
+    const validationError = validateScheduleRules(rules);
+    if (validationError) {
+      return c.json({ error: 'Invalid schedule', message: validationError }, 400);
+    }
+
+    const scheduleRules = normalizeScheduleRules(rules);
+    const checkinTimes = rulesToCheckinTimes(scheduleRules);
+
     // Validate grace_minutes if provided
     if (body.grace_minutes !== undefined) {
       if (![5, 10, 15, 30].includes(body.grace_minutes)) {
         return c.json({ error: 'grace_minutes must be 5, 10, 15, or 30' }, 400);
       }
+      if (user.checkin_mode === 'interval') {
+        const intervalError = validateIntervalHours(user.interval_hours, body.grace_minutes);
+        if (intervalError) {
+          return c.json({ error: 'Invalid grace period', message: intervalError }, 400);
+        }
+      }
     }
 
     // Update schedule
-    const updates: string[] = ['checkin_times = ?', 'updated_at = ?'];
-    const values: any[] = [JSON.stringify(body.times), now];
+    const updates: string[] = ['checkin_times = ?', 'schedule_rules = ?', 'updated_at = ?'];
+    const values: any[] = [JSON.stringify(checkinTimes), JSON.stringify(scheduleRules), now];
 
     if (body.grace_minutes !== undefined) {
       updates.push('grace_minutes = ?');
@@ -167,9 +379,13 @@ settingsRoutes.post('/settings/schedule', async (c) => {
       `UPDATE users SET ${updates.join(', ')} WHERE user_id = ?`
     ).bind(...values).run();
 
+    const nextCheckinAt = await refreshNextCheckin(c.env.DB, user.user_id);
+
     return c.json({
       success: true,
-      checkin_times: body.times,
+      checkin_times: checkinTimes,
+      rules: scheduleRules,
+      next_checkin_at: nextCheckinAt,
       grace_minutes: body.grace_minutes || user.grace_minutes
     });
 
@@ -182,10 +398,89 @@ settingsRoutes.post('/settings/schedule', async (c) => {
   }
 });
 
+/**
+ * GET /api/settings/mode
+ *
+ * Get the check-in mode (clock schedule or rolling interval).
+ */
+settingsRoutes.get('/settings/mode', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  return c.json({
+    checkin_mode: user.checkin_mode,
+    interval_hours: user.interval_hours,
+    interval_anchor_at: user.interval_anchor_at,
+    next_checkin_at: user.next_checkin_at
+  });
+});
+
+/**
+ * POST /api/settings/mode
+ *
+ * Switch between the clock schedule and rolling-interval mode.
+ * In interval mode a check-in is due every interval_hours after the last
+ * confirmation; switching into interval mode starts the first interval now.
+ */
+settingsRoutes.post('/settings/mode', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await c.req.json<{ checkin_mode: CheckinMode; interval_hours?: number }>();
+    const now = new Date().toISOString();
+
+    if (body.checkin_mode !== 'schedule' && body.checkin_mode !== 'interval') {
+      return c.json({ error: "checkin_mode must be 'schedule' or 'interval'" }, 400);
+    }
+
+    const intervalHours = body.interval_hours ?? user.interval_hours;
+    if (body.checkin_mode === 'interval' || body.interval_hours !== undefined) {
+      const validationError = validateIntervalHours(
+        intervalHours,
+        body.checkin_mode === 'interval' ? user.grace_minutes : 0
+      );
+      if (validationError) {
+        return c.json({ error: 'Invalid interval', message: validationError }, 400);
+      }
+    }
+
+    const anchorAt = body.checkin_mode === 'interval' && user.checkin_mode !== 'interval'
+      ? now
+      : user.interval_anchor_at;
+
+    await c.env.DB.prepare(`
+      UPDATE users SET checkin_mode = ?, interval_hours = ?, interval_anchor_at = ?, updated_at = ?
+      WHERE user_id = ?
+    `).bind(body.checkin_mode, intervalHours, anchorAt, now, user.user_id).run();
+
+    const nextCheckinAt = await refreshNextCheckin(c.env.DB, user.user_id);
+
+    return c.json({
+      success: true,
+      checkin_mode: body.checkin_mode,
+      interval_hours: intervalHours,
+      interval_anchor_at: anchorAt,
+      next_checkin_at: nextCheckinAt
+    });
+
+  } catch (error) {
+    console.error('Mode update error:', error);
+    return c.json({
+      error: 'Settings update failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
 /**
  * GET /api/settings/escalation
  *
- * Get escalation settings (Level 2 delay).
+ * Get the escalation chain. level2_delay_minutes is kept for older clients.
  */
 settingsRoutes.get('/settings/escalation', async (c) => {
   const user = await getAuthUser(c);
@@ -193,15 +488,25 @@ settingsRoutes.get('/settings/escalation', async (c) => {
     return c.json({ error: 'Unauthorized' }, 401);
   }
 
+  const tiers = await loadEscalationChain(c.env.DB, user);
+
   return c.json({
-    level2_delay_minutes: user.level2_delay_minutes || 15
+    tiers,
+    level2_delay_minutes: tiers.find((tier) => tier.position === 2)?.delay_minutes ?? user.level2_delay_minutes ?? 15
   });
 });
 
 /**
  * POST /api/settings/escalation
  *
- * Update escalation settings.
+ * Update the escalation chain.
+ *
+ * Request body (either):
+ * - tiers: [{ delay_minutes, channels }] - replaces the whole chain;
+ *   the first tier fires at the deadline, each later one after its delay;
+ *   channels are any of sms, push, voice. Rejected while contacts are
+ *   assigned to a tier the new chain would not have.
+ * - level2_delay_minutes: 5, 10, 15, 20, or 30 (legacy; sets tier 2's delay)
  */
 settingsRoutes.post('/settings/escalation', async (c) => {
   const user = await getAuthUser(c);
@@ -210,9 +515,53 @@ settingsRoutes.post('/settings/escalation', async (c) => {
   }
 
   try {
-    const body = await c.req.json<{ level2_delay_minutes?: number }>();
+    const body = await c.req.json<{ tiers?: Partial<EscalationTierConfig>[]; level2_delay_minutes?: number }>();
     const now = new Date().toISOString();
 
+    if (body.tiers !== undefined) {
+      const validationError = validateEscalationTiers(body.tiers);
+      if (validationError) {
+        return c.json({
+          error: 'Invalid escalation tiers',
+          message: validationError
+        }, 400);
+      }
+
+      const tiers = normalizeEscalationTiers(body.tiers);
+
+      // Contacts on a tier that would no longer exist could never be alerted
+      const stranded = await c.env.DB.prepare(
+        'SELECT COUNT(*) as count FROM contacts WHERE user_id = ? AND level > ?'
+      ).bind(user.user_id, tiers.length).first<{ count: number }>();
+
+      if (stranded?.count) {
+        return c.json({
+          error: 'Contacts above the last tier',
+          message: `${stranded.count} contact(s) are assigned to a tier above ${tiers.length}; move them to a lower tier first`
+        }, 409);
+      }
+
+      // Replace the stored chain in one transaction, so escalations never see it half-written
+      await c.env.DB.batch([
+        c.env.DB.prepare(
+          'DELETE FROM escalation_tiers WHERE user_id = ?'
+        ).bind(user.user_id),
+        ...tiers.map((tier) => c.env.DB.prepare(`
+          INSERT INTO escalation_tiers (user_id, position, delay_minutes, channels, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).bind(user.user_id, tier.position, tier.delay_minutes, JSON.stringify(tier.channels), now, now))
+      ]);
+
+      await logEvent(c.env.DB, user.user_id, null, 'escalation_chain_updated', now, 'ok', {
+        tiers: tiers.length
+      });
+
+      return c.json({
+        success: true,
+        tiers
+      });
+    }
+
     // Validate level2_delay_minutes if provided
     if (body.level2_delay_minutes !== undefined) {
       if (![5, 10, 15, 20, 30].includes(body.level2_delay_minutes)) {
@@ -229,6 +578,11 @@ settingsRoutes.post('/settings/escalation', async (c) => {
         UPDATE users SET level2_delay_minutes = ?, updated_at = ?
         WHERE user_id = ?
       `).bind(body.level2_delay_minutes, now, user.user_id).run();
+
+      await c.env.DB.prepare(`
+        UPDATE escalation_tiers SET delay_minutes = ?, updated_at = ?
+        WHERE user_id = ? AND position = 2
+      `).bind(body.level2_delay_minutes, now, user.user_id).run();
     }
 
     return c.json({
@@ -245,6 +599,237 @@ settingsRoutes.post('/settings/escalation', async (c) => {
   }
 });
 
+/**
+ * GET /api/settings/reminders
+ *
+ * Get the in-grace reminder ladder.
+ */
+settingsRoutes.get('/settings/reminders', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  return c.json({
+    reminder_ladder: parseReminderLadder(user.reminder_ladder)
+  });
+});
+
+/**
+ * POST /api/settings/reminders
+ *
+ * Update the in-grace reminder ladder.
+ * Steps: {"percent": 1-99} of the grace window, or {"minutes_before_deadline": 1-30}.
+ * An empty array disables in-grace reminders. Applies to newly created events.
+ */
+settingsRoutes.post('/settings/reminders', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await c.req.json<{ reminder_ladder: ReminderStep[] }>();
+    const now = new Date().toISOString();
+
+    const validationError = validateReminderLadder(body.reminder_ladder);
+    if (validationError) {
+      return c.json({ error: 'Invalid reminder ladder', message: validationError }, 400);
+    }
+
+    // Store only the recognised fields of each step
+    const ladder = body.reminder_ladder.map((step) => step.percent !== undefined
+      ? { percent: step.percent }
+      : { minutes_before_deadline: step.minutes_before_deadline });
+
+    await c.env.DB.prepare(`
+      UPDATE users SET reminder_ladder = ?, updated_at = ?
+      WHERE user_id = ?
+    `).bind(JSON.stringify(ladder), now, user.user_id).run();
+
+    return c.json({
+      success: true,
+      reminder_ladder: ladder
+    });
+
+  } catch (error) {
+    console.error('Reminder settings update error:', error);
+    return c.json({
+      error: 'Settings update failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/settings/snooze
+ *
+ * Get the snooze policy.
+ */
+settingsRoutes.get('/settings/snooze', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  return c.json(parseSnoozePolicy(user));
+});
+
+/**
+ * POST /api/settings/snooze
+ *
+ * Update the snooze policy. Omitted fields keep their current value.
+ * max_count: 0-5 snoozes per event, durations: allowed minutes (1-60),
+ * max_total_minutes: 1-120. Applies to future snoozes.
+ */
+settingsRoutes.post('/settings/snooze', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await c.req.json<Partial<SnoozePolicy>>();
+    const now = new Date().toISOString();
+
+    const current = parseSnoozePolicy(user);
+    const policy: SnoozePolicy = {
+      max_count: body.max_count ?? current.max_count,
+      durations: body.durations ?? current.durations,
+      max_total_minutes: body.max_total_minutes ?? current.max_total_minutes,
+    };
+
+    const validationError = validateSnoozePolicy(policy);
+    if (validationError) {
+      return c.json({ error: 'Invalid snooze policy', message: validationError }, 400);
+    }
+
+    const normalized = normalizeSnoozePolicy(policy);
+
+    await c.env.DB.prepare(`
+      UPDATE users SET snooze_max_count = ?, snooze_durations = ?, snooze_max_total_minutes = ?, updated_at = ?
+      WHERE user_id = ?
+    `).bind(
+      normalized.max_count,
+      JSON.stringify(normalized.durations),
+      normalized.max_total_minutes,
+      now,
+      user.user_id
+    ).run();
+
+    return c.json({
+      success: true,
+      ...normalized
+    });
+
+  } catch (error) {
+    console.error('Snooze settings update error:', error);
+    return c.json({
+      error: 'Settings update failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/settings/pin
+ *
+ * Whether a check-in PIN is set. Whether a duress PIN is set is never
+ * reported, so someone holding the phone cannot find out.
+ */
+settingsRoutes.get('/settings/pin', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  return c.json({
+    pin_enabled: !!user.checkin_pin_hash
+  });
+});
+
+/**
+ * POST /api/settings/pin
+ *
+ * Set or remove the check-in PIN and the duress PIN (4-8 digits).
+ * Confirming a check-in with the duress PIN looks like a normal
+ * confirmation but silently alerts contacts.
+ *
+ * Request body:
+ * - current_pin: the check-in PIN, required once one is set
+ * - pin: new check-in PIN, or null to remove both PINs
+ * - duress_pin: new duress PIN, or null to remove it
+ */
+settingsRoutes.post('/settings/pin', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await c.req.json<PinSettingsRequest>();
+    const now = new Date().toISOString();
+
+    if (user.checkin_pin_hash) {
+      if (typeof body.current_pin !== 'string' || !(await verifyPin(body.current_pin, user.checkin_pin_hash))) {
+        return c.json({ error: 'Invalid PIN', message: 'current_pin does not match your check-in PIN' }, 403);
+      }
+    }
+
+    for (const value of [body.pin, body.duress_pin]) {
+      if (value !== undefined && value !== null && (typeof value !== 'string' || !PIN_PATTERN.test(value))) {
+        return c.json({ error: 'Invalid PIN', message: 'PINs must be 4 to 8 digits' }, 400);
+      }
+    }
+
+    let pinHash = user.checkin_pin_hash;
+    let duressHash = user.duress_pin_hash;
+
+    if (body.pin === null) {
+      pinHash = null;
+      duressHash = null;
+    } else if (body.pin !== undefined) {
+      pinHash = await hashPin(body.pin);
+    }
+
+    if (body.duress_pin === null) {
+      duressHash = null;
+    } else if (body.duress_pin !== undefined) {
+      if (!pinHash) {
+        return c.json({ error: 'Invalid PIN', message: 'Set a check-in PIN before a duress PIN' }, 400);
+      }
+      const newPin = body.pin ?? body.current_pin;
+      if (body.duress_pin === newPin) {
+        return c.json({ error: 'Invalid PIN', message: 'The duress PIN must differ from the check-in PIN' }, 400);
+      }
+      duressHash = await hashPin(body.duress_pin);
+    } else if (duressHash && typeof body.pin === 'string' && (await verifyPin(body.pin, duressHash))) {
+      return c.json({ error: 'Invalid PIN', message: 'Choose a different check-in PIN' }, 400);
+    }
+
+    await c.env.DB.prepare(`
+      UPDATE users SET checkin_pin_hash = ?, duress_pin_hash = ?, updated_at = ?
+      WHERE user_id = ?
+    `).bind(pinHash, duressHash, now, user.user_id).run();
+
+    await logEvent(c.env.DB, user.user_id, null, 'checkin_pin_updated', now, 'ok', {
+      pin_enabled: !!pinHash
+    });
+
+    return c.json({
+      success: true,
+      pin_enabled: !!pinHash
+    });
+
+  } catch (error) {
+    console.error('PIN settings update error:', error);
+    return c.json({
+      error: 'Settings update failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
 /**
  * DELETE /api/settings/account
  * 
@@ -277,6 +862,26 @@ settingsRoutes.delete('/settings/account', async (c) => {
   }
 });
 
+// Shape a pause window for API responses
+function formatPauseWindow(pause: PauseWindow) {
+  return pause.kind === 'range'
+    ? {
+      pause_id: pause.pause_id,
+      kind: pause.kind,
+      starts_at: pause.starts_at,
+      ends_at: pause.ends_at,
+      label: pause.label
+    }
+    : {
+      pause_id: pause.pause_id,
+      kind: pause.kind,
+      days: parsePauseDays(pause.days),
+      start_time: pause.start_time,
+      end_time: pause.end_time,
+      label: pause.label
+    };
+}
+
 // Helper function to log events
 async function logEvent(
   db: D1Database,
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { Env, CheckinEvent } from '../types';
+import {
+  createTestEnv,
+  insertUser,
+  insertContact,
+  recordProviderRequests,
+  ProviderRequests,
+  TestEnv,
+} from '../test/env';
+import { handleTierEscalations } from '../cron/scheduler';
+import { sosRoutes } from './sos';
+
+let testEnv: TestEnv;
+let env: Env;
+let sent: ProviderRequests;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  env = testEnv.env;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+beforeEach(() => {
+  sent = recordProviderRequests();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+async function post(path: string, token: string, body?: object): Promise<Response> {
+  return sosRoutes.request(path, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  }, env);
+}
+
+async function getEvent(eventId: string): Promise<CheckinEvent> {
+  return (await env.DB.prepare('SELECT * FROM checkin_events WHERE event_id = ?').bind(eventId).first<CheckinEvent>())!;
+}
+
+// A user with one contact on each of the two default tiers
+async function insertSosUser(token: string, phones: [string, string]): Promise<string> {
+  const userId = await insertUser(env, { auth_token: token, name: 'Jo' });
+  await insertContact(env, userId, { phone: phones[0], level: 1 });
+  await insertContact(env, userId, { phone: phones[1], level: 2 });
+  return userId;
+}
+
+describe('POST /sos', () => {
+  it('creates the SOS alerted at the last tier and alerts every tier at once', async () => {
+    await insertSosUser('token-sos', ['+15551320001', '+15551320002']);
+
+    const res = await post('/sos', 'token-sos', { note: 'Car broke down on Route 9' });
+
+    expect(res.status).toBe(201);
+    const { event_id, contacts_notified } = await res.json<{ event_id: string; contacts_notified: number }>();
+    expect(contacts_notified).toBe(2);
+    expect(await getEvent(event_id)).toMatchObject({ kind: 'sos', status: 'alerted', escalation_level: 2, next_escalation_at: null });
+
+    for (const phone of ['+15551320001', '+15551320002']) {
+      const [sms] = sent.smsTo(phone);
+      expect(sms).toContain('URGENT: Jo has sent an SOS');
+      expect(sms).toContain('Their note: "Car broke down on Route 9"');
+    }
+
+    // Nothing left for the tier escalation phase
+    await handleTierEscalations(env);
+    expect(sent.smsTo('+15551320002')).toHaveLength(1);
+  });
+
+  it('returns the active SOS instead of alerting again', async () => {
+    await insertSosUser('token-sos-twice', ['+15551320011', '+15551320012']);
+
+    const first = await (await post('/sos', 'token-sos-twice')).json<{ event_id: string }>();
+    const second = await post('/sos', 'token-sos-twice');
+
+    expect(second.status).toBe(200);
+    expect(await second.json()).toMatchObject({ event_id: first.event_id, already_active: true });
+    expect(sent.smsTo('+15551320011')).toHaveLength(1);
+    expect(sent.smsTo('+15551320012')).toHaveLength(1);
+  });
+
+  it('refuses an SOS without contacts, or with an overlong note', async () => {
+    await insertUser(env, { auth_token: 'token-sos-alone' });
+    await insertSosUser('token-sos-note', ['+15551320021', '+15551320022']);
+
+    expect((await post('/sos', 'token-sos-alone')).status).toBe(400);
+    expect((await post('/sos', 'token-sos-note', { note: 'x'.repeat(281) })).status).toBe(400);
+    expect(sent.smsTo('+15551320021')).toHaveLength(0);
+  });
+});
+
+describe('POST /sos/:eventId/cancel', () => {
+  it('cancels the SOS and sends each alerted contact one all-clear', async () => {
+    await insertSosUser('token-sos-cancel', ['+15551320031', '+15551320032']);
+    const { event_id } = await (await post('/sos', 'token-sos-cancel')).json<{ event_id: string }>();
+
+    const res = await post(`/sos/${event_id}/cancel`, 'token-sos-cancel');
+    const again = await post(`/sos/${event_id}/cancel`, 'token-sos-cancel');
+
+    expect(await res.json()).toMatchObject({ status: 'cancelled', contacts_notified: 2 });
+    expect(again.status).toBe(200);
+    expect(await again.json()).toMatchObject({ status: 'cancelled' });
+    expect((await getEvent(event_id)).status).toBe('cancelled');
+
+    for (const phone of ['+15551320031', '+15551320032']) {
+      expect(sent.smsTo(phone)).toEqual([
+        expect.stringContaining('URGENT'),
+        expect.stringContaining('Jo has cancelled their SOS'),
+      ]);
+    }
+  });
+
+  it('lets a new SOS start once the previous one is cancelled', async () => {
+    await insertSosUser('token-sos-again', ['+15551320041', '+15551320042']);
+    const first = await (await post('/sos', 'token-sos-again')).json<{ event_id: string }>();
+    await post(`/sos/${first.event_id}/cancel`, 'token-sos-again');
+
+    const second = await post('/sos', 'token-sos-again');
+
+    expect(second.status).toBe(201);
+    expect((await second.json<{ event_id: string }>()).event_id).not.toBe(first.event_id);
+  });
+
+  it('does not find another user\'s SOS', async () => {
+    await insertSosUser('token-sos-owner', ['+15551320051', '+15551320052']);
+    await insertUser(env, { auth_token: 'token-sos-stranger' });
+    const { event_id } = await (await post('/sos', 'token-sos-owner')).json<{ event_id: string }>();
+
+    expect((await post(`/sos/${event_id}/cancel`, 'token-sos-stranger')).status).toBe(404);
+    expect((await getEvent(event_id)).status).toBe('alerted');
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Are You Safe? - SOS Routes
+ *
+ * Lets the user raise an alarm on demand. An SOS is a check-in event of
+ * kind 'sos' that starts out alerted: every tier of the escalation chain
+ * is alerted at once with an urgent message. Cancelling it sends the
+ * alerted contacts a follow-up that the user is safe.
+ */
+
+import { Hono } from 'hono';
+import { Env, User, CheckinEvent, SosRequest } from '../types';
+import { generateUUID, encrypt } from '../utils/crypto';
+import { triggerSos, loadEscalationChain } from '../cron/scheduler';
+import { transitionEvent } from '../services/lifecycle';
+import { notifyAlertedContacts } from '../services/notices';
+
+export const sosRoutes = new Hono<{ Bindings: Env }>();
+
+const SOS_NOTE_MAX_LENGTH = 280;
+
+// Helper to get authenticated user
+async function getAuthUser(c: any): Promise<User | null> {
+  const authHeader = c.req.header('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = authHeader.substring(7);
+  return await c.env.DB.prepare(
+    'SELECT * FROM users WHERE auth_token = ?'
+  ).bind(token).first<User>();
+}
+
+/**
+ * POST /api/sos
+ *
+ * Alert all contacts immediately.
+ *
+ * Request body:
+ * - note: optional message for contacts (max 280 characters)
+ *
+ * While an SOS is active, repeated calls return it instead of alerting again.
+ */
+sosRoutes.post('/sos', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const body = await c.req.json<SosRequest>().catch(() => ({} as SosRequest));
+    const nowStr = new Date().toISOString();
+
+    if (body.note !== undefined && (typeof body.note !== 'string' || body.note.length > SOS_NOTE_MAX_LENGTH)) {
+      return c.json({
+        error: 'Invalid note',
+        message: `note must be a string of at most ${SOS_NOTE_MAX_LENGTH} characters`
+      }, 400);
+    }
+
+    const active = await c.env.DB.prepare(`
+      SELECT * FROM checkin_events
+      WHERE user_id = ? AND kind = 'sos' AND status = 'alerted'
+      ORDER BY scheduled_time DESC
+      LIMIT 1
+    `).bind(user.user_id).first<CheckinEvent>();
+
+    if (active) {
+      return c.json({
+        success: true,
+        event_id: active.event_id,
+        kind: 'sos',
+        status: active.status,
+        escalated_at: active.escalated_at,
+        already_active: true
+      });
+    }
+
+    const contacts = await c.env.DB.prepare(
+      'SELECT COUNT(*) as count FROM contacts WHERE user_id = ?'
+    ).bind(user.user_id).first<{ count: number }>();
+
+    if (!contacts?.count) {
+      return c.json({
+        error: 'No contacts',
+        message: 'Add emergency contacts before using SOS'
+      }, 400);
+    }
+
+    // Created already alerted at the last tier: all tiers go out now and
+    // the escalation phases leave it alone
+    const chain = await loadEscalationChain(c.env.DB, user);
+    const eventId = generateUUID();
+    const noteEnc = body.note ? await encrypt(body.note.trim(), c.env.ENCRYPTION_KEY) : null;
+
+    await c.env.DB.prepare(`
+      INSERT INTO checkin_events (
+        event_id, user_id, kind, scheduled_time, deadline_time, status, note_enc,
+        escalated_at, escalation_level, last_escalated_at, created_at, updated_at
+      ) VALUES (?, ?, 'sos', ?, ?, 'alerted', ?, ?, ?, ?, ?, ?)
+    `).bind(
+      eventId,
+      user.user_id,
+      nowStr,
+      nowStr,
+      noteEnc,
+      nowStr,
+      chain.length,
+      nowStr,
+      nowStr,
+      nowStr
+    ).run();
+
+    await logEvent(c.env.DB, user.user_id, eventId, 'sos_triggered', nowStr, 'ok', {
+      has_note: !!noteEnc
+    });
+
+    const result = await triggerSos(c.env, eventId);
+
+    return c.json({
+      success: true,
+      event_id: eventId,
+      kind: 'sos',
+      status: 'alerted',
+      escalated_at: nowStr,
+      contacts_notified: result.contacts_notified
+    }, 201);
+
+  } catch (error) {
+    console.error('SOS error:', error);
+    return c.json({
+      error: 'SOS failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/sos/:eventId/cancel
+ *
+ * Cancel an SOS and tell the alerted contacts the user is safe.
+ */
+sosRoutes.post('/sos/:eventId/cancel', async (c) => {
+  const user = await getAuthUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const now = new Date().toISOString();
+
+    const event = await c.env.DB.prepare(
+      "SELECT * FROM checkin_events WHERE event_id = ? AND user_id = ? AND kind = 'sos'"
+    ).bind(c.req.param('eventId'), user.user_id).first<CheckinEvent>();
+
+    if (!event) {
+      return c.json({ error: 'SOS not found' }, 404);
+    }
+
+    // Idempotent
+    if (event.status === 'cancelled') {
+      return c.json({ success: true, event_id: event.event_id, status: 'cancelled' });
+    }
+
+    if (event.status !== 'alerted') {
+      return c.json({
+        error: 'Cannot cancel',
+        message: `SOS is already ${event.status}`
+      }, 400);
+    }
+
+    const cancelled = await transitionEvent(c.env.DB, event, 'cancelled', {
+      at: now,
+      fields: { next_escalation_at: null },
+      logType: 'sos_cancelled'
+    });
+    if (!cancelled) {
+      return c.json({ error: 'Cannot cancel', message: 'SOS changed, please retry' }, 409);
+    }
+
+    const contactsNotified = await notifyAlertedContacts(c.env, {
+      event_id: event.event_id,
+      kind: event.kind,
+      user_name: user.name
+    }, 'all_clear', { at: now });
+
+    await logEvent(c.env.DB, user.user_id, event.event_id, 'all_clear_sent', now, 'ok', {
+      contacts_count: contactsNotified
+    });
+
+    return c.json({
+      success: true,
+      event_id: event.event_id,
+      status: 'cancelled',
+      contacts_notified: contactsNotified
+    });
+
+  } catch (error) {
+    console.error('SOS cancel error:', error);
+    return c.json({
+      error: 'Failed to cancel SOS',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+// Helper function to log events
+async function logEvent(
+  db: D1Database,
+  userId: string,
+  eventId: string | null,
+  eventType: string,
+  eventTime: string,
+  result: string,
+  details?: object
+) {
+  const logId = generateUUID();
+  await db.prepare(`
+    INSERT INTO event_logs (log_id, user_id, event_id, event_type, event_time, result, details, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    logId,
+    userId,
+    eventId,
+    eventType,
+    eventTime,
+    result,
+    details ? JSON.stringify(details) : null,
+    new Date().toISOString()
+  ).run();
+}
@@ -0,0 +1,189 @@
+/**
+ * Are You Safe? - Alert Acknowledgment
+ *
+ * A contact who received an alert can acknowledge it: by replying to the
+ * SMS or WhatsApp message, with the push notification's action, through
+ * the signed link in the SMS, or by pressing 1 during an alert call. The
+ * first acknowledgment is recorded on the event and on the contact's
+ * deliveries, stops later escalation tiers, pending alert retries and
+ * queued channel-plan steps, and the other alerted contacts are told
+ * someone is on it.
+ * The event itself stays 'alerted' until the user confirms.
+ */
+
+import { Env, CheckinEvent } from '../types';
+import { generateUUID, signValue, verifySignedValue } from '../utils/crypto';
+import { notifyAlertedContacts } from './notices';
+
+export type AcknowledgmentChannel = 'sms' | 'push' | 'link' | 'voice' | 'whatsapp';
+
+const DEFAULT_API_BASE_URL = 'https://api.areyousafe.app';
+
+// Keeps acknowledgment link signatures apart from other signed values
+const ACK_SIGNATURE_PREFIX = 'alert-ack:';
+const SENDER_KEY_PREFIX = 'alert-sender:';
+
+export interface AcknowledgmentResult {
+  acknowledged: boolean; // This call recorded the acknowledgment
+  reason?: 'already_acknowledged' | 'not_alerted'; // Why it was not recorded
+  contacts_notified: number;
+}
+
+/**
+ * Public base URL of this API, for links and provider webhooks
+ */
+export function getApiBaseUrl(env: Env): string {
+  return (env.API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+}
+
+/**
+ * Build the signed acknowledgment link for an alert delivery
+ */
+export async function buildAckUrl(env: Env, deliveryId: string): Promise<string> {
+  const signature = await signValue(ACK_SIGNATURE_PREFIX + deliveryId, env.ENCRYPTION_KEY);
+  return `${getApiBaseUrl(env)}/api/alerts/ack/${deliveryId}?sig=${signature}`;
+}
+
+/**
+ * Check the signature of an acknowledgment link
+ */
+export async function verifyAckSignature(env: Env, deliveryId: string, signature: string): Promise<boolean> {
+  return verifySignedValue(ACK_SIGNATURE_PREFIX + deliveryId, signature, env.ENCRYPTION_KEY);
+}
+
+/**
+ * Lookup key for replies from a phone number
+ * Stored on SMS and WhatsApp alert deliveries (alert_deliveries.sender_key)
+ * so an inbound message can be matched without decrypting phone numbers.
+ */
+export async function getSenderKey(env: Env, phone: string): Promise<string> {
+  return signValue(SENDER_KEY_PREFIX + phone.replace(/[^\d+]/g, ''), env.ENCRYPTION_KEY);
+}
+
+/**
+ * Find the alerted contact an SMS or WhatsApp reply came from
+ * If the number belongs to several users' contact lists, the most recent
+ * alert wins.
+ */
+export async function findAlertBySender(
+  env: Env,
+  from: string
+): Promise<{ event_id: string; contact_id: string } | null> {
+  const senderKey = await getSenderKey(env, from);
+
+  // Uses idx_deliveries_sender_key
+  return env.DB.prepare(`
+    SELECT d.event_id, d.contact_id
+    FROM alert_deliveries d
+    JOIN checkin_events e ON d.event_id = e.event_id
+    WHERE d.sender_key = ?
+    AND d.channel IN ('sms', 'whatsapp') AND d.purpose = 'alert'
+    AND d.status IN ('sent', 'delivered')
+    AND e.status = 'alerted' AND e.acknowledged_at IS NULL
+    ORDER BY e.escalated_at DESC
+    LIMIT 1
+  `).bind(senderKey).first<{ event_id: string; contact_id: string }>();
+}
+
+/**
+ * Record a contact's acknowledgment of an alerted event
+ * Only the first acknowledgment counts, and only while the event is
+ * alerted (a late confirmation by the user resolves it).
+ */
+export async function acknowledgeAlert(
+  env: Env,
+  params: { eventId: string; contactId: string; via: AcknowledgmentChannel }
+): Promise<AcknowledgmentResult> {
+  const { eventId, contactId, via } = params;
+  const nowStr = new Date().toISOString();
+
+  // Claim the acknowledgment; clearing next_escalation_at halts later tiers
+  const claimed = await env.DB.prepare(`
+    UPDATE checkin_events
+    SET acknowledged_at = ?, acknowledged_by = ?, acknowledged_via = ?,
+        next_escalation_at = NULL, updated_at = ?
+    WHERE event_id = ? AND status = 'alerted' AND acknowledged_at IS NULL
+  `).bind(nowStr, contactId, via, nowStr, eventId).run();
+
+  if (!claimed.meta.changes) {
+    const current = await env.DB.prepare(
+      'SELECT acknowledged_at FROM checkin_events WHERE event_id = ?'
+    ).bind(eventId).first<{ acknowledged_at: string | null }>();
+
+    return {
+      acknowledged: false,
+      reason: current?.acknowledged_at ? 'already_acknowledged' : 'not_alerted',
+      contacts_notified: 0
+    };
+  }
+
+  // Record it against the contact's alert deliveries
+  await env.DB.prepare(`
+    UPDATE alert_deliveries
+    SET acknowledged_at = ?, updated_at = ?
+    WHERE event_id = ? AND contact_id = ? AND purpose = 'alert'
+  `).bind(nowStr, nowStr, eventId, contactId).run();
+
+  // Someone is on it - stop re-sending alerts that failed
+  await env.DB.prepare(`
+    UPDATE alert_deliveries
+    SET next_retry_at = NULL, updated_at = ?
+    WHERE event_id = ? AND purpose = 'alert' AND status = 'failed'
+  `).bind(nowStr, eventId).run();
+
+  // ...and drop fallback steps still waiting in contacts' channel plans
+  await env.DB.prepare(`
+    UPDATE alert_deliveries
+    SET status = 'cancelled', updated_at = ?
+    WHERE event_id = ? AND status = 'queued'
+  `).bind(nowStr, eventId).run();
+
+  const event = await env.DB.prepare(`
+    SELECT e.*, u.name as user_name
+    FROM checkin_events e
+    JOIN users u ON e.user_id = u.user_id
+    WHERE e.event_id = ?
+  `).bind(eventId).first<CheckinEvent & { user_name: string }>();
+
+  if (!event) {
+    throw new Error('Event not found');
+  }
+
+  await logEvent(env.DB, event.user_id, eventId, 'alert_acknowledged', nowStr, 'ok', {
+    contact_id: contactId,
+    via
+  });
+
+  const contactsNotified = await notifyAlertedContacts(env, event, 'ack_notice', {
+    exclude: contactId,
+    at: nowStr
+  });
+
+  return { acknowledged: true, contacts_notified: contactsNotified };
+}
+
+// Helper function to log events
+async function logEvent(
+  db: D1Database,
+  userId: string,
+  eventId: string | null,
+  eventType: string,
+  eventTime: string,
+  result: string,
+  details?: object
+) {
+  const logId = generateUUID();
+  await db.prepare(`
+    INSERT INTO event_logs (log_id, user_id, event_id, event_type, event_time, result, details, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    logId,
+    userId,
+    eventId,
+    eventType,
+    eventTime,
+    result,
+    details ? JSON.stringify(details) : null,
+    new Date().toISOString()
+  ).run();
+}
@@ -1,11 +1,14 @@
 /**
  * Are You Safe? - APNs Push Notification Service
  *
- * Sends push notifications via Apple Push Notification service (APNs)
+ * Sends push notifications via Apple Push Notification service (APNs),
+ * the 'push' notification channel
  * Uses JWT (token-based) authentication
  */
 
 import { Env } from '../types';
+import { resolveTimeZone } from '../utils/timezone';
+import { NotificationChannel, ChannelMessages, ChannelResult, registerChannel, sendOnChannel } from './channels';
 
 interface APNsPayload {
   aps: {
@@ -111,7 +114,7 @@ async function signES256(data: string, privateKeyPEM: string): Promise<string> {
 }
 
 /**
- * Send push notification via APNs
+ * Send push notification via the 'push' channel
  */
 export async function sendPushNotification(params: {
   deviceToken: string;
@@ -122,12 +125,34 @@ export async function sendPushNotification(params: {
   customData?: Record<string, string>;
   env: Env;
 }): Promise<APNsResult> {
-  const { deviceToken, title, body, category, threadId, customData, env } = params;
+  const { deviceToken, env, ...message } = params;
+
+  const result = await sendOnChannel(env, 'push', { to: deviceToken, ...message });
+  return {
+    success: result.success,
+    apnsId: result.ref,
+    statusCode: result.errorCode,
+    errorReason: result.errorMessage,
+  };
+}
+
+/**
+ * The 'push' channel: APNs
+ */
+export const apnsPushChannel: NotificationChannel<'push'> = {
+  name: 'push',
+  send: sendAPNs,
+};
+
+registerChannel(apnsPushChannel);
+
+async function sendAPNs(message: ChannelMessages['push'], env: Env): Promise<ChannelResult> {
+  const { to: deviceToken, title, body, category, threadId, customData } = message;
 
   // Check if APNs is configured
   if (!env.APNS_KEY_ID || !env.APNS_TEAM_ID || !env.APNS_PRIVATE_KEY || !env.APNS_BUNDLE_ID) {
     console.log('APNs not configured, skipping push notification');
-    return { success: false, errorReason: 'APNs not configured' };
+    return { success: false, errorMessage: 'APNs not configured' };
   }
 
   try {
@@ -172,17 +197,17 @@ export async function sendPushNotification(params: {
 
     if (response.ok) {
       console.log(`Push notification sent successfully: ${apnsId}`);
-      return { success: true, apnsId, statusCode: response.status };
+      return { success: true, ref: apnsId };
     } else {
       const errorBody = await response.json().catch(() => ({})) as { reason?: string };
       const errorReason = errorBody.reason || `HTTP ${response.status}`;
       console.error(`APNs error: ${errorReason}`);
-      return { success: false, apnsId, statusCode: response.status, errorReason };
+      return { success: false, ref: apnsId, errorCode: response.status, errorMessage: errorReason };
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error(`APNs request failed: ${errorMessage}`);
-    return { success: false, errorReason: errorMessage };
+    return { success: false, errorMessage };
   }
 }
 
@@ -213,6 +238,30 @@ export async function sendCheckinReminder(params: {
   });
 }
 
+/**
+ * Send early reminder ahead of an upcoming check-in
+ */
+export async function sendEarlyReminder(params: {
+  deviceToken: string;
+  minutesBefore: number;
+  scheduledTime: string;
+  env: Env;
+}): Promise<APNsResult> {
+  const { deviceToken, minutesBefore, scheduledTime, env } = params;
+
+  return sendPushNotification({
+    deviceToken,
+    title: 'Upcoming Check-in',
+    body: `Your safety check-in is in ${minutesBefore} minutes.`,
+    category: 'EARLY_REMINDER',
+    customData: {
+      type: 'early_reminder',
+      scheduled_time: scheduledTime,
+    },
+    env,
+  });
+}
+
 /**
  * Send reminder (halfway through grace window)
  */
@@ -236,6 +285,73 @@ export async function sendCheckinReminderFollowup(params: {
   });
 }
 
+/**
+ * Send "last chance" reminder shortly before the deadline
+ */
+export async function sendCheckinLastChance(params: {
+  deviceToken: string;
+  eventId: string;
+  minutesLeft: number;
+  env: Env;
+}): Promise<APNsResult> {
+  const { deviceToken, eventId, minutesLeft, env } = params;
+
+  return sendPushNotification({
+    deviceToken,
+    title: 'Last Chance: Are You Safe?',
+    body: `Your contacts will be notified in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'} unless you confirm you're safe.`,
+    category: 'CHECKIN_REMINDER',
+    customData: {
+      type: 'last_chance',
+      event_id: eventId,
+    },
+    env,
+  });
+}
+
+/**
+ * Tell the user that monitoring is active again after a pause expired
+ */
+export async function sendMonitoringResumed(params: {
+  deviceToken: string;
+  env: Env;
+}): Promise<APNsResult> {
+  const { deviceToken, env } = params;
+
+  return sendPushNotification({
+    deviceToken,
+    title: 'Monitoring Resumed',
+    body: 'Your pause has ended. Safety check-ins are active again.',
+    category: 'MONITORING_STATUS',
+    customData: {
+      type: 'monitoring_resumed',
+    },
+    env,
+  });
+}
+
+/**
+ * Tell a linked contact that a user's monitoring is active again
+ */
+export async function sendContactMonitoringResumed(params: {
+  deviceToken: string;
+  userName: string;
+  env: Env;
+}): Promise<APNsResult> {
+  const { deviceToken, userName, env } = params;
+
+  return sendPushNotification({
+    deviceToken,
+    title: 'Monitoring Resumed',
+    body: `${userName}'s safety check-ins are active again.`,
+    category: 'MONITORING_STATUS',
+    customData: {
+      type: 'contact_monitoring_resumed',
+    },
+    env,
+  });
+}
+
 /**
  * Send alert to contact who has the app installed
  */
@@ -243,13 +359,16 @@ export async function sendContactAlert(params: {
   deviceToken: string;
   userName: string;
   scheduledTime: string;
+  timeZone?: string;
+  eventId: string;
   env: Env;
 }): Promise<APNsResult> {
-  const { deviceToken, userName, scheduledTime, env } = params;
+  const { deviceToken, userName, scheduledTime, timeZone, eventId, env } = params;
 
   const time = new Date(scheduledTime).toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
+    timeZone: resolveTimeZone(timeZone),
   });
 
   return sendPushNotification({
@@ -259,6 +378,107 @@ export async function sendContactAlert(params: {
     category: 'CONTACT_ALERT',
     customData: {
       type: 'contact_alert',
+      event_id: eventId, // For the acknowledge action (POST /api/alerts/:eventId/ack)
+    },
+    env,
+  });
+}
+
+/**
+ * Alert a contact who has the app installed about an SOS
+ */
+export async function sendContactSosAlert(params: {
+  deviceToken: string;
+  userName: string;
+  note: string | null;
+  eventId: string;
+  env: Env;
+}): Promise<APNsResult> {
+  const { deviceToken, userName, note, eventId, env } = params;
+
+  return sendPushNotification({
+    deviceToken,
+    title: 'SOS',
+    body: `${userName} has sent an SOS and may need help now.${note ? ` "${note}"` : ''}`,
+    category: 'CONTACT_ALERT',
+    customData: {
+      type: 'contact_sos',
+      event_id: eventId,
+    },
+    env,
+  });
+}
+
+/**
+ * Alert a contact who has the app installed about a duress confirmation
+ */
+export async function sendContactDuressAlert(params: {
+  deviceToken: string;
+  userName: string;
+  eventId: string;
+  env: Env;
+}): Promise<APNsResult> {
+  const { deviceToken, userName, eventId, env } = params;
+
+  return sendPushNotification({
+    deviceToken,
+    title: 'Urgent Safety Alert',
+    body: `${userName} may be in danger and unable to speak freely. Check on them discreetly.`,
+    category: 'CONTACT_ALERT',
+    customData: {
+      type: 'contact_duress',
+      event_id: eventId,
+    },
+    env,
+  });
+}
+
+/**
+ * Tell an alerted contact that another contact acknowledged the alert
+ */
+export async function sendContactAlertAcknowledged(params: {
+  deviceToken: string;
+  userName: string;
+  eventId: string;
+  env: Env;
+}): Promise<APNsResult> {
+  const { deviceToken, userName, eventId, env } = params;
+
+  return sendPushNotification({
+    deviceToken,
+    title: 'Alert Acknowledged',
+    body: `Another of ${userName}'s contacts is checking on them.`,
+    category: 'CONTACT_ALERT',
+    customData: {
+      type: 'contact_alert_acknowledged',
+      event_id: eventId,
+    },
+    env,
+  });
+}
+
+/**
+ * Tell an alerted contact that the user confirmed they are safe
+ */
+export async function sendContactAllClear(params: {
+  deviceToken: string;
+  userName: string;
+  eventId: string;
+  sosCancelled?: boolean;
+  env: Env;
+}): Promise<APNsResult> {
+  const { deviceToken, userName, eventId, sosCancelled, env } = params;
+
+  return sendPushNotification({
+    deviceToken,
+    title: 'All Clear',
+    body: sosCancelled
+      ? `${userName} has cancelled their SOS and is safe.`
+      : `${userName} has checked in and is safe.`,
+    category: 'CONTACT_ALERT',
+    customData: {
+      type: 'contact_all_clear',
+      event_id: eventId,
     },
     env,
   });
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Env } from '../types';
+import {
+  registerChannel,
+  getChannel,
+  sendOnChannel,
+  getOutbox,
+  setOutboxFailure,
+  clearOutbox,
+  NotificationChannel,
+} from './channels';
+import { sendSMS } from './twilio';
+import { sendEmail } from './email';
+
+const OUTBOX_ENV = { NOTIFICATION_OUTBOX: 'true' } as Env;
+
+beforeEach(() => {
+  clearOutbox();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('channel registry', () => {
+  it('sends through the channel registered for a name', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const sms = getChannel({} as Env, 'sms');
+    const custom: NotificationChannel<'sms'> = {
+      name: 'sms',
+      send: vi.fn(async () => ({ success: true, ref: 'custom-1' })),
+    };
+
+    registerChannel(custom);
+    try {
+      const result = await sendSMS({ to: '+15551380001', body: 'Hello', env: {} as Env });
+
+      expect(result).toMatchObject({ success: true, sid: 'custom-1' });
+      expect(custom.send).toHaveBeenCalledWith({ to: '+15551380001', body: 'Hello' }, {});
+      expect(fetchSpy).not.toHaveBeenCalled();
+    } finally {
+      registerChannel(sms);
+    }
+  });
+});
+
+describe('outbox', () => {
+  it('records messages on every channel instead of sending them', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    const sms = await sendSMS({ to: '+15551380011', body: 'Alert', env: OUTBOX_ENV });
+    await sendEmail(OUTBOX_ENV, { to: 'kit@example.com', subject: 'Alert', text: 'Alert', html: '<p>Alert</p>' });
+
+    expect(sms).toMatchObject({ success: true, sid: 'outbox-1', status: 'queued' });
+    expect(getOutbox().map((entry) => [entry.channel, entry.message.to, entry.ref])).toEqual([
+      ['sms', '+15551380011', 'outbox-1'],
+      ['email', 'kit@example.com', 'outbox-2'],
+    ]);
+    expect(getOutbox('email')).toHaveLength(1);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('fails sends on a channel until told to stop', async () => {
+    setOutboxFailure('sms', 'Carrier unreachable');
+
+    expect(await sendOnChannel(OUTBOX_ENV, 'sms', { to: '+15551380021', body: 'Alert' }))
+      .toEqual({ success: false, errorMessage: 'Carrier unreachable' });
+    expect((await sendOnChannel(OUTBOX_ENV, 'voice', { to: '+15551380021', twiml: '<Response/>', statusCallbackUrl: 'https://x.test' })).success)
+      .toBe(true);
+
+    setOutboxFailure('sms', null);
+    expect((await sendOnChannel(OUTBOX_ENV, 'sms', { to: '+15551380021', body: 'Alert' })).success).toBe(true);
+    expect(getOutbox('sms')).toHaveLength(1);
+  });
+
+  it('is emptied by clearOutbox, along with simulated failures', async () => {
+    setOutboxFailure('push', 'Device gone');
+    await sendOnChannel(OUTBOX_ENV, 'sms', { to: '+15551380031', body: 'Alert' });
+
+    clearOutbox();
+
+    expect(getOutbox()).toEqual([]);
+    expect((await sendOnChannel(OUTBOX_ENV, 'push', { to: 'device', title: 'Hi', body: 'Hi' })).success).toBe(true);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Are You Safe? - Notification Channels
+ *
+ * Every outbound message goes through a NotificationChannel, looked up by
+ * the same name alert_deliveries.channel uses. Provider modules register
+ * their channel when loaded (twilio.ts: sms, whatsapp.ts: whatsapp,
+ * voice.ts: voice, apns.ts: push, email.ts: email), and their send
+ * helpers go through the registry instead of calling the provider API
+ * directly. A new channel plugs in the same way.
+ *
+ * With NOTIFICATION_OUTBOX = 'true' every channel is replaced by an
+ * in-memory outbox that records messages instead of sending them, so the
+ * whole escalation flow can run offline (see getOutbox, setOutboxFailure).
+ */
+
+import { Env } from '../types';
+
+// What each channel sends
+export interface ChannelMessages {
+  sms: { to: string; body: string };
+  whatsapp: { to: string; body?: string; contentSid?: string; contentVariables?: Record<string, string> };
+  voice: { to: string; twiml: string; statusCallbackUrl: string };
+  push: {
+    to: string; // Device token
+    title: string;
+    body: string;
+    category?: string;
+    threadId?: string;
+    customData?: Record<string, string>;
+  };
+  email: { to: string; subject: string; text: string; html: string };
+}
+
+export type ChannelName = keyof ChannelMessages;
+
+export const CHANNEL_NAMES: ChannelName[] = ['sms', 'whatsapp', 'voice', 'push', 'email'];
+
+export interface ChannelResult {
+  success: boolean;
+  ref?: string;        // Provider message ID (Twilio SID, apns-id, ...)
+  status?: string;     // Provider status
+  errorCode?: number;
+  errorMessage?: string;
+}
+
+export interface NotificationChannel<C extends ChannelName = ChannelName> {
+  name: C;
+  send(message: ChannelMessages[C], env: Env): Promise<ChannelResult>;
+}
+
+export interface OutboxEntry<C extends ChannelName = ChannelName> {
+  channel: C;
+  message: ChannelMessages[C];
+  ref: string;
+  sent_at: string;
+}
+
+// Registered channels, each keyed by the name of the messages it sends
+type ChannelRegistry<N extends ChannelName = ChannelName> = { [C in N]?: NotificationChannel<C> };
+
+const registry: ChannelRegistry = {};
+
+// Outbox state, per isolate
+const outbox: OutboxEntry[] = [];
+const outboxFailures = new Map<ChannelName, string>();
+
+/**
+ * Register the channel that sends messages for its name
+ * A later registration for the same name replaces the earlier one.
+ */
+export function registerChannel<C extends ChannelName>(channel: NotificationChannel<C>): void {
+  const entry: ChannelRegistry<C> = registry;
+  entry[channel.name] = channel;
+}
+
+/**
+ * Check if messages go to the in-memory outbox instead of providers
+ */
+export function isOutboxEnabled(env: Env): boolean {
+  return env.NOTIFICATION_OUTBOX === 'true';
+}
+
+/**
+ * Get the channel that sends messages for a name
+ */
+export function getChannel<C extends ChannelName>(env: Env, name: C): NotificationChannel<C> {
+  if (isOutboxEnabled(env)) {
+    return createOutboxChannel(name);
+  }
+
+  const channel = registry[name];
+  if (!channel) {
+    throw new Error(`No notification channel registered for ${name}`);
+  }
+  return channel;
+}
+
+/**
+ * Send a message on a channel
+ */
+export async function sendOnChannel<C extends ChannelName>(
+  env: Env,
+  name: C,
+  message: ChannelMessages[C]
+): Promise<ChannelResult> {
+  return getChannel(env, name).send(message, env);
+}
+
+/**
+ * Channel that records messages in the outbox
+ */
+export function createOutboxChannel<C extends ChannelName>(name: C): NotificationChannel<C> {
+  return {
+    name,
+    async send(message) {
+      const failure = outboxFailures.get(name);
+      if (failure) {
+        return { success: false, errorMessage: failure };
+      }
+
+      const ref = `outbox-${outbox.length + 1}`;
+      outbox.push({ channel: name, message, ref, sent_at: new Date().toISOString() });
+      console.log(`Outbox: ${name} message to ${message.to} (${ref})`);
+      return { success: true, ref, status: 'queued' };
+    },
+  };
+}
+
+/**
+ * Messages recorded in the outbox, oldest first
+ */
+export function getOutbox(channel?: ChannelName): OutboxEntry[] {
+  return outbox.filter((entry) => !channel || entry.channel === channel);
+}
+
+/**
+ * Make the outbox fail every send on a channel (null to stop)
+ */
+export function setOutboxFailure(channel: ChannelName, errorMessage: string | null): void {
+  if (errorMessage) {
+    outboxFailures.set(channel, errorMessage);
+  } else {
+    outboxFailures.delete(channel);
+  }
+}
+
+/**
+ * Empty the outbox and clear simulated failures
+ */
+export function clearOutbox(): void {
+  outbox.length = 0;
+  outboxFailures.clear();
+}
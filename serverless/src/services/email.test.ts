@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Env } from '../types';
+import {
+  getEmailProvider,
+  sendEmail,
+  renderEmail,
+  generateAlertEmailSubject,
+  getCapturedEmails,
+  clearCapturedEmails,
+} from './email';
+
+beforeEach(() => {
+  clearCapturedEmails();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const HTTP_SETTINGS = {
+  EMAIL_PROVIDER: 'http',
+  EMAIL_API_URL: 'https://mail.example.com/send',
+  EMAIL_API_KEY: 'key-123',
+  EMAIL_FROM: 'alerts@areyousafe.app',
+};
+
+describe('generateAlertEmailSubject', () => {
+  it('names the kind of alert', () => {
+    expect(generateAlertEmailSubject('Ana', 'scheduled')).toBe('Safety alert: Ana missed a check-in');
+    expect(generateAlertEmailSubject('Ana', 'timer')).toBe("Safety alert: Ana hasn't checked in");
+    expect(generateAlertEmailSubject('Ana', 'sos')).toBe('SOS from Ana');
+    expect(generateAlertEmailSubject('Ana', 'duress')).toBe('Urgent: check on Ana');
+  });
+});
+
+describe('renderEmail', () => {
+  it('builds text and escaped HTML parts with the action link', () => {
+    const email = renderEmail({
+      to: 'kit@example.com',
+      subject: 'Safety alert: <Ana>',
+      text: 'Ana & Bo missed a check-in.\n\nPlease call them.',
+      action: { url: 'https://api.example.com/ack?a=1&sig=2', label: "I'm checking on them" },
+    });
+
+    expect(email.text).toBe("Ana & Bo missed a check-in.\n\nPlease call them.\n\nI'm checking on them: https://api.example.com/ack?a=1&sig=2");
+    expect(email.html).toContain('<title>Safety alert: &lt;Ana&gt;</title>');
+    expect(email.html).toContain('<p>Ana &amp; Bo missed a check-in.</p>');
+    expect(email.html).toContain('<p>Please call them.</p>');
+    expect(email.html).toContain('href="https://api.example.com/ack?a=1&amp;sig=2"');
+    expect(email.html).toContain('I&#39;m checking on them</a>');
+  });
+});
+
+describe('getEmailProvider', () => {
+  it('is off unless a complete provider is configured', () => {
+    expect(getEmailProvider({} as Env)).toBeNull();
+    expect(getEmailProvider({ ...HTTP_SETTINGS, EMAIL_API_KEY: undefined } as Env)).toBeNull();
+    expect(getEmailProvider(HTTP_SETTINGS as Env)?.name).toBe('http');
+    expect(getEmailProvider({ EMAIL_PROVIDER: 'capture' } as Env)?.name).toBe('capture');
+  });
+});
+
+describe('sendEmail', () => {
+  const message = { to: 'kit@example.com', subject: 'Hi', text: 'Hello', html: '<p>Hello</p>' };
+
+  it('posts the message to the mail API', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ id: 'msg-1' }));
+
+    expect(await sendEmail(HTTP_SETTINGS as Env, message)).toEqual({ success: true, id: 'msg-1' });
+
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('https://mail.example.com/send');
+    expect((init!.headers as Record<string, string>).Authorization).toBe('Bearer key-123');
+    expect(JSON.parse(init!.body as string)).toEqual({ from: 'alerts@areyousafe.app', ...message });
+  });
+
+  it('reports mail API errors', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ message: 'Invalid recipient' }, { status: 422 }));
+
+    expect(await sendEmail(HTTP_SETTINGS as Env, message)).toEqual({ success: false, errorMessage: 'Invalid recipient' });
+  });
+
+  it('captures messages with the capture provider', async () => {
+    await sendEmail({ EMAIL_PROVIDER: 'capture' } as Env, message);
+
+    expect(getCapturedEmails()).toEqual([message]);
+  });
+
+  it('fails while email is not enabled', async () => {
+    expect(await sendEmail({} as Env, message)).toEqual({ success: false, errorMessage: 'Email notifications are not enabled' });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Are You Safe? - Email Service
+ *
+ * The 'email' notification channel. Sends email through a pluggable
+ * provider, chosen by EMAIL_PROVIDER:
+ * - 'http': a JSON mail API (EMAIL_API_URL, EMAIL_API_KEY, EMAIL_FROM),
+ *   posting { from, to, subject, text, html } with a Bearer key
+ * - 'capture': keeps messages in memory instead of sending them, for
+ *   local development and tests (see getCapturedEmails)
+ * Email is disabled while EMAIL_PROVIDER is unset.
+ */
+
+import { Env, CheckinKind } from '../types';
+import { NotificationChannel, registerChannel, sendOnChannel, isOutboxEnabled } from './channels';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailResult {
+  success: boolean;
+  id?: string;
+  errorMessage?: string;
+}
+
+export interface EmailProvider {
+  name: string;
+  send(message: EmailMessage): Promise<EmailResult>;
+}
+
+// Messages kept by the capture provider, oldest first
+const capturedEmails: EmailMessage[] = [];
+
+/**
+ * Provider for a JSON mail API
+ */
+export function createHttpEmailProvider(config: { url: string; apiKey: string; from: string }): EmailProvider {
+  return {
+    name: 'http',
+    async send(message) {
+      try {
+        const response = await fetch(config.url, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${config.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            from: config.from,
+            to: message.to,
+            subject: message.subject,
+            text: message.text,
+            html: message.html,
+          }),
+        });
+
+        const data = await response.json().catch(() => ({})) as { id?: string; message?: string };
+
+        if (response.ok) {
+          return { success: true, id: data.id };
+        }
+        return {
+          success: false,
+          errorMessage: data.message || `Mail API error ${response.status}`,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          errorMessage: error instanceof Error ? error.message : 'Network error',
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Provider that captures messages instead of sending them
+ */
+export function createCaptureEmailProvider(): EmailProvider {
+  return {
+    name: 'capture',
+    async send(message) {
+      capturedEmails.push(message);
+      console.log(`Captured email to ${message.to}: ${message.subject}`);
+      return { success: true, id: `capture-${capturedEmails.length}` };
+    },
+  };
+}
+
+/**
+ * Messages captured so far by the capture provider
+ */
+export function getCapturedEmails(): EmailMessage[] {
+  return [...capturedEmails];
+}
+
+/**
+ * Forget captured messages
+ */
+export function clearCapturedEmails(): void {
+  capturedEmails.length = 0;
+}
+
+/**
+ * Get the configured email provider, or null if email is not enabled
+ */
+export function getEmailProvider(env: Env): EmailProvider | null {
+  switch (env.EMAIL_PROVIDER) {
+    case 'http':
+      if (!env.EMAIL_API_URL || !env.EMAIL_API_KEY || !env.EMAIL_FROM) {
+        return null;
+      }
+      return createHttpEmailProvider({ url: env.EMAIL_API_URL, apiKey: env.EMAIL_API_KEY, from: env.EMAIL_FROM });
+    case 'capture':
+      return createCaptureEmailProvider();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check if email is configured and available
+ */
+export function isEmailEnabled(env: Env): boolean {
+  return isOutboxEnabled(env) || getEmailProvider(env) !== null;
+}
+
+/**
+ * Send an email via the 'email' channel
+ */
+export async function sendEmail(env: Env, message: EmailMessage): Promise<EmailResult> {
+  const result = await sendOnChannel(env, 'email', message);
+  return { success: result.success, id: result.ref, errorMessage: result.errorMessage };
+}
+
+/**
+ * The 'email' channel: the configured email provider
+ */
+export const emailChannel: NotificationChannel<'email'> = {
+  name: 'email',
+  async send(message, env) {
+    const provider = getEmailProvider(env);
+    if (!provider) {
+      return { success: false, errorMessage: 'Email notifications are not enabled' };
+    }
+    const result = await provider.send(message);
+    return { success: result.success, ref: result.id, errorMessage: result.errorMessage };
+  },
+};
+
+registerChannel(emailChannel);
+
+/**
+ * Subject line for an alert email
+ */
+export function generateAlertEmailSubject(userName: string, kind: CheckinKind): string {
+  switch (kind) {
+    case 'sos':
+      return `SOS from ${userName}`;
+    case 'duress':
+      return `Urgent: check on ${userName}`;
+    case 'timer':
+      return `Safety alert: ${userName} hasn't checked in`;
+    default:
+      return `Safety alert: ${userName} missed a check-in`;
+  }
+}
+
+/**
+ * Render an email from plain text
+ * The text is used as-is for the plain-text part and split into
+ * paragraphs for the HTML part; an optional action adds a link to both.
+ */
+export function renderEmail(params: {
+  to: string;
+  subject: string;
+  text: string;
+  action?: { url: string; label: string };
+}): EmailMessage {
+  const { to, subject, text, action } = params;
+
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br />')}</p>`)
+    .join('\n    ');
+
+  const button = action
+    ? `<p><a href="${escapeHtml(action.url)}" style="display: inline-block; padding: 12px 24px; color: #fff; background: #4d2fd2; border-radius: 10px; text-decoration: none; font-weight: 600;">${escapeHtml(action.label)}</a></p>`
+    : '';
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin: 0; background: #f7f7fb; font-family: system-ui, -apple-system, sans-serif; color: #1b1b1f;">
+  <div style="max-width: 520px; margin: 0 auto; padding: 32px 24px;">
+    <h2>${escapeHtml(subject)}</h2>
+    ${paragraphs}
+    ${button}
+    <p style="color: #6b6b76; font-size: 13px;">This is an automated message from Are You Safe?.</p>
+  </div>
+</body>
+</html>`;
+
+  return {
+    to,
+    subject,
+    text: action ? `${text}\n\n${action.label}: ${action.url}` : text,
+    html,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
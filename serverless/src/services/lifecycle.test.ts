@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Env, CheckinEvent } from '../types';
+import { createTestEnv, insertUser, insertEvent, TestEnv } from '../test/env';
+import { canTransition, transitionEvent, transitionUserEvents } from './lifecycle';
+
+let testEnv: TestEnv;
+let env: Env;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  env = testEnv.env;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+async function getEvent(eventId: string): Promise<CheckinEvent> {
+  return (await env.DB.prepare('SELECT * FROM checkin_events WHERE event_id = ?').bind(eventId).first<CheckinEvent>())!;
+}
+
+async function countLogs(eventId: string): Promise<number> {
+  const row = await env.DB.prepare(
+    'SELECT COUNT(*) as count FROM event_logs WHERE event_id = ?'
+  ).bind(eventId).first<{ count: number }>();
+  return row!.count;
+}
+
+async function insertPending(userId: string, fields: Record<string, unknown> = {}): Promise<string> {
+  return insertEvent(env, userId, {
+    scheduled_time: '2026-03-02T09:00:00.000Z',
+    deadline_time: '2026-03-02T09:10:00.000Z',
+    status: 'pending',
+    ...fields,
+  });
+}
+
+describe('canTransition', () => {
+  it('allows the documented transitions only', () => {
+    expect(canTransition('pending', 'snoozed')).toBe(true);
+    expect(canTransition('snoozed', 'alerted')).toBe(true);
+    expect(canTransition('alerted', 'confirmed')).toBe(true);
+    expect(canTransition('paused', 'pending')).toBe(true);
+    expect(canTransition('confirmed', 'alerted')).toBe(false);
+    expect(canTransition('alerted', 'pending')).toBe(false);
+    expect(canTransition('cancelled', 'confirmed')).toBe(false);
+  });
+});
+
+describe('transitionEvent', () => {
+  it('applies the entry effects and logs the transition', async () => {
+    const userId = await insertUser(env);
+    const eventId = await insertPending(userId, { next_reminder_at: '2026-03-02T09:05:00.000Z' });
+
+    const moved = await transitionEvent(env.DB, { event_id: eventId, user_id: userId, status: 'pending' }, 'alerted', {
+      at: '2026-03-02T09:10:30.000Z',
+    });
+
+    expect(moved).toBe(true);
+    const event = await getEvent(eventId);
+    expect(event).toMatchObject({
+      status: 'alerted',
+      escalated_at: '2026-03-02T09:10:30.000Z',
+      escalation_level: 1,
+      next_reminder_at: null,
+    });
+    const log = await env.DB.prepare('SELECT event_type, details FROM event_logs WHERE event_id = ?')
+      .bind(eventId).first<{ event_type: string; details: string }>();
+    expect(log!.event_type).toBe('checkin_escalated');
+    expect(JSON.parse(log!.details)).toEqual({ from: 'pending', to: 'alerted' });
+  });
+
+  it('rejects an illegal transition and leaves the row unchanged', async () => {
+    const userId = await insertUser(env);
+    const eventId = await insertPending(userId, { status: 'confirmed', confirmed_at: '2026-03-02T09:02:00.000Z' });
+    const before = await getEvent(eventId);
+
+    const moved = await transitionEvent(env.DB, { event_id: eventId, user_id: userId, status: 'confirmed' }, 'alerted');
+
+    expect(moved).toBe(false);
+    expect(await getEvent(eventId)).toEqual(before);
+    expect(await countLogs(eventId)).toBe(0);
+  });
+
+  it('loses the compare-and-set to a concurrent writer without logging', async () => {
+    const userId = await insertUser(env);
+    const eventId = await insertPending(userId);
+    const stale = { event_id: eventId, user_id: userId, status: 'pending' as const };
+
+    // Both writers read the event while it was pending
+    const [confirmed, alerted] = await Promise.all([
+      transitionEvent(env.DB, stale, 'confirmed'),
+      transitionEvent(env.DB, stale, 'alerted'),
+    ]);
+
+    expect([confirmed, alerted].filter(Boolean)).toHaveLength(1);
+    expect((await getEvent(eventId)).status).toBe(confirmed ? 'confirmed' : 'alerted');
+    expect(await countLogs(eventId)).toBe(1);
+  });
+});
+
+describe('transitionUserEvents', () => {
+  it('moves only the matching events, each with its own log', async () => {
+    const userId = await insertUser(env);
+    const openId = await insertPending(userId, {
+      scheduled_time: '2026-03-02T11:50:00.000Z',
+      deadline_time: '2026-03-02T12:00:00.000Z',
+      status: 'paused',
+    });
+    const staleId = await insertPending(userId, { status: 'paused' });
+    const confirmedId = await insertPending(userId, {
+      scheduled_time: '2026-03-02T11:00:00.000Z',
+      deadline_time: '2026-03-02T11:10:00.000Z',
+      status: 'confirmed',
+    });
+
+    const moved = await transitionUserEvents(env.DB, userId, ['paused'], 'pending', {
+      deadlineAfter: '2026-03-02T10:00:00.000Z',
+    });
+
+    expect(moved).toBe(1);
+    expect((await getEvent(openId)).status).toBe('pending');
+    expect((await getEvent(staleId)).status).toBe('paused');
+    expect((await getEvent(confirmedId)).status).toBe('confirmed');
+    expect(await countLogs(openId)).toBe(1);
+  });
+});
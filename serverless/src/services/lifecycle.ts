@@ -0,0 +1,182 @@
+/**
+ * Are You Safe? - Check-in Event Lifecycle
+ *
+ * The single place where a check-in event changes status. Defines the
+ * legal transitions and the column side effects of entering each status,
+ * applies the change as a compare-and-set on the current status, and
+ * writes one event_logs entry per transition.
+ *
+ *   pending ──> snoozed ──> confirmed
+ *      │           │
+ *      ├───────────┴──> alerted ──> confirmed (late)
+ *      │                     └──> cancelled      (SOS cancelled by the user)
+ *      ├──> missed ──> confirmed (late)   (deadline passed, nobody to alert)
+ *      ├──> paused ──> pending            (pause started / ended)
+ *      └──> cancelled                     (timer cancelled by the user, or
+ *                                          deadline inside a pause window)
+ */
+
+import { CheckinStatus } from '../types';
+import { generateUUID } from '../utils/crypto';
+
+// Statuses an event may move to from each status
+const TRANSITIONS: Record<CheckinStatus, CheckinStatus[]> = {
+  pending: ['snoozed', 'confirmed', 'alerted', 'missed', 'paused', 'cancelled'],
+  snoozed: ['snoozed', 'confirmed', 'alerted', 'missed', 'paused', 'cancelled'],
+  alerted: ['confirmed', 'cancelled'],
+  missed: ['confirmed'],
+  paused: ['pending', 'confirmed', 'cancelled'],
+  confirmed: [],
+  cancelled: [],
+};
+
+// Statuses in which the user is still expected to respond
+export const OPEN_STATUSES: CheckinStatus[] = ['pending', 'snoozed'];
+
+// Default event_logs type for entering each status
+const LOG_TYPES: Record<CheckinStatus, string> = {
+  pending: 'checkin_resumed',
+  snoozed: 'checkin_snoozed',
+  confirmed: 'checkin_confirmed',
+  alerted: 'checkin_escalated',
+  missed: 'checkin_missed',
+  paused: 'checkin_paused',
+  cancelled: 'checkin_cancelled',
+};
+
+export interface TransitionOptions {
+  at?: string;                     // Transition time (defaults to now)
+  fields?: Record<string, unknown>; // Extra columns to set alongside the status
+  logType?: string;                // Overrides the default event_logs type
+  logResult?: string;              // event_logs result (defaults to 'ok')
+  details?: object;                // Extra event_logs details
+}
+
+interface TransitionSubject {
+  event_id: string;
+  user_id: string;
+  status: CheckinStatus;
+}
+
+/**
+ * Check whether an event may move from one status to another
+ */
+export function canTransition(from: CheckinStatus, to: CheckinStatus): boolean {
+  return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Columns set whenever an event enters a status
+ * Leaving the open statuses stops the in-grace reminder ladder.
+ */
+function entryEffects(to: CheckinStatus, at: string): Record<string, unknown> {
+  switch (to) {
+    case 'confirmed':
+      return { confirmed_at: at, next_reminder_at: null };
+    case 'alerted':
+      return { escalated_at: at, escalation_level: 1, next_reminder_at: null };
+    case 'missed':
+    case 'cancelled':
+      return { next_reminder_at: null };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Move an event to a new status
+ * The update only applies if the event is still in the status it was read
+ * in, so concurrent routes and cron runs cannot both act on it.
+ * Illegal transitions are rejected without touching the row.
+ * @returns true if this call made the transition, false if the transition
+ *          is not allowed or the event had already changed status
+ */
+export async function transitionEvent(
+  db: D1Database,
+  event: TransitionSubject,
+  to: CheckinStatus,
+  options: TransitionOptions = {}
+): Promise<boolean> {
+  const from = event.status;
+  if (!canTransition(from, to)) {
+    console.error(`Illegal check-in transition ${from} -> ${to} for event ${event.event_id}`);
+    return false;
+  }
+
+  const at = options.at || new Date().toISOString();
+  const fields = { ...entryEffects(to, at), ...options.fields };
+  const columns = Object.keys(fields);
+
+  const result = await db.prepare(`
+    UPDATE checkin_events
+    SET status = ?, ${columns.map((column) => `${column} = ?, `).join('')}updated_at = ?
+    WHERE event_id = ? AND status = ?
+  `).bind(to, ...Object.values(fields), new Date().toISOString(), event.event_id, from).run();
+
+  if (!result.meta.changes) {
+    return false;
+  }
+
+  await logEvent(db, event.user_id, event.event_id, options.logType || LOG_TYPES[to], at, options.logResult || 'ok', {
+    from,
+    to,
+    ...options.details
+  });
+
+  return true;
+}
+
+/**
+ * Move all of a user's events in the given statuses to a new status
+ * Each event is transitioned (and logged) individually.
+ * @returns the number of events moved
+ */
+export async function transitionUserEvents(
+  db: D1Database,
+  userId: string,
+  from: CheckinStatus[],
+  to: CheckinStatus,
+  options: TransitionOptions & { deadlineAfter?: string } = {}
+): Promise<number> {
+  const { deadlineAfter, ...transitionOptions } = options;
+
+  const events = await db.prepare(`
+    SELECT event_id, user_id, status FROM checkin_events
+    WHERE user_id = ? AND status IN (${from.map(() => '?').join(', ')})
+    ${deadlineAfter ? 'AND deadline_time > ?' : ''}
+  `).bind(userId, ...from, ...(deadlineAfter ? [deadlineAfter] : [])).all<TransitionSubject>();
+
+  let moved = 0;
+  for (const event of events.results) {
+    if (await transitionEvent(db, event, to, transitionOptions)) {
+      moved++;
+    }
+  }
+  return moved;
+}
+
+// Helper function to log events
+async function logEvent(
+  db: D1Database,
+  userId: string,
+  eventId: string | null,
+  eventType: string,
+  eventTime: string,
+  result: string,
+  details?: object
+) {
+  const logId = generateUUID();
+  await db.prepare(`
+    INSERT INTO event_logs (log_id, user_id, event_id, event_type, event_time, result, details, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    logId,
+    userId,
+    eventId,
+    eventType,
+    eventTime,
+    result,
+    details ? JSON.stringify(details) : null,
+    new Date().toISOString()
+  ).run();
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { Env, AlertDelivery } from '../types';
+import {
+  createTestEnv,
+  insertUser,
+  insertContact,
+  insertEvent,
+  insertDelivery,
+  recordProviderRequests,
+  ProviderRequests,
+  TestEnv,
+} from '../test/env';
+import { encrypt } from '../utils/crypto';
+import { handleRetries } from '../cron/scheduler';
+import { clearCapturedEmails, getCapturedEmails } from './email';
+import { notifyAlertedContacts, sendNoticeEmail } from './notices';
+
+let testEnv: TestEnv;
+let env: Env;
+let sent: ProviderRequests;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  env = testEnv.env;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+beforeEach(() => {
+  sent = recordProviderRequests();
+  clearCapturedEmails();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// An event that was alerted and has just been confirmed late
+function insertConfirmedEvent(userId: string): Promise<string> {
+  return insertEvent(env, userId, {
+    scheduled_time: '2026-03-02T11:30:00.000Z',
+    deadline_time: '2026-03-02T11:40:00.000Z',
+    status: 'confirmed',
+  });
+}
+
+async function getNotices(eventId: string): Promise<AlertDelivery[]> {
+  const result = await env.DB.prepare(
+    "SELECT * FROM alert_deliveries WHERE event_id = ? AND purpose = 'all_clear' ORDER BY channel"
+  ).bind(eventId).all<AlertDelivery>();
+  return result.results;
+}
+
+describe('notifyAlertedContacts (all_clear)', () => {
+  it('tells each alerted contact once, on the channel they were reached on', async () => {
+    const userId = await insertUser(env, { name: 'Sam' });
+    const eventId = await insertConfirmedEvent(userId);
+
+    const texted = await insertContact(env, userId, { phone: '+15551240001' });
+    const pushed = await insertContact(env, userId, { phone: '+15551240003', has_app: 1, apns_token: 'device-all-clear' });
+    const unreached = await insertContact(env, userId, { phone: '+15551240004' });
+    await insertDelivery(env, eventId, texted, { channel: 'sms', status: 'delivered' });
+    await insertDelivery(env, eventId, pushed, { channel: 'push', status: 'sent' });
+    await insertDelivery(env, eventId, unreached, { channel: 'sms', status: 'failed' });
+
+    const event = { event_id: eventId, kind: 'scheduled' as const, user_name: 'Sam' };
+    const [first, second] = await Promise.all([
+      notifyAlertedContacts(env, event, 'all_clear'),
+      notifyAlertedContacts(env, event, 'all_clear'),
+    ]);
+    expect(first + second).toBe(2);
+
+    expect(sent.smsTo('+15551240001')).toEqual([expect.stringMatching(/All clear: Sam has checked in/)]);
+    expect(sent.smsTo('+15551240003')).toHaveLength(0);
+    expect(sent.smsTo('+15551240004')).toHaveLength(0);
+    expect(sent.pushesTo('device-all-clear')).toHaveLength(1);
+
+    expect((await getNotices(eventId)).map((notice) => [notice.channel, notice.status])).toEqual([
+      ['push', 'sent'], ['sms', 'sent'],
+    ]);
+  });
+
+  it('sends the all-clear over WhatsApp to contacts messaged there, and by SMS to those who were called', async () => {
+    const whatsAppEnv = { ...env, TWILIO_WHATSAPP_NUMBER: '+15550000001' };
+    const userId = await insertUser(env, { name: 'Sam' });
+    const eventId = await insertConfirmedEvent(userId);
+    const messaged = await insertContact(env, userId, { phone: '+15551240031' });
+    const called = await insertContact(env, userId, { phone: '+15551240032' });
+    await insertDelivery(env, eventId, messaged, { channel: 'whatsapp', status: 'sent' });
+    await insertDelivery(env, eventId, called, { channel: 'voice', status: 'sent' });
+
+    expect(await notifyAlertedContacts(whatsAppEnv, { event_id: eventId, kind: 'scheduled' as const, user_name: 'Sam' }, 'all_clear')).toBe(2);
+
+    expect(sent.whatsAppTo('+15551240031').map((message) => message.Body)).toEqual([
+      expect.stringMatching(/All clear: Sam has checked in/),
+    ]);
+    expect(sent.smsTo('+15551240031')).toHaveLength(0);
+    expect(sent.smsTo('+15551240032')).toEqual([expect.stringMatching(/All clear: Sam has checked in/)]);
+    expect((await getNotices(eventId)).map((notice) => [notice.channel, notice.status])).toEqual([
+      ['sms', 'sent'], ['whatsapp', 'sent'],
+    ]);
+  });
+
+  it('retries a failed WhatsApp all-clear over WhatsApp', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-02T12:00:00Z'));
+    const whatsAppEnv = { ...env, TWILIO_WHATSAPP_NUMBER: '+15550000001' };
+    const userId = await insertUser(env, { name: 'Sam' });
+    const eventId = await insertConfirmedEvent(userId);
+    const contactId = await insertContact(env, userId, { phone: '+15551240041' });
+    await insertDelivery(env, eventId, contactId, { channel: 'whatsapp', status: 'sent' });
+
+    sent.failHost('api.twilio.com', 500);
+    await notifyAlertedContacts(whatsAppEnv, { event_id: eventId, kind: 'scheduled' as const, user_name: 'Sam' }, 'all_clear');
+    expect((await getNotices(eventId))[0]).toMatchObject({ channel: 'whatsapp', status: 'failed' });
+
+    sent.failHost('api.twilio.com', null);
+    vi.setSystemTime(new Date('2026-03-02T12:01:00Z'));
+    await handleRetries(whatsAppEnv);
+
+    expect(sent.whatsAppTo('+15551240041')).toHaveLength(1);
+    expect(sent.smsTo('+15551240041')).toHaveLength(0);
+    expect((await getNotices(eventId))[0].status).toBe('sent');
+  });
+
+  it('queues a failed all-clear SMS for retry', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-02T12:00:00Z'));
+    const userId = await insertUser(env, { name: 'Sam' });
+    const eventId = await insertConfirmedEvent(userId);
+    const contactId = await insertContact(env, userId, { phone: '+15551240011' });
+    await insertDelivery(env, eventId, contactId, { channel: 'sms', status: 'sent' });
+
+    sent.failHost('api.twilio.com', 500);
+    expect(await notifyAlertedContacts(env, { event_id: eventId, kind: 'scheduled' as const, user_name: 'Sam' }, 'all_clear')).toBe(0);
+
+    const [notice] = await getNotices(eventId);
+    expect(notice).toMatchObject({ status: 'failed', next_retry_at: '2026-03-02T12:01:00.000Z' });
+
+    // The retry goes out once Twilio recovers, even though the event is no longer alerted
+    sent.failHost('api.twilio.com', null);
+    vi.setSystemTime(new Date('2026-03-02T12:01:00Z'));
+    await handleRetries(env);
+
+    expect(sent.smsTo('+15551240011')).toEqual([expect.stringMatching(/All clear: Sam has checked in/)]);
+    expect((await getNotices(eventId))[0].status).toBe('sent');
+  });
+});
+
+describe('sendNoticeEmail', () => {
+  it('words the all-clear for the kind of event', async () => {
+    const emailEnv = { ...env, EMAIL_PROVIDER: 'capture' };
+    const emailEnc = await encrypt('kit@example.com', env.ENCRYPTION_KEY);
+
+    await sendNoticeEmail(emailEnv, emailEnc, 'all_clear', 'Sam', 'scheduled');
+    await sendNoticeEmail(emailEnv, emailEnc, 'all_clear', 'Sam', 'sos');
+    await sendNoticeEmail(emailEnv, emailEnc, 'ack_notice', 'Sam', 'scheduled');
+
+    const [checkedIn, sosCancelled, ackNotice] = getCapturedEmails();
+    expect(checkedIn).toMatchObject({ to: 'kit@example.com', subject: 'Sam is safe' });
+    expect(checkedIn.text).toMatch(/All clear: Sam has checked in/);
+    expect(sosCancelled.subject).toBe('Sam is safe');
+    expect(sosCancelled.text).toContain('Sam has cancelled their SOS');
+    expect(ackNotice.subject).toBe('Someone is checking on Sam');
+  });
+
+  it('sends an email contact their all-clear by email', async () => {
+    const emailEnv = { ...env, EMAIL_PROVIDER: 'capture' };
+    const userId = await insertUser(env, { name: 'Sam' });
+    const eventId = await insertEvent(env, userId, {
+      scheduled_time: '2026-03-02T11:31:00.000Z',
+      deadline_time: '2026-03-02T11:41:00.000Z',
+      status: 'confirmed',
+    });
+    const contactId = await insertContact(env, userId, { phone: '+15551240021', email: 'kit@example.com' });
+    await insertDelivery(env, eventId, contactId, { channel: 'email', status: 'sent' });
+
+    expect(await notifyAlertedContacts(emailEnv, { event_id: eventId, kind: 'scheduled' as const, user_name: 'Sam' }, 'all_clear')).toBe(1);
+
+    expect(getCapturedEmails().map((email) => [email.to, email.subject])).toEqual([['kit@example.com', 'Sam is safe']]);
+    expect(sent.smsTo('+15551240021')).toHaveLength(0);
+  });
+});
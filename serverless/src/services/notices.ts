@@ -0,0 +1,190 @@
+/**
+ * Are You Safe? - Follow-up Notices to Alerted Contacts
+ *
+ * After contacts were alerted about an event, later developments are
+ * sent to them on the channel each one was reached on (by SMS for
+ * contacts who were called):
+ * - ack_notice: another contact acknowledged the alert (best-effort)
+ * - all_clear: the user confirmed they are safe, or cancelled their SOS
+ *   (failed SMS, WhatsApp and email are retried)
+ *
+ * Each notice is an alert_deliveries row with its purpose, claimed with
+ * the same (event, contact, channel, purpose) key as alerts, so a contact
+ * gets each notice at most once per channel.
+ */
+
+import { Env, Contact, DeliveryPurpose, CheckinKind } from '../types';
+import { generateUUID, decrypt } from '../utils/crypto';
+import {
+  sendSMS,
+  generateAcknowledgedMessage,
+  generateAllClearMessage,
+  generateSosCancelledMessage,
+  calculateNextRetry,
+} from './twilio';
+import { sendContactAlertAcknowledged, sendContactAllClear } from './apns';
+import { sendEmail, renderEmail } from './email';
+import { sendWhatsAppAlert } from './whatsapp';
+
+export type NoticePurpose = Exclude<DeliveryPurpose, 'alert'>;
+
+/**
+ * SMS text for a notice
+ */
+export function generateNoticeMessage(purpose: NoticePurpose, userName: string, kind?: CheckinKind): string {
+  if (purpose === 'ack_notice') {
+    return generateAcknowledgedMessage(userName);
+  }
+  return kind === 'sos' ? generateSosCancelledMessage(userName) : generateAllClearMessage(userName);
+}
+
+/**
+ * Send a notice by email
+ */
+export async function sendNoticeEmail(
+  env: Env,
+  emailEnc: string,
+  purpose: NoticePurpose,
+  userName: string,
+  kind?: CheckinKind
+) {
+  const to = await decrypt(emailEnc, env.ENCRYPTION_KEY);
+  const subject = purpose === 'ack_notice' ? `Someone is checking on ${userName}` : `${userName} is safe`;
+  return sendEmail(env, renderEmail({ to, subject, text: generateNoticeMessage(purpose, userName, kind) }));
+}
+
+/**
+ * Count the contacts an all-clear for an event would go to, without
+ * sending anything
+ */
+export async function countAlertedContacts(env: Env, eventId: string): Promise<number> {
+  const result = await env.DB.prepare(`
+    SELECT COUNT(DISTINCT d.contact_id) as count
+    FROM alert_deliveries d
+    JOIN contacts c ON d.contact_id = c.contact_id
+    WHERE d.event_id = ? AND d.purpose = 'alert'
+    AND d.status IN ('sent', 'delivered')
+    AND (
+      d.channel IN ('sms', 'voice', 'whatsapp')
+      OR (d.channel = 'email' AND c.email_enc IS NOT NULL)
+      OR (d.channel = 'push' AND c.apns_token IS NOT NULL)
+    )
+  `).bind(eventId).first<{ count: number }>();
+  return result?.count || 0;
+}
+
+/**
+ * Send a notice to every contact who received an alert for an event
+ * @param exclude - contact to leave out (e.g. the one who acknowledged)
+ * @returns the number of contacts reached on at least one channel
+ */
+export async function notifyAlertedContacts(
+  env: Env,
+  event: { event_id: string; kind: CheckinKind; user_name: string | null },
+  purpose: NoticePurpose,
+  options: { exclude?: string; at?: string } = {}
+): Promise<number> {
+  const nowStr = options.at || new Date().toISOString();
+
+  const alerted = await env.DB.prepare(`
+    SELECT DISTINCT CASE WHEN d.channel = 'voice' THEN 'sms' ELSE d.channel END as channel, c.*
+    FROM alert_deliveries d
+    JOIN contacts c ON d.contact_id = c.contact_id
+    WHERE d.event_id = ? AND d.purpose = 'alert'
+    AND d.status IN ('sent', 'delivered')
+    AND d.contact_id != ?
+  `).bind(event.event_id, options.exclude || '').all<Contact & { channel: string }>();
+
+  const userName = event.user_name || 'Your contact';
+  const notified = new Set<string>();
+
+  for (const contact of alerted.results) {
+    if (!['sms', 'whatsapp', 'push', 'email'].includes(contact.channel)) {
+      continue;
+    }
+    if (contact.channel === 'email' && !contact.email_enc) {
+      continue;
+    }
+    if (contact.channel === 'push' && !contact.apns_token) {
+      continue;
+    }
+
+    try {
+      // Claim the notice (idempotency, as for alerts)
+      const deliveryId = generateUUID();
+      const claimed = await env.DB.prepare(`
+        INSERT OR IGNORE INTO alert_deliveries (
+          delivery_id, event_id, contact_id, channel, purpose, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)
+      `).bind(deliveryId, event.event_id, contact.contact_id, contact.channel, purpose, nowStr, nowStr).run();
+
+      if (!claimed.meta.changes) {
+        continue;
+      }
+
+      let success: boolean;
+      let providerRef: string | null = null;
+      let errorMessage: string | null = null;
+
+      if (contact.channel === 'sms' || contact.channel === 'whatsapp') {
+        const phone = await decrypt(contact.phone_enc, env.ENCRYPTION_KEY);
+        const body = generateNoticeMessage(purpose, userName, event.kind);
+        const result = contact.channel === 'whatsapp'
+          ? await sendWhatsAppAlert({ to: phone, body, env })
+          : await sendSMS({ to: phone, body, env });
+        success = result.success;
+        providerRef = result.sid || null;
+        errorMessage = result.errorMessage || null;
+      } else if (contact.channel === 'email') {
+        const result = await sendNoticeEmail(env, contact.email_enc!, purpose, userName, event.kind);
+        success = result.success;
+        providerRef = result.id || null;
+        errorMessage = result.errorMessage || null;
+      } else {
+        const result = purpose === 'all_clear'
+          ? await sendContactAllClear({
+              deviceToken: contact.apns_token!,
+              userName,
+              eventId: event.event_id,
+              sosCancelled: event.kind === 'sos',
+              env,
+            })
+          : await sendContactAlertAcknowledged({
+              deviceToken: contact.apns_token!,
+              userName,
+              eventId: event.event_id,
+              env,
+            });
+        success = result.success;
+        errorMessage = result.errorReason || null;
+      }
+
+      // All-clear texts and email go through the retry queue like an alert
+      const nextRetry = !success && purpose === 'all_clear' && contact.channel !== 'push'
+        ? calculateNextRetry(0)
+        : null;
+
+      await env.DB.prepare(`
+        UPDATE alert_deliveries
+        SET status = ?, provider_ref = ?, error_message = ?, next_retry_at = ?, sent_at = ?, updated_at = ?
+        WHERE delivery_id = ?
+      `).bind(
+        success ? 'sent' : 'failed',
+        providerRef,
+        errorMessage,
+        nextRetry,
+        success ? nowStr : null,
+        nowStr,
+        deliveryId
+      ).run();
+
+      if (success) {
+        notified.add(contact.contact_id);
+      }
+    } catch (error) {
+      console.error(`${purpose} notice failed for contact ${contact.contact_id}:`, error);
+    }
+  }
+
+  return notified.size;
+}
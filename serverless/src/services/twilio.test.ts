@@ -0,0 +1,43 @@
+import { createHmac } from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { verifyTwilioSignature, isAcknowledgmentReply } from './twilio';
+
+const AUTH_TOKEN = 'twilio-auth-token';
+const URL = 'https://api.example.com/api/webhooks/twilio/sms';
+const PARAMS = { From: '+15551230001', Body: 'OK', To: '+15557654321' };
+
+function sign(url: string, params: Record<string, string>, token = AUTH_TOKEN): string {
+  const data = Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], url);
+  return createHmac('sha1', token).update(data).digest('base64');
+}
+
+describe('verifyTwilioSignature', () => {
+  it('accepts the signature Twilio computes', async () => {
+    expect(await verifyTwilioSignature(URL, PARAMS, sign(URL, PARAMS), AUTH_TOKEN)).toBe(true);
+  });
+
+  it('rejects signatures over other params, another URL or another token', async () => {
+    expect(await verifyTwilioSignature(URL, PARAMS, sign(URL, { ...PARAMS, Body: 'NO' }), AUTH_TOKEN)).toBe(false);
+    expect(await verifyTwilioSignature(URL, PARAMS, sign(`${URL}?x=1`, PARAMS), AUTH_TOKEN)).toBe(false);
+    expect(await verifyTwilioSignature(URL, PARAMS, sign(URL, PARAMS, 'other-token'), AUTH_TOKEN)).toBe(false);
+  });
+
+  it('rejects empty and truncated signatures', async () => {
+    expect(await verifyTwilioSignature(URL, PARAMS, '', AUTH_TOKEN)).toBe(false);
+    expect(await verifyTwilioSignature(URL, PARAMS, sign(URL, PARAMS).slice(0, -2), AUTH_TOKEN)).toBe(false);
+  });
+});
+
+describe('isAcknowledgmentReply', () => {
+  it('recognizes short acknowledgments', () => {
+    for (const body of ['OK', ' okay thanks', 'Yes', 'ack', 'On it!']) {
+      expect(isAcknowledgmentReply(body)).toBe(true);
+    }
+  });
+
+  it('ignores other replies', () => {
+    for (const body of ['who is this?', 'not ok', 'okey', '']) {
+      expect(isAcknowledgmentReply(body)).toBe(false);
+    }
+  });
+});
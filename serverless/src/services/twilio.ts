@@ -1,11 +1,13 @@
 /**
  * Are You Safe? - Twilio SMS Service
  * 
- * Handles sending SMS messages via Twilio API.
- * Includes retry logic with exponential backoff.
+ * Handles sending SMS messages via Twilio API (the 'sms' notification
+ * channel). Includes retry logic with exponential backoff.
  */
 
 import { Env, TwilioMessageResponse } from '../types';
+import { getLocalDateTime, resolveTimeZone } from '../utils/timezone';
+import { NotificationChannel, ChannelResult, registerChannel, sendOnChannel } from './channels';
 
 interface SendSMSParams {
   to: string;          // E.164 format phone number
@@ -22,10 +24,33 @@ interface SendSMSResult {
 }
 
 /**
- * Send an SMS message via Twilio
+ * Send an SMS message via the 'sms' channel
  */
 export async function sendSMS(params: SendSMSParams): Promise<SendSMSResult> {
   const { to, body, env } = params;
+
+  const result = await sendOnChannel(env, 'sms', { to, body });
+  return {
+    success: result.success,
+    sid: result.ref,
+    status: result.status,
+    errorCode: result.errorCode,
+    errorMessage: result.errorMessage,
+  };
+}
+
+/**
+ * The 'sms' channel: Twilio Messages API
+ */
+export const twilioSmsChannel: NotificationChannel<'sms'> = {
+  name: 'sms',
+  send: sendTwilioSMS,
+};
+
+registerChannel(twilioSmsChannel);
+
+async function sendTwilioSMS(message: { to: string; body: string }, env: Env): Promise<ChannelResult> {
+  const { to, body } = message;
   
   const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${env.TWILIO_ACCOUNT_SID}/Messages.json`;
   
@@ -53,7 +78,7 @@ export async function sendSMS(params: SendSMSParams): Promise<SendSMSResult> {
     if (response.ok) {
       return {
         success: true,
-        sid: data.sid,
+        ref: data.sid,
         status: data.status,
       };
     } else {
@@ -73,14 +98,138 @@ export async function sendSMS(params: SendSMSParams): Promise<SendSMSResult> {
 
 /**
  * Generate SMS message for missed check-in alert
+ * @param timeZone - User's IANA timezone; the time is shown as HH:MM in that zone
  */
-export function generateAlertMessage(userName: string, scheduledTime: string): string {
-  // Format time for display (extract HH:MM from ISO string)
-  const time = scheduledTime.split('T')[1]?.substring(0, 5) || scheduledTime;
+export function generateAlertMessage(userName: string, scheduledTime: string, timeZone?: string, ackUrl?: string): string {
+  // Format time for display (HH:MM in the user's timezone, falling back to the ISO string)
+  const time = formatLocalTime(scheduledTime, timeZone);
   
   return `[Are You Safe] ${userName} missed their ${time} safety check-in. ` +
     `Please try to contact them to make sure they're okay. ` +
-    `This is an automated message - do not reply.`;
+    ackInstructions(ackUrl);
+}
+
+/**
+ * Generate SMS message for an expired safety timer
+ */
+export function generateTimerAlertMessage(userName: string, deadlineTime: string, note: string | null, timeZone?: string, ackUrl?: string): string {
+  const time = formatLocalTime(deadlineTime, timeZone);
+  const noteText = note ? ` Their note: "${note}".` : '';
+
+  return `[Are You Safe] ${userName} set a safety timer and has not checked in by ${time}.${noteText} ` +
+    `Please try to contact them to make sure they're okay. ` +
+    ackInstructions(ackUrl);
+}
+
+/**
+ * Generate SMS message for an SOS raised by the user
+ */
+export function generateSosAlertMessage(userName: string, note: string | null, ackUrl?: string): string {
+  const noteText = note ? ` Their note: "${note}".` : '';
+
+  return `[Are You Safe] URGENT: ${userName} has sent an SOS and may need help now.${noteText} ` +
+    `Contact them immediately, and call emergency services if you can't reach them. ` +
+    ackInstructions(ackUrl);
+}
+
+/**
+ * Generate SMS message for a confirmation made with the duress PIN
+ * The user may be watched, so contacts are asked not to reply to them.
+ */
+export function generateDuressAlertMessage(userName: string, ackUrl?: string): string {
+  return `[Are You Safe] URGENT: ${userName} has signalled they may be in danger and unable to speak freely. ` +
+    `Do not mention this alert to them. Check on them discreetly, or call emergency services. ` +
+    ackInstructions(ackUrl);
+}
+
+/**
+ * Generate SMS message telling an alerted contact that someone else is on it
+ */
+export function generateAcknowledgedMessage(userName: string): string {
+  return `[Are You Safe] Update: another of ${userName}'s emergency contacts ` +
+    `has acknowledged the alert and is checking on them.`;
+}
+
+/**
+ * Generate SMS message telling an alerted contact that the user is safe
+ */
+export function generateAllClearMessage(userName: string): string {
+  return `[Are You Safe] All clear: ${userName} has checked in and confirmed they're safe. ` +
+    `Thank you for looking out for them.`;
+}
+
+/**
+ * Generate SMS message telling an alerted contact that an SOS was cancelled
+ */
+export function generateSosCancelledMessage(userName: string): string {
+  return `[Are You Safe] ${userName} has cancelled their SOS and says they're safe. ` +
+    `No further action is needed.`;
+}
+
+/**
+ * Closing line of an alert: how to acknowledge it, if the alert can be
+ */
+function ackInstructions(ackUrl?: string): string {
+  if (!ackUrl) {
+    return `This is an automated message - do not reply.`;
+  }
+  return `Reply OK or open ${ackUrl} to let their other contacts know you're on it.`;
+}
+
+/**
+ * Check whether an SMS reply acknowledges an alert
+ */
+export function isAcknowledgmentReply(body: string): boolean {
+  return /^\s*(ok|okay|yes|ack|on it)\b/i.test(body);
+}
+
+/**
+ * Validate the X-Twilio-Signature header of a webhook request
+ * Twilio signs the full request URL followed by each POST parameter
+ * (sorted by name, name and value concatenated) with HMAC-SHA1 using the
+ * account's auth token.
+ */
+export async function verifyTwilioSignature(
+  url: string,
+  params: Record<string, string>,
+  signature: string,
+  authToken: string
+): Promise<boolean> {
+  const data = Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], url);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(mac)));
+
+  if (signature.length !== expected.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Format an ISO8601 instant as HH:MM in a timezone
+ */
+function formatLocalTime(isoTime: string, timeZone?: string): string {
+  const instant = new Date(isoTime);
+  if (isNaN(instant.getTime())) {
+    return isoTime;
+  }
+  if (!timeZone) {
+    return isoTime.split('T')[1]?.substring(0, 5) || isoTime;
+  }
+  const local = getLocalDateTime(instant, resolveTimeZone(timeZone));
+  return `${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`;
 }
 
 /**
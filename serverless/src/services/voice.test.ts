@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { buildAlertCallTwiml, buildSayTwiml, generateVoiceAlertScript, getVoiceWebhookUrls } from './voice';
+
+describe('buildAlertCallTwiml', () => {
+  it('gathers one digit and posts it to the gather URL', () => {
+    const twiml = buildAlertCallTwiml('Hello.', 'https://api.example.com/api/webhooks/twilio/voice/d1/gather');
+
+    expect(twiml).toContain('<Gather numDigits="1" timeout="10" action="https://api.example.com/api/webhooks/twilio/voice/d1/gather" method="POST">');
+    expect(twiml.match(/<Say>Hello\. Press 1 if you will check on them\.<\/Say>/g)).toHaveLength(2);
+  });
+
+  it('escapes XML in the script and the URL', () => {
+    const twiml = buildAlertCallTwiml(`Tom & "Jerry" <O'Neil>`, 'https://x.test/gather?a=1&b=2');
+
+    expect(twiml).toContain('<Say>Tom &amp; &quot;Jerry&quot; &lt;O&apos;Neil&gt; Press 1');
+    expect(twiml).toContain('action="https://x.test/gather?a=1&amp;b=2"');
+    expect(twiml).not.toContain('<O');
+  });
+});
+
+describe('buildSayTwiml', () => {
+  it('speaks the escaped message and hangs up', () => {
+    expect(buildSayTwiml("You're on it & thanks")).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?><Response><Say>You&apos;re on it &amp; thanks</Say><Hangup/></Response>'
+    );
+  });
+});
+
+describe('generateVoiceAlertScript', () => {
+  it('describes each kind of alert', () => {
+    expect(generateVoiceAlertScript('Ana', 'scheduled')).toContain('Ana missed a safety check-in.');
+    expect(generateVoiceAlertScript('Ana', 'timer')).toContain('Ana set a safety timer');
+    expect(generateVoiceAlertScript('Ana', 'sos')).toContain('Ana has sent an S O S');
+    expect(generateVoiceAlertScript('Ana', 'duress')).toContain('Do not mention this call to them.');
+  });
+});
+
+describe('getVoiceWebhookUrls', () => {
+  it('builds the gather and status URLs for a delivery', () => {
+    expect(getVoiceWebhookUrls('https://api.example.com', 'd1')).toEqual({
+      gather: 'https://api.example.com/api/webhooks/twilio/voice/d1/gather',
+      status: 'https://api.example.com/api/webhooks/twilio/voice/d1/status',
+    });
+  });
+});
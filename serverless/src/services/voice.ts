@@ -0,0 +1,168 @@
+/**
+ * Are You Safe? - Twilio Voice Service
+ *
+ * Places alert calls via the Twilio Calls API (the 'voice' notification
+ * channel). The call reads the alert
+ * with text-to-speech and gathers a keypress: pressing 1 acknowledges the
+ * alert (POST /api/webhooks/twilio/voice/:deliveryId/gather). The call's
+ * final status arrives on .../status, where unanswered calls are queued
+ * for retry like failed SMS.
+ */
+
+import { Env, CheckinKind } from '../types';
+import { NotificationChannel, ChannelMessages, ChannelResult, registerChannel, sendOnChannel } from './channels';
+
+interface PlaceCallParams {
+  to: string;          // E.164 format phone number
+  twiml: string;       // Call content
+  statusCallbackUrl: string;
+  env: Env;
+}
+
+interface PlaceCallResult {
+  success: boolean;
+  sid?: string;
+  status?: string;
+  errorCode?: number;
+  errorMessage?: string;
+}
+
+// Twilio call statuses that mean nobody took the call
+export const UNANSWERED_CALL_STATUSES = ['busy', 'no-answer', 'failed', 'canceled'];
+
+/**
+ * Place a call via the 'voice' channel
+ */
+export async function placeVoiceCall(params: PlaceCallParams): Promise<PlaceCallResult> {
+  const { env, ...message } = params;
+
+  const result = await sendOnChannel(env, 'voice', message);
+  return {
+    success: result.success,
+    sid: result.ref,
+    status: result.status,
+    errorCode: result.errorCode,
+    errorMessage: result.errorMessage,
+  };
+}
+
+/**
+ * The 'voice' channel: Twilio Calls API
+ */
+export const twilioVoiceChannel: NotificationChannel<'voice'> = {
+  name: 'voice',
+  send: placeTwilioCall,
+};
+
+registerChannel(twilioVoiceChannel);
+
+async function placeTwilioCall(message: ChannelMessages['voice'], env: Env): Promise<ChannelResult> {
+  const { to, twiml, statusCallbackUrl } = message;
+
+  const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${env.TWILIO_ACCOUNT_SID}/Calls.json`;
+
+  // Create Basic Auth header
+  const auth = btoa(`${env.TWILIO_ACCOUNT_SID}:${env.TWILIO_AUTH_TOKEN}`);
+
+  // Prepare form data
+  const formData = new URLSearchParams();
+  formData.append('To', to);
+  formData.append('From', env.TWILIO_PHONE_NUMBER);
+  formData.append('Twiml', twiml);
+  formData.append('StatusCallback', statusCallbackUrl);
+  formData.append('StatusCallbackMethod', 'POST');
+
+  try {
+    const response = await fetch(twilioUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: formData.toString(),
+    });
+
+    const data = await response.json() as { sid: string; status: string; code?: number; message?: string };
+
+    if (response.ok) {
+      return {
+        success: true,
+        ref: data.sid,
+        status: data.status,
+      };
+    } else {
+      return {
+        success: false,
+        errorCode: data.code,
+        errorMessage: data.message || 'Unknown Twilio error',
+      };
+    }
+  } catch (error) {
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Network error',
+    };
+  }
+}
+
+/**
+ * Generate the spoken alert for an event
+ */
+export function generateVoiceAlertScript(userName: string, kind: CheckinKind): string {
+  const intro = `This is an urgent call from Are You Safe about ${userName}.`;
+
+  switch (kind) {
+    case 'sos':
+      return `${intro} ${userName} has sent an S O S and may need help now. ` +
+        `Please contact them immediately, and call emergency services if you cannot reach them.`;
+    case 'duress':
+      return `${intro} ${userName} has signalled they may be in danger and unable to speak freely. ` +
+        `Do not mention this call to them. Check on them discreetly, or call emergency services.`;
+    case 'timer':
+      return `${intro} ${userName} set a safety timer and has not checked in. ` +
+        `Please try to contact them to make sure they are okay.`;
+    default:
+      return `${intro} ${userName} missed a safety check-in. ` +
+        `Please try to contact them to make sure they are okay.`;
+  }
+}
+
+/**
+ * Build the TwiML for an alert call
+ * The alert is read twice inside a Gather; pressing 1 posts to gatherUrl.
+ */
+export function buildAlertCallTwiml(script: string, gatherUrl: string): string {
+  const prompt = 'Press 1 if you will check on them.';
+  return '<?xml version="1.0" encoding="UTF-8"?><Response>' +
+    `<Gather numDigits="1" timeout="10" action="${escapeXml(gatherUrl)}" method="POST">` +
+    `<Say>${escapeXml(script)} ${prompt}</Say>` +
+    `<Pause length="1"/>` +
+    `<Say>${escapeXml(script)} ${prompt}</Say>` +
+    `</Gather>` +
+    `<Say>We did not receive a response. Goodbye.</Say>` +
+    '</Response>';
+}
+
+/**
+ * Build TwiML that speaks a message and hangs up
+ */
+export function buildSayTwiml(message: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><Response><Say>${escapeXml(message)}</Say><Hangup/></Response>`;
+}
+
+/**
+ * Webhook URLs for an alert call
+ */
+export function getVoiceWebhookUrls(baseUrl: string, deliveryId: string): { gather: string; status: string } {
+  const base = `${baseUrl}/api/webhooks/twilio/voice/${deliveryId}`;
+  return { gather: `${base}/gather`, status: `${base}/status` };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Env } from '../types';
+import { recordProviderRequests, ProviderRequests } from '../test/env';
+import { sendWhatsAppAlert, fromWhatsAppAddress } from './whatsapp';
+
+let sent: ProviderRequests;
+
+beforeEach(() => {
+  sent = recordProviderRequests();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// Only the Twilio settings are used when sending
+function twilioEnv(fields: Partial<Env> = {}): Env {
+  return {
+    TWILIO_ACCOUNT_SID: 'ACtest',
+    TWILIO_AUTH_TOKEN: 'test',
+    TWILIO_PHONE_NUMBER: '+15550000000',
+    TWILIO_WHATSAPP_NUMBER: '+15550000001',
+    ...fields,
+  } as Env;
+}
+
+describe('sendWhatsAppAlert', () => {
+  it('sends the approved template with the alert as its variable', async () => {
+    const env = twilioEnv({ TWILIO_WHATSAPP_ALERT_TEMPLATE_SID: 'HXalert' });
+
+    const result = await sendWhatsAppAlert({ to: '+15551350001', body: 'Alex missed a check-in', env });
+
+    expect(result.success).toBe(true);
+    const [message] = sent.whatsAppTo('+15551350001');
+    expect(message).toMatchObject({
+      From: 'whatsapp:+15550000001',
+      ContentSid: 'HXalert',
+      ContentVariables: JSON.stringify({ 1: 'Alex missed a check-in' }),
+    });
+    expect(message.Body).toBeUndefined();
+  });
+
+  it('sends free-form text without a template', async () => {
+    await sendWhatsAppAlert({ to: '+15551350002', body: 'Alex missed a check-in', env: twilioEnv() });
+
+    const [message] = sent.whatsAppTo('+15551350002');
+    expect(message).toMatchObject({ Body: 'Alex missed a check-in' });
+    expect(message.ContentSid).toBeUndefined();
+  });
+
+  it('fails without sending while no WhatsApp sender is configured', async () => {
+    const result = await sendWhatsAppAlert({
+      to: '+15551350003',
+      body: 'Alex missed a check-in',
+      env: twilioEnv({ TWILIO_WHATSAPP_NUMBER: undefined }),
+    });
+
+    expect(result).toMatchObject({ success: false, errorMessage: 'WhatsApp notifications are not enabled' });
+    expect(sent.whatsAppTo('+15551350003')).toHaveLength(0);
+  });
+
+  it('reports Twilio errors', async () => {
+    sent.failHost('api.twilio.com', 400);
+
+    const result = await sendWhatsAppAlert({ to: '+15551350004', body: 'Alex missed a check-in', env: twilioEnv() });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('fromWhatsAppAddress', () => {
+  it('strips the whatsapp: prefix', () => {
+    expect(fromWhatsAppAddress('whatsapp:+15551350005')).toBe('+15551350005');
+    expect(fromWhatsAppAddress('+15551350005')).toBe('+15551350005');
+  });
+});
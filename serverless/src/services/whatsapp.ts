@@ -1,46 +1,49 @@
 /**
  * Are You Safe? - WhatsApp Notification Service
  *
- * Placeholder for WhatsApp notifications via Twilio WhatsApp API.
- * This feature is reserved for future implementation.
+ * Sends WhatsApp messages via the Twilio Messages API, from the sender
+ * configured in TWILIO_WHATSAPP_NUMBER (the 'whatsapp' notification
+ * channel).
  *
- * To enable WhatsApp notifications:
- * 1. Set up Twilio WhatsApp Sender (requires Facebook Business verification)
- * 2. Configure TWILIO_WHATSAPP_NUMBER environment variable
- * 3. Enable WhatsApp templates in Twilio console
+ * WhatsApp only allows free-form messages within 24 hours of the
+ * recipient's last message. Alerts are business-initiated, so they go out
+ * as an approved template (TWILIO_WHATSAPP_ALERT_TEMPLATE_SID, a Twilio
+ * Content SID) whose single variable {{1}} carries the alert text. Without
+ * a template the alert is sent free-form, which only reaches contacts who
+ * have messaged the sender recently.
  *
  * Documentation: https://www.twilio.com/docs/whatsapp
  */
 
 import { Env } from '../types';
+import {
+  NotificationChannel,
+  ChannelMessages,
+  ChannelResult,
+  registerChannel,
+  sendOnChannel,
+  isOutboxEnabled,
+} from './channels';
 
 interface WhatsAppResult {
   success: boolean;
   sid?: string;
   status?: string;
+  errorCode?: number;
   errorMessage?: string;
 }
 
+const WHATSAPP_PREFIX = 'whatsapp:';
+
 /**
  * Check if WhatsApp is configured and available
  */
 export function isWhatsAppEnabled(env: Env): boolean {
-  // WhatsApp requires additional environment variables
-  // For now, this feature is disabled until properly configured
-  return false;
-
-  // When ready to enable, check for:
-  // return !!(env.TWILIO_WHATSAPP_NUMBER && env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN);
+  return isOutboxEnabled(env) || !!(env.TWILIO_WHATSAPP_NUMBER && env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN);
 }
 
 /**
- * Send WhatsApp message via Twilio API
- *
- * NOTE: This is a placeholder implementation.
- * WhatsApp Business API requires:
- * - Facebook Business verification
- * - Twilio WhatsApp Sender setup
- * - Pre-approved message templates for notifications
+ * Send a free-form WhatsApp message via the 'whatsapp' channel
  */
 export async function sendWhatsAppMessage(params: {
   to: string;
@@ -49,60 +52,59 @@ export async function sendWhatsAppMessage(params: {
 }): Promise<WhatsAppResult> {
   const { to, body, env } = params;
 
-  // Check if WhatsApp is enabled
-  if (!isWhatsAppEnabled(env)) {
-    return {
-      success: false,
-      errorMessage: 'WhatsApp notifications are not enabled',
-    };
-  }
-
-  // Placeholder for future implementation
-  // When implementing, use Twilio's WhatsApp API:
-  //
-  // const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${env.TWILIO_ACCOUNT_SID}/Messages.json`;
-  //
-  // const formData = new URLSearchParams();
-  // formData.append('From', `whatsapp:${env.TWILIO_WHATSAPP_NUMBER}`);
-  // formData.append('To', `whatsapp:${to}`);
-  // formData.append('Body', body);
-  //
-  // const response = await fetch(twilioUrl, {
-  //   method: 'POST',
-  //   headers: {
-  //     'Authorization': 'Basic ' + btoa(`${env.TWILIO_ACCOUNT_SID}:${env.TWILIO_AUTH_TOKEN}`),
-  //     'Content-Type': 'application/x-www-form-urlencoded',
-  //   },
-  //   body: formData.toString(),
-  // });
-
-  console.log('WhatsApp notification requested but not implemented yet');
-
-  return {
-    success: false,
-    errorMessage: 'WhatsApp notifications are not yet implemented',
-  };
+  return toWhatsAppResult(await sendOnChannel(env, 'whatsapp', { to, body }));
 }
 
 /**
- * Generate WhatsApp alert message
- * WhatsApp has specific formatting requirements
+ * Send an approved template message via the 'whatsapp' channel
+ * Template messages are required for business-initiated conversations.
+ * @param contentSid - Twilio Content SID of the approved template
+ * @param templateParams - Values for the template variables {{1}}, {{2}}, ...
  */
-export function generateWhatsAppAlertMessage(userName: string, scheduledTime: string): string {
-  const time = new Date(scheduledTime).toLocaleTimeString('en-US', {
-    hour: 'numeric',
-    minute: '2-digit',
+export async function sendWhatsAppTemplateMessage(params: {
+  to: string;
+  contentSid: string;
+  templateParams: string[];
+  env: Env;
+}): Promise<WhatsAppResult> {
+  const { to, contentSid, templateParams, env } = params;
+
+  const contentVariables: Record<string, string> = {};
+  templateParams.forEach((value, index) => {
+    contentVariables[String(index + 1)] = value;
   });
 
-  // WhatsApp messages should be concise and clear
-  // Emojis are supported and can help with visibility
-  return `⚠️ *Safety Alert*
+  return toWhatsAppResult(await sendOnChannel(env, 'whatsapp', { to, contentSid, contentVariables }));
+}
 
-${userName} missed their ${time} check-in with the Are You Safe? app.
+/**
+ * Send an alert over WhatsApp
+ * Uses the alert template when configured, free-form text otherwise.
+ */
+export async function sendWhatsAppAlert(params: {
+  to: string;
+  body: string;
+  env: Env;
+}): Promise<WhatsAppResult> {
+  const { to, body, env } = params;
 
-This doesn't necessarily mean an emergency, but please try to contact them to make sure they're okay.
+  if (env.TWILIO_WHATSAPP_ALERT_TEMPLATE_SID) {
+    return sendWhatsAppTemplateMessage({
+      to,
+      contentSid: env.TWILIO_WHATSAPP_ALERT_TEMPLATE_SID,
+      templateParams: [body],
+      env,
+    });
+  }
 
-_This is an automated message._`;
+  return sendWhatsAppMessage({ to, body, env });
+}
+
+/**
+ * Strip the whatsapp: prefix Twilio puts on WhatsApp addresses
+ */
+export function fromWhatsAppAddress(address: string): string {
+  return address.startsWith(WHATSAPP_PREFIX) ? address.slice(WHATSAPP_PREFIX.length) : address;
 }
 
 /**
@@ -125,22 +127,80 @@ export function isValidWhatsAppNumber(phone: string): boolean {
 }
 
 /**
- * Future: Send template-based WhatsApp message
- * WhatsApp Business API requires pre-approved templates for notifications
+ * The 'whatsapp' channel: Twilio Messages API from the WhatsApp sender
  */
-export async function sendWhatsAppTemplateMessage(params: {
-  to: string;
-  templateName: string;
-  templateParams: string[];
-  env: Env;
-}): Promise<WhatsAppResult> {
-  // Template messages are required for business-initiated conversations
-  // See: https://www.twilio.com/docs/whatsapp/tutorial/send-whatsapp-notification-messages-templates
+export const twilioWhatsAppChannel: NotificationChannel<'whatsapp'> = {
+  name: 'whatsapp',
+  send: postWhatsAppMessage,
+};
 
-  console.log('WhatsApp template message requested but not implemented yet');
+registerChannel(twilioWhatsAppChannel);
 
+function toWhatsAppResult(result: ChannelResult): WhatsAppResult {
   return {
-    success: false,
-    errorMessage: 'WhatsApp template messages are not yet implemented',
+    success: result.success,
+    sid: result.ref,
+    status: result.status,
+    errorCode: result.errorCode,
+    errorMessage: result.errorMessage,
   };
 }
+
+async function postWhatsAppMessage(message: ChannelMessages['whatsapp'], env: Env): Promise<ChannelResult> {
+  const { to, body, contentSid, contentVariables } = message;
+
+  if (!env.TWILIO_WHATSAPP_NUMBER || !env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN) {
+    return {
+      success: false,
+      errorMessage: 'WhatsApp notifications are not enabled',
+    };
+  }
+
+  const formData = new URLSearchParams();
+  if (contentSid) {
+    formData.append('ContentSid', contentSid);
+    formData.append('ContentVariables', JSON.stringify(contentVariables || {}));
+  } else {
+    formData.append('Body', body || '');
+  }
+
+  const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${env.TWILIO_ACCOUNT_SID}/Messages.json`;
+
+  // Create Basic Auth header
+  const auth = btoa(`${env.TWILIO_ACCOUNT_SID}:${env.TWILIO_AUTH_TOKEN}`);
+
+  formData.append('To', `${WHATSAPP_PREFIX}${to}`);
+  formData.append('From', `${WHATSAPP_PREFIX}${env.TWILIO_WHATSAPP_NUMBER}`);
+
+  try {
+    const response = await fetch(twilioUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: formData.toString(),
+    });
+
+    const data = await response.json() as { sid: string; status: string; code?: number; message?: string };
+
+    if (response.ok) {
+      return {
+        success: true,
+        ref: data.sid,
+        status: data.status,
+      };
+    } else {
+      return {
+        success: false,
+        errorCode: data.code,
+        errorMessage: data.message || 'Unknown Twilio error',
+      };
+    }
+  } catch (error) {
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Network error',
+    };
+  }
+}
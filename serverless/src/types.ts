@@ -14,64 +14,133 @@ export interface Env {
   APNS_TEAM_ID: string;
   APNS_PRIVATE_KEY: string;
   APNS_BUNDLE_ID: string;
+  // Public base URL for links in messages (defaults to https://api.areyousafe.app)
+  API_BASE_URL?: string;
+  // WhatsApp sender (optional; WhatsApp contacts get SMS while unset)
+  TWILIO_WHATSAPP_NUMBER?: string;
+  TWILIO_WHATSAPP_ALERT_TEMPLATE_SID?: string;
+  // Email provider (optional): 'http' mail API or 'capture' (local/tests)
+  EMAIL_PROVIDER?: string;
+  EMAIL_API_URL?: string;
+  EMAIL_API_KEY?: string;
+  EMAIL_FROM?: string;
+  // 'true' = record all notifications in an in-memory outbox instead of sending
+  NOTIFICATION_OUTBOX?: string;
 }
 
 // Database models
+export type CheckinMode = 'schedule' | 'interval';
+
 export interface User {
   user_id: string;
   device_id: string;
   timezone: string;
   name: string;
-  checkin_times: string; // JSON array
+  checkin_times: string; // JSON array of all distinct HH:MM times (legacy view of schedule_rules)
+  schedule_rules: string | null; // JSON array of ScheduleRule
+  checkin_mode: CheckinMode;
+  interval_hours: number; // Interval mode: hours allowed between confirmations
+  interval_anchor_at: string | null; // Interval mode: last confirmation or mode start
   grace_minutes: number;
   early_reminder_enabled: number;
   early_reminder_minutes: number;
   sms_alerts_enabled: number;
-  level2_delay_minutes: number; // Delay before notifying Level 2 contacts
+  level2_delay_minutes: number; // Tier 2 delay for users without a stored escalation chain
   pause_until: string | null;
+  notify_contacts_on_resume: number; // Push linked contacts when a pause expires
+  next_checkin_at: string | null; // Precomputed next slot (UTC), kept current by refreshNextCheckin
+  next_early_reminder_at: string | null; // When the next early reminder push is due
+  reminder_ladder: string; // JSON array of in-grace reminder steps
+  snooze_max_count: number; // Snoozes allowed per event
+  snooze_durations: string; // JSON array of allowed snooze minutes
+  snooze_max_total_minutes: number; // Cap on total snooze time per event
+  checkin_pin_hash: string | null; // PBKDF2 hash; confirmations need the PIN when set
+  duress_pin_hash: string | null; // PBKDF2 hash of the PIN that silently escalates
   auth_token: string;
   apns_token: string | null; // APNs device token for remote push
   created_at: string;
   updated_at: string;
 }
 
+export interface EscalationTier {
+  user_id: string;
+  position: number;      // 1-based tier, matches contacts.level
+  delay_minutes: number; // After the previous tier (0 for tier 1)
+  channels: string;      // JSON array of channels
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Contact {
   contact_id: string;
   user_id: string;
   phone_enc: string;
+  email_enc: string | null;
   level: number;
   has_app: number;
   apns_token: string | null;
   linked_user_id: string | null;
+  preferred_channel: ContactChannel;
+  channel_steps: string | null; // JSON array of ChannelStep, NULL = tier's channels
   created_at: string;
   updated_at: string;
 }
 
-export type CheckinStatus = 'pending' | 'confirmed' | 'missed' | 'snoozed' | 'alerted' | 'paused';
+// Channel for text alerts to a contact
+export type ContactChannel = 'sms' | 'whatsapp' | 'email';
+
+export type AlertChannel = 'push' | 'sms' | 'whatsapp' | 'email' | 'voice';
+
+// One step of a contact's channel plan (see utils/channels.ts)
+export interface ChannelStep {
+  channel: AlertChannel;
+  delay_minutes: number; // After the previous step (always 0 for the first)
+}
+
+export type CheckinStatus = 'pending' | 'confirmed' | 'missed' | 'snoozed' | 'alerted' | 'paused' | 'cancelled';
+
+// duress events are never shown to the user (see POST /api/checkin/confirm)
+export type CheckinKind = 'scheduled' | 'timer' | 'sos' | 'duress';
 
 export interface CheckinEvent {
   event_id: string;
   user_id: string;
+  kind: CheckinKind;
   scheduled_time: string;
   deadline_time: string;
+  window_end: string | null; // Set for window slots (HH:MM-HH:MM)
   status: CheckinStatus;
+  note_enc: string | null; // Encrypted note for contacts (timer check-ins)
   confirmed_at: string | null;
   snoozed_until: string | null;
   snooze_count: number;
+  snooze_minutes_total: number; // Total minutes the deadline has been snoozed
+  reminders_sent: number; // In-grace reminder ladder steps already sent
+  next_reminder_at: string | null;
   escalated_at: string | null;
-  escalation_level: number; // 0=none, 1=level1 notified, 2=level2 notified
-  level2_escalated_at: string | null;
+  escalation_level: number; // Highest escalation tier notified (0=none)
+  level2_escalated_at: string | null; // Legacy: superseded by last_escalated_at
+  last_escalated_at: string | null; // When escalation_level was reached
+  next_escalation_at: string | null; // When the next tier is due (NULL = none)
+  acknowledged_at: string | null; // When a contact acknowledged the alert
+  acknowledged_by: string | null; // contact_id of the acknowledging contact
+  acknowledged_via: string | null; // sms, push, or link
   created_at: string;
   updated_at: string;
 }
 
-export type DeliveryStatus = 'pending' | 'sent' | 'delivered' | 'failed';
+// queued: a later step of the contact's channel plan, sent at scheduled_at;
+// cancelled: a queued step that was no longer needed
+export type DeliveryStatus = 'pending' | 'queued' | 'sent' | 'delivered' | 'failed' | 'cancelled';
+
+export type DeliveryPurpose = 'alert' | 'ack_notice' | 'all_clear';
 
 export interface AlertDelivery {
   delivery_id: string;
   event_id: string;
   contact_id: string;
   channel: string;
+  purpose: DeliveryPurpose;
   status: DeliveryStatus;
   provider_ref: string | null;
   provider_status: string | null;
@@ -79,12 +148,30 @@ export interface AlertDelivery {
   retry_count: number;
   max_retries: number;
   next_retry_at: string | null;
+  scheduled_at: string | null;
+  sender_key: string | null;       // SMS/WhatsApp: HMAC of the recipient's phone, for replies
   sent_at: string | null;
   delivered_at: string | null;
+  acknowledged_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type PauseKind = 'range' | 'recurring';
+
+export interface PauseWindow {
+  pause_id: string;
+  user_id: string;
+  kind: PauseKind;
+  starts_at: string | null;  // Range: ISO8601 start
+  ends_at: string | null;    // Range: ISO8601 end (exclusive)
+  days: string | null;       // Recurring: JSON array of weekdays, NULL = every day
+  start_time: string | null; // Recurring: HH:MM in the user's timezone
+  end_time: string | null;   // Recurring: HH:MM, wraps past midnight if <= start_time
+  label: string | null;
+  created_at: string;
+}
+
 export interface EventLog {
   log_id: string;
   user_id: string;
@@ -120,6 +207,13 @@ export interface RegisterResponse {
 export interface ContactInput {
   phone_e164: string;
   level: number;
+  email?: string; // Required for preferred_channel 'email'
+  preferred_channel?: ContactChannel; // Defaults to 'sms'
+  channels?: ChannelStep[] | null; // Ordered channel plan, replaces the tier's channels
+}
+
+export interface ContactChannelsRequest {
+  channels: ChannelStep[] | null; // null = back to the tier's channels
 }
 
 export interface ContactsRequest {
@@ -130,6 +224,13 @@ export interface ConfirmRequest {
   event_id?: string;
   scheduled_at?: string;
   confirmed_at: string;
+  pin?: string; // Required once a check-in PIN is set
+}
+
+export interface PinSettingsRequest {
+  current_pin?: string;       // Required to change PINs once a PIN is set
+  pin?: string | null;        // New PIN; null removes both PINs
+  duress_pin?: string | null; // New duress PIN; null removes it
 }
 
 export interface SnoozeRequest {
@@ -137,8 +238,34 @@ export interface SnoozeRequest {
   snooze_minutes: number;
 }
 
+export interface TimerRequest {
+  deadline_at?: string;      // ISO8601 deadline, or
+  duration_minutes?: number; // minutes from now
+  note?: string;             // Shared with contacts if the timer runs out
+}
+
+export interface SosRequest {
+  note?: string; // Shared with contacts in the SOS alert
+}
+
+export interface TimerExtendRequest {
+  deadline_at?: string;
+  extend_minutes?: number;
+}
+
 export interface PauseRequest {
   pause_until: string | null;
+  notify_contacts_on_resume?: boolean;
+}
+
+export interface PauseWindowRequest {
+  kind: PauseKind;
+  starts_at?: string;
+  ends_at?: string;
+  days?: string[];
+  start_time?: string;
+  end_time?: string;
+  label?: string;
 }
 
 export interface HistoryQuery {
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { validateChannelSteps, normalizeChannelSteps, parseChannelSteps, getStepTimes } from './channels';
+
+describe('validateChannelSteps', () => {
+  it('accepts an ordered plan with delays after the first step', () => {
+    expect(validateChannelSteps([
+      { channel: 'push' },
+      { channel: 'sms', delay_minutes: 5 },
+      { channel: 'voice', delay_minutes: 10 },
+    ])).toBeNull();
+  });
+
+  it('rejects empty, unknown, repeated and mistimed steps', () => {
+    expect(validateChannelSteps([])).toMatch(/non-empty/);
+    expect(validateChannelSteps([{ channel: 'fax' }])).toMatch(/Invalid channel/);
+    expect(validateChannelSteps([{ channel: 'sms' }, { channel: 'sms', delay_minutes: 5 }])).toMatch(/more than once/);
+    expect(validateChannelSteps([{ channel: 'sms', delay_minutes: 5 }])).toMatch(/right away/);
+    expect(validateChannelSteps([{ channel: 'sms' }, { channel: 'voice' }])).toMatch(/delay_minutes/);
+    expect(validateChannelSteps([{ channel: 'sms' }, { channel: 'voice', delay_minutes: 61 }])).toMatch(/delay_minutes/);
+  });
+});
+
+describe('normalizeChannelSteps / parseChannelSteps', () => {
+  it('gives the first step no delay', () => {
+    expect(normalizeChannelSteps([{ channel: 'sms' }, { channel: 'voice', delay_minutes: 5 }])).toEqual([
+      { channel: 'sms', delay_minutes: 0 },
+      { channel: 'voice', delay_minutes: 5 },
+    ]);
+  });
+
+  it('ignores missing or unusable stored plans', () => {
+    expect(parseChannelSteps(null)).toBeNull();
+    expect(parseChannelSteps('{')).toBeNull();
+    expect(parseChannelSteps('[{"channel":"fax"}]')).toBeNull();
+    expect(parseChannelSteps('[{"channel":"email"}]')).toEqual([{ channel: 'email', delay_minutes: 0 }]);
+  });
+});
+
+describe('getStepTimes', () => {
+  it('adds each delay to the previous step', () => {
+    const steps = [
+      { channel: 'push' as const, delay_minutes: 0 },
+      { channel: 'sms' as const, delay_minutes: 5 },
+      { channel: 'voice' as const, delay_minutes: 10 },
+    ];
+    expect(getStepTimes(steps, '2026-03-02T12:00:00.000Z')).toEqual([
+      '2026-03-02T12:00:00.000Z',
+      '2026-03-02T12:05:00.000Z',
+      '2026-03-02T12:15:00.000Z',
+    ]);
+  });
+});
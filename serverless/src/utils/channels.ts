@@ -0,0 +1,89 @@
+/**
+ * Are You Safe? - Contact Channel Plans
+ *
+ * A contact can choose how they are alerted: an ordered list of channel
+ * steps. When the contact's tier fires, the first step is sent right
+ * away; each later step follows delay_minutes after the previous one as
+ * long as nobody has acknowledged the alert (or sooner, if the previous
+ * step could not be sent). Contacts without a plan get the tier's
+ * channels all at once.
+ */
+
+import { AlertChannel, ChannelStep } from '../types';
+
+export const ALERT_CHANNELS: AlertChannel[] = ['push', 'sms', 'whatsapp', 'email', 'voice'];
+
+export const MAX_CHANNEL_STEPS = ALERT_CHANNELS.length;
+export const MAX_STEP_DELAY_MINUTES = 60;
+
+/**
+ * Validate channel steps from an API request
+ * @returns Error message, or null if valid
+ */
+export function validateChannelSteps(steps: unknown): string | null {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return 'channels must be a non-empty array';
+  }
+  if (steps.length > MAX_CHANNEL_STEPS) {
+    return `At most ${MAX_CHANNEL_STEPS} channel steps are allowed`;
+  }
+  const seen = new Set<string>();
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    if (!step || typeof step !== 'object') {
+      return 'Each channel step must be an object';
+    }
+    const { channel, delay_minutes } = step as Partial<ChannelStep>;
+    if (!channel || !ALERT_CHANNELS.includes(channel)) {
+      return `Invalid channel "${channel}" (use ${ALERT_CHANNELS.join(', ')})`;
+    }
+    if (seen.has(channel)) {
+      return `Channel "${channel}" is listed more than once`;
+    }
+    seen.add(channel);
+    if (i === 0 && delay_minutes !== undefined && delay_minutes !== 0) {
+      return 'The first channel is used right away; its delay_minutes must be 0';
+    }
+    if (i > 0 && (!Number.isInteger(delay_minutes) || delay_minutes! < 1 || delay_minutes! > MAX_STEP_DELAY_MINUTES)) {
+      return `delay_minutes must be an integer between 1 and ${MAX_STEP_DELAY_MINUTES}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalize validated request steps
+ */
+export function normalizeChannelSteps(steps: Partial<ChannelStep>[]): ChannelStep[] {
+  return steps.map((step, i) => ({
+    channel: step.channel!,
+    delay_minutes: i === 0 ? 0 : step.delay_minutes!,
+  }));
+}
+
+/**
+ * Get a contact's channel steps from their stored JSON
+ * @returns The steps, or null if the contact has no (usable) plan
+ */
+export function parseChannelSteps(json: string | null): ChannelStep[] | null {
+  if (!json) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(json);
+    return validateChannelSteps(parsed) === null ? normalizeChannelSteps(parsed) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * When each step is due, for a plan started at the given time
+ */
+export function getStepTimes(steps: ChannelStep[], startedAt: string): string[] {
+  let at = new Date(startedAt).getTime();
+  return steps.map((step) => {
+    at += step.delay_minutes * 60 * 1000;
+    return new Date(at).toISOString();
+  });
+}
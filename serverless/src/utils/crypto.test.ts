@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { hashPin, verifyPin } from './crypto';
+
+describe('hashPin / verifyPin', () => {
+  it('verifies the PIN it hashed and nothing else', async () => {
+    const stored = await hashPin('2468');
+
+    expect(stored).toMatch(/^pbkdf2\$100000\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    expect(await verifyPin('2468', stored)).toBe(true);
+    expect(await verifyPin('2469', stored)).toBe(false);
+    expect(await verifyPin('', stored)).toBe(false);
+  });
+
+  it('salts every hash', async () => {
+    expect(await hashPin('2468')).not.toBe(await hashPin('2468'));
+  });
+
+  it('rejects malformed stored hashes', async () => {
+    expect(await verifyPin('2468', 'sha1$1$00$00')).toBe(false);
+    expect(await verifyPin('2468', 'pbkdf2$100000$00')).toBe(false);
+  });
+});
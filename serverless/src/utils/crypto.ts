@@ -1,7 +1,9 @@
 /**
  * Are You Safe? - Encryption Utilities
  * 
- * Uses AES-256-GCM for encrypting sensitive data (phone numbers).
+ * Uses AES-256-GCM for encrypting sensitive data (phone numbers),
+ * HMAC-SHA256 for signing values embedded in links, and PBKDF2 for
+ * hashing check-in PINs.
  * The encryption key is stored as an environment variable.
  */
 
@@ -100,6 +102,93 @@ export async function decrypt(encryptedHex: string, keyHex: string): Promise<str
   return bytesToString(new Uint8Array(plaintext));
 }
 
+/**
+ * Sign a value with HMAC-SHA256 for use in a link
+ * @param value - The value to sign; include a purpose prefix to keep
+ *                signatures for different uses apart
+ * @param keyHex - Signing key as hex string
+ * @returns First 16 bytes of the MAC as hex (32 characters)
+ */
+export async function signValue(value: string, keyHex: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    hexToBytes(keyHex),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const mac = await crypto.subtle.sign('HMAC', key, stringToBytes(value));
+  return bytesToHex(new Uint8Array(mac).slice(0, 16));
+}
+
+/**
+ * Check a signature produced by signValue (constant-time comparison)
+ */
+export async function verifySignedValue(value: string, signature: string, keyHex: string): Promise<boolean> {
+  const expected = await signValue(value, keyHex);
+  if (signature.length !== expected.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// PBKDF2 work factor for PIN hashes (the Workers runtime caps it at 100000)
+const PIN_HASH_ITERATIONS = 100000;
+
+/**
+ * Hash a PIN for storage with PBKDF2-SHA256 and a random salt
+ * @returns "pbkdf2$<iterations>$<salt hex>$<hash hex>"
+ */
+export async function hashPin(pin: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePinHash(pin, salt, PIN_HASH_ITERATIONS);
+  return `pbkdf2$${PIN_HASH_ITERATIONS}$${bytesToHex(salt)}$${bytesToHex(hash)}`;
+}
+
+/**
+ * Check a PIN against a hash produced by hashPin (constant-time comparison)
+ */
+export async function verifyPin(pin: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const hash = bytesToHex(await derivePinHash(pin, hexToBytes(saltHex), parseInt(iterations, 10)));
+  if (hash.length !== hashHex.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < hash.length; i++) {
+    diff |= hash.charCodeAt(i) ^ hashHex.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+async function derivePinHash(pin: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    stringToBytes(pin),
+    { name: 'PBKDF2' },
+    false,
+    ['deriveBits']
+  );
+
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
 /**
  * Generate a random UUID v4
  */
@@ -124,3 +213,12 @@ export function isValidE164(phone: string): boolean {
   // E.164 format: + followed by 1-15 digits
   return /^\+[1-9]\d{1,14}$/.test(phone);
 }
+
+/**
+ * Validate email address format
+ * @param email - Email address to validate
+ * @returns true if it looks like a deliverable address
+ */
+export function isValidEmail(email: string): boolean {
+  return email.length <= 254 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  defaultEscalationChain,
+  validateEscalationTiers,
+  normalizeEscalationTiers,
+  parseTierChannels,
+  getNextEscalationAt,
+} from './escalation';
+
+describe('validateEscalationTiers', () => {
+  it('accepts a chain whose later tiers have delays', () => {
+    expect(validateEscalationTiers([
+      { channels: ['sms', 'push'] },
+      { delay_minutes: 10, channels: ['sms'] },
+      { delay_minutes: 30, channels: ['push'] },
+    ])).toBeNull();
+  });
+
+  it('rejects bad delays, channels and chain lengths', () => {
+    expect(validateEscalationTiers([])).toMatch(/non-empty/);
+    expect(validateEscalationTiers([{ delay_minutes: 5, channels: ['sms'] }])).toMatch(/must be 0/);
+    expect(validateEscalationTiers([{ channels: ['sms'] }, { channels: ['sms'] }])).toMatch(/delay_minutes/);
+    expect(validateEscalationTiers([{ channels: ['sms'] }, { delay_minutes: 121, channels: ['sms'] }])).toMatch(/delay_minutes/);
+    expect(validateEscalationTiers([{ channels: [] }])).toMatch(/at least one channel/);
+    expect(validateEscalationTiers([{ channels: ['fax'] }])).toMatch(/Invalid channel/);
+    expect(validateEscalationTiers(Array.from({ length: 6 }, (_, i) => ({ delay_minutes: i ? 5 : 0, channels: ['sms'] }))))
+      .toMatch(/At most/);
+  });
+});
+
+describe('normalizeEscalationTiers', () => {
+  it('numbers tiers by order and dedupes channels', () => {
+    expect(normalizeEscalationTiers([
+      { channels: ['push', 'sms', 'push'] },
+      { delay_minutes: 10, channels: ['sms'] },
+    ])).toEqual([
+      { position: 1, delay_minutes: 0, channels: ['sms', 'push'] },
+      { position: 2, delay_minutes: 10, channels: ['sms'] },
+    ]);
+  });
+});
+
+describe('parseTierChannels', () => {
+  it('keeps known channels and tolerates bad JSON', () => {
+    expect(parseTierChannels('["push","fax","sms"]')).toEqual(['sms', 'push']);
+    expect(parseTierChannels('{')).toEqual([]);
+    expect(parseTierChannels(null)).toEqual([]);
+  });
+});
+
+describe('getNextEscalationAt', () => {
+  const chain = defaultEscalationChain({ level2_delay_minutes: 20 });
+
+  it('schedules the next tier after its delay', () => {
+    expect(getNextEscalationAt(chain, 1, '2026-03-02T12:00:00.000Z')).toBe('2026-03-02T12:20:00.000Z');
+  });
+
+  it('returns null at the end of the chain', () => {
+    expect(getNextEscalationAt(chain, 2, '2026-03-02T12:20:00.000Z')).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Are You Safe? - Escalation Chain Utilities
+ *
+ * An escalation chain is an ordered list of tiers. Tier N alerts the
+ * contacts whose level is N, over the tier's channels. Tier 1 fires when
+ * the check-in deadline passes; each later tier fires delay_minutes after
+ * the previous one, as long as the user still hasn't confirmed.
+ */
+
+import { User } from '../types';
+
+export type EscalationChannel = 'sms' | 'push' | 'voice';
+
+export const ESCALATION_CHANNELS: EscalationChannel[] = ['sms', 'push', 'voice'];
+
+export interface EscalationTierConfig {
+  position: number;      // 1-based; matches contacts.level
+  delay_minutes: number; // After the previous tier (always 0 for tier 1)
+  channels: EscalationChannel[];
+}
+
+export const MAX_ESCALATION_TIERS = 5;
+export const MAX_TIER_DELAY_MINUTES = 120;
+
+const DEFAULT_LEVEL2_DELAY_MINUTES = 15;
+
+/**
+ * The chain used by users who never customized theirs: the original
+ * two levels, with level 2 after level2_delay_minutes
+ */
+export function defaultEscalationChain(user: Pick<User, 'level2_delay_minutes'>): EscalationTierConfig[] {
+  return [
+    { position: 1, delay_minutes: 0, channels: ['sms', 'push'] },
+    { position: 2, delay_minutes: user.level2_delay_minutes || DEFAULT_LEVEL2_DELAY_MINUTES, channels: ['sms', 'push'] },
+  ];
+}
+
+/**
+ * Validate tiers from an API request (positions are implied by order)
+ * @returns Error message, or null if valid
+ */
+export function validateEscalationTiers(tiers: unknown): string | null {
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    return 'tiers must be a non-empty array';
+  }
+  if (tiers.length > MAX_ESCALATION_TIERS) {
+    return `At most ${MAX_ESCALATION_TIERS} escalation tiers are allowed`;
+  }
+  for (let i = 0; i < tiers.length; i++) {
+    const tier = tiers[i];
+    if (!tier || typeof tier !== 'object') {
+      return 'Each tier must be an object';
+    }
+    const { delay_minutes, channels } = tier as Partial<EscalationTierConfig>;
+    if (i === 0 && delay_minutes !== undefined && delay_minutes !== 0) {
+      return 'The first tier fires at the deadline; its delay_minutes must be 0';
+    }
+    if (i > 0 && (!Number.isInteger(delay_minutes) || delay_minutes! < 1 || delay_minutes! > MAX_TIER_DELAY_MINUTES)) {
+      return `delay_minutes must be an integer between 1 and ${MAX_TIER_DELAY_MINUTES}`;
+    }
+    if (!Array.isArray(channels) || channels.length === 0) {
+      return 'Each tier needs at least one channel';
+    }
+    for (const channel of channels) {
+      if (!ESCALATION_CHANNELS.includes(channel)) {
+        return `Invalid channel "${channel}" (use ${ESCALATION_CHANNELS.join(', ')})`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalize validated request tiers: assign positions, dedupe channels
+ */
+export function normalizeEscalationTiers(tiers: Partial<EscalationTierConfig>[]): EscalationTierConfig[] {
+  return tiers.map((tier, i) => ({
+    position: i + 1,
+    delay_minutes: i === 0 ? 0 : tier.delay_minutes!,
+    channels: ESCALATION_CHANNELS.filter((channel) => tier.channels!.includes(channel)),
+  }));
+}
+
+/**
+ * Get a tier's channels from its stored JSON, ignoring unknown entries
+ */
+export function parseTierChannels(channels: string | null): EscalationChannel[] {
+  try {
+    const parsed = JSON.parse(channels || '[]');
+    return Array.isArray(parsed) ? ESCALATION_CHANNELS.filter((channel) => parsed.includes(channel)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * When the tier after the given one is due, or null at the end of the chain
+ */
+export function getNextEscalationAt(chain: EscalationTierConfig[], position: number, reachedAt: string): string | null {
+  const next = chain.find((tier) => tier.position === position + 1);
+  if (!next) {
+    return null;
+  }
+  return new Date(new Date(reachedAt).getTime() + next.delay_minutes * 60 * 1000).toISOString();
+}
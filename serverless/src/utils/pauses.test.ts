@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { PauseWindow } from '../types';
+import { validatePauseWindow, parsePauseDays, getPauseEnd, isPausedAt } from './pauses';
+
+const NEW_YORK = 'America/New_York';
+const user = { timezone: NEW_YORK, pause_until: null };
+
+function recurring(start_time: string, end_time: string, days?: string[]): PauseWindow {
+  return {
+    pause_id: `${start_time}-${end_time}`,
+    user_id: 'user',
+    kind: 'recurring',
+    label: null,
+    starts_at: null,
+    ends_at: null,
+    start_time,
+    end_time,
+    days: days ? JSON.stringify(days) : null,
+    created_at: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+function range(starts_at: string, ends_at: string): PauseWindow {
+  return { ...recurring('00:00', '00:00'), pause_id: starts_at, kind: 'range', starts_at, ends_at, start_time: null, end_time: null };
+}
+
+describe('validatePauseWindow', () => {
+  const now = new Date('2026-01-15T12:00:00Z');
+
+  it('accepts ranges in the future and recurring windows', () => {
+    expect(validatePauseWindow({ kind: 'range', starts_at: '2026-01-20T00:00:00Z', ends_at: '2026-01-22T00:00:00Z' }, now)).toBeNull();
+    expect(validatePauseWindow({ kind: 'recurring', start_time: '23:00', end_time: '07:00', days: ['MO'] }, now)).toBeNull();
+  });
+
+  it('rejects ranges that end before they start or are already over', () => {
+    expect(validatePauseWindow({ kind: 'range', starts_at: '2026-01-22T00:00:00Z', ends_at: '2026-01-20T00:00:00Z' }, now)).toMatch(/after starts_at/);
+    expect(validatePauseWindow({ kind: 'range', starts_at: '2026-01-10T00:00:00Z', ends_at: '2026-01-11T00:00:00Z' }, now)).toMatch(/future/);
+  });
+
+  it('rejects malformed recurring windows', () => {
+    expect(validatePauseWindow({ kind: 'recurring', start_time: '23:00', end_time: '23:00' }, now)).toMatch(/differ/);
+    expect(validatePauseWindow({ kind: 'recurring', start_time: '9am', end_time: '10:00' }, now)).toMatch(/HH:MM/);
+    expect(validatePauseWindow({ kind: 'recurring', start_time: '09:00', end_time: '10:00', days: ['XX'] }, now)).toMatch(/weekday/);
+  });
+});
+
+describe('parsePauseDays', () => {
+  it('keeps known weekdays and treats missing days as every day', () => {
+    expect(parsePauseDays('["MO","XX","FR"]')).toEqual(['MO', 'FR']);
+    expect(parsePauseDays(null)).toBeNull();
+    expect(parsePauseDays('{')).toBeNull();
+  });
+});
+
+describe('getPauseEnd', () => {
+  it('follows pause_until', () => {
+    const paused = { ...user, pause_until: '2026-01-15T18:00:00.000Z' };
+    expect(getPauseEnd(paused, [], new Date('2026-01-15T12:00:00Z'))?.toISOString()).toBe('2026-01-15T18:00:00.000Z');
+    expect(getPauseEnd(paused, [], new Date('2026-01-15T18:00:00Z'))).toBeNull();
+  });
+
+  it('covers a nightly window that wraps past midnight on both sides', () => {
+    const nightly = [recurring('23:00', '07:00')];
+    // 23:30 and 06:30 local, both ending at 07:00 local the next/same morning
+    expect(getPauseEnd(user, nightly, new Date('2026-01-16T04:30:00Z'))?.toISOString()).toBe('2026-01-16T12:00:00.000Z');
+    expect(getPauseEnd(user, nightly, new Date('2026-01-16T11:30:00Z'))?.toISOString()).toBe('2026-01-16T12:00:00.000Z');
+    expect(getPauseEnd(user, nightly, new Date('2026-01-16T12:00:00Z'))).toBeNull();
+  });
+
+  it('only applies recurring windows on their weekdays', () => {
+    // 2026-03-02 is a Monday; the window starts Monday night and wraps into Tuesday
+    const mondays = [recurring('22:00', '06:00', ['MO'])];
+    expect(isPausedAt(user, mondays, new Date('2026-03-03T04:00:00Z'))).toBe(true);  // Mon 23:00
+    expect(isPausedAt(user, mondays, new Date('2026-03-03T10:00:00Z'))).toBe(true);  // Tue 05:00
+    expect(isPausedAt(user, mondays, new Date('2026-03-04T04:00:00Z'))).toBe(false); // Tue 23:00
+  });
+
+  it('treats back-to-back pauses as one', () => {
+    const windows = [range('2026-01-15T00:00:00Z', '2026-01-16T04:00:00Z'), recurring('23:00', '07:00')];
+    // The trip ends at 23:00 local, straight into the nightly window
+    expect(getPauseEnd(user, windows, new Date('2026-01-15T12:00:00Z'))?.toISOString()).toBe('2026-01-16T12:00:00.000Z');
+  });
+
+  it('is null while monitoring is active', () => {
+    expect(getPauseEnd(user, [recurring('23:00', '07:00')], new Date('2026-01-15T17:00:00Z'))).toBeNull();
+  });
+});
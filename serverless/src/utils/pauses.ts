@@ -0,0 +1,165 @@
+/**
+ * Are You Safe? - Pause Calendar
+ *
+ * Decides whether monitoring is paused at a given instant. A user is
+ * paused while users.pause_until is in the future, inside any range in
+ * pause_windows, or inside a recurring window. Recurring windows are
+ * wall-clock times in the user's timezone, optionally limited to some
+ * weekdays; an end time at or before the start time wraps past midnight
+ * (e.g. nightly 23:00-07:00).
+ */
+
+import { User, PauseWindow, PauseWindowRequest } from '../types';
+import {
+  resolveTimeZone,
+  getLocalDateTime,
+  zonedTimeToUtc,
+  addDays,
+  parseTimeOfDay,
+  Weekday,
+  WEEKDAYS,
+} from './timezone';
+
+export const MAX_PAUSE_WINDOWS = 20;
+export const PAUSE_LABEL_MAX_LENGTH = 100;
+
+// Upper bound on back-to-back pauses followed when looking for the end
+const MAX_CHAINED_PAUSES = 10;
+
+type PauseSource = Pick<User, 'timezone' | 'pause_until'>;
+
+/**
+ * Validate a pause window request; returns an error message or null
+ */
+export function validatePauseWindow(input: PauseWindowRequest, now: Date = new Date()): string | null {
+  if (input.label !== undefined && (typeof input.label !== 'string' || input.label.length > PAUSE_LABEL_MAX_LENGTH)) {
+    return `label must be at most ${PAUSE_LABEL_MAX_LENGTH} characters`;
+  }
+
+  if (input.kind === 'range') {
+    const startsAt = new Date(input.starts_at ?? '');
+    const endsAt = new Date(input.ends_at ?? '');
+    if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+      return 'starts_at and ends_at must be ISO8601 timestamps';
+    }
+    if (endsAt <= startsAt) {
+      return 'ends_at must be after starts_at';
+    }
+    if (endsAt <= now) {
+      return 'ends_at must be in the future';
+    }
+    return null;
+  }
+
+  if (input.kind === 'recurring') {
+    const start = parseTimeOfDay(input.start_time ?? '');
+    const end = parseTimeOfDay(input.end_time ?? '');
+    if (!start || !end) {
+      return 'start_time and end_time must be in HH:MM format';
+    }
+    if (input.start_time === input.end_time) {
+      return 'start_time and end_time must differ';
+    }
+    if (input.days !== undefined) {
+      if (!Array.isArray(input.days) || input.days.length === 0) {
+        return 'days must be a non-empty array';
+      }
+      for (const day of input.days) {
+        if (!WEEKDAYS.includes(day as Weekday)) {
+          return `Invalid weekday "${day}" (use ${WEEKDAYS.join(', ')})`;
+        }
+      }
+    }
+    return null;
+  }
+
+  return "kind must be 'range' or 'recurring'";
+}
+
+/**
+ * Parse the days JSON column of a recurring window (null = every day)
+ */
+export function parsePauseDays(days: string | null): Weekday[] | null {
+  if (!days) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(days);
+    return Array.isArray(parsed) ? parsed.filter((d): d is Weekday => WEEKDAYS.includes(d)) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * If a window covers an instant, return when that occurrence of it ends
+ */
+function getWindowEnd(window: PauseWindow, timeZone: string, at: Date): Date | null {
+  if (window.kind === 'range') {
+    const startsAt = new Date(window.starts_at!);
+    const endsAt = new Date(window.ends_at!);
+    return startsAt <= at && at < endsAt ? endsAt : null;
+  }
+
+  const start = parseTimeOfDay(window.start_time ?? '');
+  const end = parseTimeOfDay(window.end_time ?? '');
+  if (!start || !end) {
+    return null;
+  }
+
+  const days = parsePauseDays(window.days);
+  const wraps = end.hour * 60 + end.minute <= start.hour * 60 + start.minute;
+  const today = getLocalDateTime(at, timeZone);
+
+  // A window that wraps past midnight may have started yesterday
+  for (const offset of wraps ? [0, -1] : [0]) {
+    const day = addDays(today, offset);
+    const weekday = WEEKDAYS[new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay()];
+    if (days && !days.includes(weekday)) {
+      continue;
+    }
+
+    const windowStart = zonedTimeToUtc(day, start.hour, start.minute, timeZone);
+    const windowEnd = zonedTimeToUtc(wraps ? addDays(day, 1) : day, end.hour, end.minute, timeZone);
+    if (windowStart <= at && at < windowEnd) {
+      return windowEnd;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get when the pause covering an instant ends
+ * Back-to-back pauses (e.g. a trip followed by a nightly window) are
+ * treated as one pause.
+ * @returns the end of the pause, or null if monitoring is active at that instant
+ */
+export function getPauseEnd(user: PauseSource, windows: PauseWindow[], at: Date): Date | null {
+  const timeZone = resolveTimeZone(user.timezone);
+  const pauseUntil = user.pause_until ? new Date(user.pause_until) : null;
+
+  let cursor = at;
+  for (let i = 0; i < MAX_CHAINED_PAUSES; i++) {
+    let end: Date | null = pauseUntil && pauseUntil > cursor ? pauseUntil : null;
+    for (const window of windows) {
+      const windowEnd = getWindowEnd(window, timeZone, cursor);
+      if (windowEnd && (!end || windowEnd > end)) {
+        end = windowEnd;
+      }
+    }
+    if (!end) {
+      break;
+    }
+    cursor = end;
+  }
+
+  return cursor > at ? cursor : null;
+}
+
+/**
+ * Check whether monitoring is paused at an instant
+ */
+export function isPausedAt(user: PauseSource, windows: PauseWindow[], at: Date): boolean {
+  return getPauseEnd(user, windows, at) !== null;
+}
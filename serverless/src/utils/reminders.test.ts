@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_REMINDER_LADDER,
+  validateReminderLadder,
+  parseReminderLadder,
+  getReminderTimes,
+  getNextReminderAt,
+} from './reminders';
+
+const SCHEDULED = '2026-03-02T09:00:00.000Z';
+const DEADLINE = '2026-03-02T09:10:00.000Z';
+
+describe('validateReminderLadder', () => {
+  it('accepts percent and minutes_before_deadline steps', () => {
+    expect(validateReminderLadder([{ percent: 25 }, { minutes_before_deadline: 2 }])).toBeNull();
+    expect(validateReminderLadder([])).toBeNull();
+  });
+
+  it('rejects steps with both or neither kind of offset', () => {
+    expect(validateReminderLadder([{ percent: 50, minutes_before_deadline: 1 }])).toMatch(/exactly one/);
+    expect(validateReminderLadder([{}])).toMatch(/exactly one/);
+  });
+
+  it('rejects out-of-range values and long ladders', () => {
+    expect(validateReminderLadder([{ percent: 100 }])).toMatch(/percent/);
+    expect(validateReminderLadder([{ minutes_before_deadline: 31 }])).toMatch(/minutes_before_deadline/);
+    expect(validateReminderLadder(Array(6).fill({ percent: 50 }))).toMatch(/at most/);
+    expect(validateReminderLadder('nope')).toMatch(/array/);
+  });
+});
+
+describe('parseReminderLadder', () => {
+  it('falls back to the default ladder for missing or invalid JSON', () => {
+    expect(parseReminderLadder(null)).toBe(DEFAULT_REMINDER_LADDER);
+    expect(parseReminderLadder('{')).toBe(DEFAULT_REMINDER_LADDER);
+    expect(parseReminderLadder('[{"percent":0}]')).toBe(DEFAULT_REMINDER_LADDER);
+  });
+
+  it('returns a valid stored ladder', () => {
+    expect(parseReminderLadder('[{"percent":80}]')).toEqual([{ percent: 80 }]);
+  });
+});
+
+describe('getReminderTimes', () => {
+  it('resolves steps inside the grace window in send order', () => {
+    const times = getReminderTimes([{ minutes_before_deadline: 1 }, { percent: 50 }], SCHEDULED, DEADLINE);
+    expect(times.map((t) => t.toISOString())).toEqual([
+      '2026-03-02T09:05:00.000Z',
+      '2026-03-02T09:09:00.000Z',
+    ]);
+  });
+
+  it('drops steps that fall outside the window', () => {
+    const times = getReminderTimes([{ minutes_before_deadline: 15 }, { percent: 50 }], SCHEDULED, DEADLINE);
+    expect(times.map((t) => t.toISOString())).toEqual(['2026-03-02T09:05:00.000Z']);
+  });
+});
+
+describe('getNextReminderAt', () => {
+  it('returns the next unsent step, then null once the ladder is exhausted', () => {
+    expect(getNextReminderAt(DEFAULT_REMINDER_LADDER, SCHEDULED, DEADLINE, 0)).toBe('2026-03-02T09:05:00.000Z');
+    expect(getNextReminderAt(DEFAULT_REMINDER_LADDER, SCHEDULED, DEADLINE, 1)).toBe('2026-03-02T09:09:00.000Z');
+    expect(getNextReminderAt(DEFAULT_REMINDER_LADDER, SCHEDULED, DEADLINE, 2)).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Are You Safe? - Reminder Ladder Utilities
+ *
+ * A reminder ladder is a list of in-grace reminder steps for a pending
+ * event. Each step is either a percentage of the grace window
+ * ({"percent": 50}) or a fixed lead before the deadline
+ * ({"minutes_before_deadline": 1}).
+ */
+
+export interface ReminderStep {
+  percent?: number;
+  minutes_before_deadline?: number;
+}
+
+export const DEFAULT_REMINDER_LADDER: ReminderStep[] = [
+  { percent: 50 },
+  { minutes_before_deadline: 1 },
+];
+
+export const MAX_REMINDER_STEPS = 5;
+
+/**
+ * Validate a reminder ladder from an API request
+ * @returns Error message, or null if valid
+ */
+export function validateReminderLadder(ladder: unknown): string | null {
+  if (!Array.isArray(ladder)) {
+    return 'reminder_ladder must be an array';
+  }
+  if (ladder.length > MAX_REMINDER_STEPS) {
+    return `reminder_ladder can have at most ${MAX_REMINDER_STEPS} steps`;
+  }
+  for (const step of ladder) {
+    if (!step || typeof step !== 'object') {
+      return 'Each reminder step must be an object';
+    }
+    const { percent, minutes_before_deadline } = step as ReminderStep;
+    if ((percent === undefined) === (minutes_before_deadline === undefined)) {
+      return 'Each reminder step needs exactly one of percent or minutes_before_deadline';
+    }
+    if (percent !== undefined && (!Number.isInteger(percent) || percent < 1 || percent > 99)) {
+      return 'percent must be an integer between 1 and 99';
+    }
+    if (minutes_before_deadline !== undefined
+      && (!Number.isInteger(minutes_before_deadline) || minutes_before_deadline < 1 || minutes_before_deadline > 30)) {
+      return 'minutes_before_deadline must be an integer between 1 and 30';
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse the reminder_ladder JSON column, falling back to the default ladder
+ */
+export function parseReminderLadder(json: string | null | undefined): ReminderStep[] {
+  if (!json) {
+    return DEFAULT_REMINDER_LADDER;
+  }
+  try {
+    const ladder = JSON.parse(json);
+    return validateReminderLadder(ladder) === null ? ladder : DEFAULT_REMINDER_LADDER;
+  } catch {
+    return DEFAULT_REMINDER_LADDER;
+  }
+}
+
+/**
+ * Resolve ladder steps into instants within a grace window, in send order
+ * Steps that fall outside the window are dropped.
+ */
+export function getReminderTimes(ladder: ReminderStep[], scheduledTime: string, deadlineTime: string): Date[] {
+  const start = new Date(scheduledTime).getTime();
+  const end = new Date(deadlineTime).getTime();
+
+  return ladder
+    .map((step) => step.percent !== undefined
+      ? start + ((end - start) * step.percent) / 100
+      : end - step.minutes_before_deadline! * 60 * 1000)
+    .filter((t) => t > start && t < end)
+    .sort((a, b) => a - b)
+    .map((t) => new Date(t));
+}
+
+/**
+ * Get the instant of the next unsent ladder step
+ * @param sentCount - Number of steps already sent for the event
+ * @returns ISO8601 string, or null if the ladder is exhausted
+ */
+export function getNextReminderAt(
+  ladder: ReminderStep[],
+  scheduledTime: string,
+  deadlineTime: string,
+  sentCount: number
+): string | null {
+  const next = getReminderTimes(ladder, scheduledTime, deadlineTime)[sentCount];
+  return next ? next.toISOString() : null;
+}
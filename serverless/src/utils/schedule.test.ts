@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateScheduleRules,
+  validateIntervalHours,
+  normalizeScheduleRules,
+  rulesToCheckinTimes,
+  parseCheckinTimes,
+  listOccurrences,
+  findOpenWindow,
+  getNextOccurrence,
+  computeNextCheckinAt,
+  computeNextEarlyReminderAt,
+} from './schedule';
+
+const NEW_YORK = 'America/New_York';
+
+function scheduleUser(checkinTimes: string[], fields: Record<string, unknown> = {}) {
+  return {
+    timezone: NEW_YORK,
+    checkin_times: JSON.stringify(checkinTimes),
+    schedule_rules: null as string | null,
+    pause_until: null as string | null,
+    early_reminder_enabled: 0,
+    early_reminder_minutes: 30,
+    ...fields,
+  };
+}
+
+function times(occurrences: { scheduledTime: Date }[]): string[] {
+  return occurrences.map((o) => o.scheduledTime.toISOString());
+}
+
+describe('parseCheckinTimes', () => {
+  it('drops malformed entries and unreadable JSON', () => {
+    expect(parseCheckinTimes('["09:00","9am",21]')).toEqual(['09:00']);
+    expect(parseCheckinTimes('{')).toEqual([]);
+    expect(parseCheckinTimes(null)).toEqual([]);
+  });
+});
+
+describe('validateScheduleRules', () => {
+  it('accepts daily, weekday and every-N-days rules', () => {
+    expect(validateScheduleRules([
+      { times: ['09:00', '07:00-10:00'] },
+      { times: ['21:00'], days: ['MO', 'FR'] },
+      { times: ['12:00'], interval_days: 3, start_date: '2026-03-02' },
+    ])).toBeNull();
+  });
+
+  it('rejects windows that are too short or run backwards', () => {
+    expect(validateScheduleRules([{ times: ['10:00-10:03'] }])).toMatch(/format/);
+    expect(validateScheduleRules([{ times: ['10:00-09:00'] }])).toMatch(/format/);
+  });
+
+  it('rejects invalid times, days and interval combinations', () => {
+    expect(validateScheduleRules([{ times: ['9am'] }])).toMatch(/HH:MM/);
+    expect(validateScheduleRules([{ times: ['09:00'], days: ['XX'] }])).toMatch(/weekday/);
+    expect(validateScheduleRules([{ times: ['09:00'], interval_days: 2 }])).toMatch(/start_date/);
+    expect(validateScheduleRules([{ times: ['09:00'], interval_days: 2, start_date: '2026-02-30' }])).toMatch(/start_date/);
+    expect(validateScheduleRules([{ times: ['09:00'], days: ['MO'], interval_days: 2, start_date: '2026-03-02' }])).toMatch(/cannot be combined/);
+    expect(validateScheduleRules([{ times: ['09:00'], start_date: '2026-03-02' }])).toMatch(/only allowed/);
+    expect(validateScheduleRules([])).toMatch(/At least one/);
+  });
+});
+
+describe('normalizeScheduleRules / rulesToCheckinTimes', () => {
+  it('sorts and dedupes times and orders weekdays', () => {
+    const rules = normalizeScheduleRules([{ times: ['21:00', '09:00', '09:00'], days: ['FR', 'MO'] }]);
+    expect(rules).toEqual([{ times: ['09:00', '21:00'], days: ['MO', 'FR'] }]);
+    expect(rulesToCheckinTimes([...rules, { times: ['07:00-10:00'] }])).toEqual(['07:00', '09:00', '21:00']);
+  });
+});
+
+describe('listOccurrences', () => {
+  it('keeps the local time across a DST change', () => {
+    const user = scheduleUser(['09:00']);
+    const occurrences = listOccurrences(user, new Date('2026-03-07T00:00:00Z'), new Date('2026-03-09T00:00:00Z'));
+    expect(times(occurrences)).toEqual(['2026-03-07T14:00:00.000Z', '2026-03-08T13:00:00.000Z']);
+  });
+
+  it('returns several slots a day in order', () => {
+    const user = scheduleUser(['21:00', '09:00']);
+    const occurrences = listOccurrences(user, new Date('2026-01-15T05:00:00Z'), new Date('2026-01-16T05:00:00Z'));
+    expect(times(occurrences)).toEqual(['2026-01-15T14:00:00.000Z', '2026-01-16T02:00:00.000Z']);
+  });
+
+  it('only uses weekday rules on their days', () => {
+    // 2026-03-02 is a Monday
+    const user = scheduleUser(['09:00'], { schedule_rules: JSON.stringify([{ times: ['09:00'], days: ['MO', 'WE'] }]) });
+    const occurrences = listOccurrences(user, new Date('2026-03-02T00:00:00Z'), new Date('2026-03-09T00:00:00Z'));
+    expect(times(occurrences)).toEqual(['2026-03-02T14:00:00.000Z', '2026-03-04T14:00:00.000Z']);
+  });
+
+  it('repeats every-N-days rules from their start date', () => {
+    const user = scheduleUser(['09:00'], { schedule_rules: JSON.stringify([{ times: ['09:00'], interval_days: 3, start_date: '2026-03-03' }]) });
+    const occurrences = listOccurrences(user, new Date('2026-03-01T00:00:00Z'), new Date('2026-03-10T00:00:00Z'));
+    expect(times(occurrences)).toEqual(['2026-03-03T14:00:00.000Z', '2026-03-06T14:00:00.000Z', '2026-03-09T13:00:00.000Z']);
+  });
+
+  it('collapses overlapping rules onto one slot', () => {
+    const user = scheduleUser(['09:00'], { schedule_rules: JSON.stringify([{ times: ['09:00'] }, { times: ['09:00'], days: ['MO'] }]) });
+    const occurrences = listOccurrences(user, new Date('2026-03-02T00:00:00Z'), new Date('2026-03-03T00:00:00Z'));
+    expect(times(occurrences)).toEqual(['2026-03-02T14:00:00.000Z']);
+  });
+
+  it('gives window slots their start and end', () => {
+    const user = scheduleUser(['07:00'], { schedule_rules: JSON.stringify([{ times: ['07:00-10:00'] }]) });
+    const [occurrence] = listOccurrences(user, new Date('2026-01-15T00:00:00Z'), new Date('2026-01-16T00:00:00Z'));
+    expect(occurrence.slot).toBe('07:00-10:00');
+    expect(occurrence.scheduledTime.toISOString()).toBe('2026-01-15T12:00:00.000Z');
+    expect(occurrence.windowEnd?.toISOString()).toBe('2026-01-15T15:00:00.000Z');
+  });
+
+  it('falls back to checkin_times when the stored rules are invalid', () => {
+    const user = scheduleUser(['10:00'], { schedule_rules: '[{"times":[]}]' });
+    const occurrences = listOccurrences(user, new Date('2026-01-15T00:00:00Z'), new Date('2026-01-16T00:00:00Z'));
+    expect(times(occurrences)).toEqual(['2026-01-15T15:00:00.000Z']);
+  });
+
+  it('excludes the start of the range and includes the end', () => {
+    const user = scheduleUser(['09:00']);
+    const slot = new Date('2026-01-15T14:00:00Z');
+    expect(listOccurrences(user, slot, new Date('2026-01-15T20:00:00Z'))).toHaveLength(0);
+    expect(listOccurrences(user, new Date('2026-01-15T08:00:00Z'), slot)).toHaveLength(1);
+  });
+});
+
+describe('findOpenWindow', () => {
+  const user = scheduleUser(['07:00'], { schedule_rules: JSON.stringify([{ times: ['07:00-10:00'] }]) });
+
+  it('returns the window open at an instant', () => {
+    expect(findOpenWindow(user, new Date('2026-01-15T13:00:00Z'))?.slot).toBe('07:00-10:00');
+  });
+
+  it('returns null before the window opens and once it has closed', () => {
+    expect(findOpenWindow(user, new Date('2026-01-15T11:59:00Z'))).toBeNull();
+    expect(findOpenWindow(user, new Date('2026-01-15T15:00:00Z'))).toBeNull();
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('finds the first slot strictly after an instant', () => {
+    const user = scheduleUser(['09:00']);
+    expect(getNextOccurrence(user, new Date('2026-01-15T14:00:00Z'))?.scheduledTime.toISOString()).toBe('2026-01-16T14:00:00.000Z');
+  });
+});
+
+describe('interval mode', () => {
+  const user = scheduleUser([], {
+    checkin_mode: 'interval',
+    interval_hours: 8,
+    interval_anchor_at: '2026-01-15T08:00:00.000Z',
+    grace_minutes: 10,
+  });
+
+  it('starts each event grace_minutes before every interval deadline', () => {
+    const occurrences = listOccurrences(user, new Date('2026-01-15T08:00:00Z'), new Date('2026-01-16T08:00:00Z'));
+    expect(times(occurrences)).toEqual([
+      '2026-01-15T15:50:00.000Z',
+      '2026-01-15T23:50:00.000Z',
+      '2026-01-16T07:50:00.000Z',
+    ]);
+  });
+
+  it('finds the next deadline after a given instant', () => {
+    expect(getNextOccurrence(user, new Date('2026-01-15T16:00:00Z'))?.scheduledTime.toISOString()).toBe('2026-01-15T23:50:00.000Z');
+  });
+
+  it('has no occurrences without an anchor', () => {
+    expect(listOccurrences({ ...user, interval_anchor_at: null }, new Date(0), new Date())).toEqual([]);
+  });
+
+  it('validates the interval against the grace period', () => {
+    expect(validateIntervalHours(8, 10)).toBeNull();
+    expect(validateIntervalHours(0, 10)).toMatch(/between/);
+    expect(validateIntervalHours(1, 60)).toMatch(/longer than the grace/);
+  });
+});
+
+describe('computeNextCheckinAt', () => {
+  it('returns the next slot', () => {
+    expect(computeNextCheckinAt(scheduleUser(['09:00']), new Date('2026-01-15T13:00:00Z'))).toBe('2026-01-15T14:00:00.000Z');
+  });
+
+  it('skips slots inside pause_until', () => {
+    const user = scheduleUser(['09:00'], { pause_until: '2026-01-17T12:00:00.000Z' });
+    expect(computeNextCheckinAt(user, new Date('2026-01-15T15:00:00Z'))).toBe('2026-01-17T14:00:00.000Z');
+  });
+
+  it('skips slots inside a pause calendar window', () => {
+    // Every Friday from 22:00 to Monday 06:00 local (2026-01-16 is a Friday)
+    const weekend = {
+      pause_id: 'weekend',
+      user_id: 'user',
+      kind: 'recurring' as const,
+      label: null,
+      starts_at: null,
+      ends_at: null,
+      start_time: '22:00',
+      end_time: '06:00',
+      days: '["FR","SA","SU"]',
+      created_at: '2026-01-01T00:00:00.000Z',
+    };
+    const user = scheduleUser(['05:30', '09:00']);
+    expect(computeNextCheckinAt(user, new Date('2026-01-17T00:00:00Z'), [weekend])).toBe('2026-01-17T14:00:00.000Z');
+    expect(computeNextCheckinAt(user, new Date('2026-01-19T00:00:00Z'), [weekend])).toBe('2026-01-19T14:00:00.000Z');
+  });
+
+  it('returns null when the user has no slots', () => {
+    expect(computeNextCheckinAt(scheduleUser([]), new Date())).toBeNull();
+  });
+});
+
+describe('computeNextEarlyReminderAt', () => {
+  it('targets the first slot whose reminder is still ahead', () => {
+    const user = scheduleUser(['09:00'], { early_reminder_enabled: 1, early_reminder_minutes: 30 });
+    expect(computeNextEarlyReminderAt(user, new Date('2026-01-15T13:40:00Z'))).toBe('2026-01-16T13:30:00.000Z');
+    expect(computeNextEarlyReminderAt(user, new Date('2026-01-15T13:00:00Z'))).toBe('2026-01-15T13:30:00.000Z');
+  });
+
+  it('skips slots inside pause_until', () => {
+    const user = scheduleUser(['09:00'], { early_reminder_enabled: 1, pause_until: '2026-01-16T20:00:00.000Z' });
+    expect(computeNextEarlyReminderAt(user, new Date('2026-01-15T13:00:00Z'))).toBe('2026-01-17T13:30:00.000Z');
+  });
+
+  it('is off while early reminders are disabled', () => {
+    expect(computeNextEarlyReminderAt(scheduleUser(['09:00']))).toBeNull();
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * Are You Safe? - Schedule Utilities
+ *
+ * Expands a user's check-in schedule into concrete UTC instants.
+ * Slots are wall-clock times in the user's timezone. A schedule is a
+ * list of rules (see ScheduleRule); users without rules fall back to
+ * the flat checkin_times list applied every day.
+ *
+ * A slot is either an exact time ("09:00") or a window ("07:00-10:00").
+ * A window event is confirmable from the window start and its deadline
+ * is the window end.
+ *
+ * In interval mode the clock schedule is ignored: deadlines fall every
+ * interval_hours after interval_anchor_at (the last confirmation), and
+ * each event is created grace_minutes before its deadline.
+ */
+
+import { User, PauseWindow } from '../types';
+import {
+  resolveTimeZone,
+  getLocalDateTime,
+  zonedTimeToUtc,
+  addDays,
+  parseTimeOfDay,
+  LocalDate,
+  Weekday,
+  WEEKDAYS,
+} from './timezone';
+import { getPauseEnd } from './pauses';
+
+export interface ScheduleOccurrence {
+  slot: string;        // HH:MM or HH:MM-HH:MM as configured
+  scheduledTime: Date; // UTC instant of the slot (window start for windows)
+  windowEnd?: Date;    // UTC instant of the window end, for window slots
+}
+
+interface ParsedSlot {
+  start: { hour: number; minute: number };
+  end?: { hour: number; minute: number };
+}
+
+// Shortest allowed check-in window
+const MIN_WINDOW_MINUTES = 5;
+
+export type { Weekday };
+
+/**
+ * One schedule rule - a subset of RRULE semantics
+ * - days: BYDAY, the weekdays the rule applies on (omitted = every day)
+ * - interval_days + start_date: FREQ=DAILY;INTERVAL=n anchored at start_date
+ */
+export interface ScheduleRule {
+  times: string[];
+  days?: Weekday[];
+  interval_days?: number;
+  start_date?: string; // YYYY-MM-DD in the user's timezone
+}
+
+type ScheduleSource = Pick<User, 'timezone' | 'checkin_times' | 'schedule_rules'>
+  & Partial<Pick<User, 'checkin_mode' | 'interval_hours' | 'interval_anchor_at' | 'grace_minutes'>>;
+
+export const MAX_SCHEDULE_RULES = 14;
+export const MAX_INTERVAL_DAYS = 14;
+export const MAX_SLOTS_PER_DAY = 10;
+export const MIN_INTERVAL_HOURS = 1;
+export const MAX_INTERVAL_HOURS = 72;
+
+// How far ahead to look for the next slot (covers the longest interval)
+const LOOKAHEAD_DAYS = MAX_INTERVAL_DAYS + 1;
+
+/**
+ * Parse the checkin_times JSON column, ignoring malformed entries
+ */
+export function parseCheckinTimes(checkinTimes: string | null): string[] {
+  if (!checkinTimes) {
+    return [];
+  }
+  try {
+    const times = JSON.parse(checkinTimes);
+    return Array.isArray(times) ? times.filter((t) => typeof t === 'string' && parseSlot(t)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Validate schedule rules from an API request
+ * @returns Error message, or null if valid
+ */
+export function validateScheduleRules(rules: unknown): string | null {
+  if (!Array.isArray(rules) || rules.length === 0) {
+    return 'At least one schedule rule is required';
+  }
+  if (rules.length > MAX_SCHEDULE_RULES) {
+    return `At most ${MAX_SCHEDULE_RULES} schedule rules are allowed`;
+  }
+
+  for (const rule of rules as ScheduleRule[]) {
+    if (!rule || typeof rule !== 'object') {
+      return 'Each schedule rule must be an object';
+    }
+    if (!Array.isArray(rule.times) || rule.times.length === 0) {
+      return 'Each schedule rule needs at least one time';
+    }
+    if (rule.times.length > MAX_SLOTS_PER_DAY) {
+      return `A schedule rule can have at most ${MAX_SLOTS_PER_DAY} times`;
+    }
+    for (const time of rule.times) {
+      if (typeof time !== 'string' || !parseSlot(time)) {
+        return `Time "${time}" is not in HH:MM or HH:MM-HH:MM format`;
+      }
+    }
+    if (rule.days !== undefined) {
+      if (!Array.isArray(rule.days) || rule.days.length === 0) {
+        return 'days must be a non-empty array of weekdays';
+      }
+      for (const day of rule.days) {
+        if (!WEEKDAYS.includes(day)) {
+          return `Invalid weekday "${day}" (use ${WEEKDAYS.join(', ')})`;
+        }
+      }
+    }
+    if (rule.interval_days !== undefined) {
+      if (!Number.isInteger(rule.interval_days) || rule.interval_days < 1 || rule.interval_days > MAX_INTERVAL_DAYS) {
+        return `interval_days must be an integer between 1 and ${MAX_INTERVAL_DAYS}`;
+      }
+      if (!rule.start_date || !parseLocalDate(rule.start_date)) {
+        return 'start_date (YYYY-MM-DD) is required with interval_days';
+      }
+      if (rule.days !== undefined) {
+        return 'days and interval_days cannot be combined in one rule';
+      }
+    } else if (rule.start_date !== undefined) {
+      return 'start_date is only allowed with interval_days';
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate an interval-mode interval; returns an error message or null
+ */
+export function validateIntervalHours(hours: unknown, graceMinutes: number): string | null {
+  if (typeof hours !== 'number' || !Number.isInteger(hours)
+    || hours < MIN_INTERVAL_HOURS || hours > MAX_INTERVAL_HOURS) {
+    return `interval_hours must be an integer between ${MIN_INTERVAL_HOURS} and ${MAX_INTERVAL_HOURS}`;
+  }
+  if (graceMinutes >= hours * 60) {
+    return 'interval_hours must be longer than the grace period';
+  }
+  return null;
+}
+
+/**
+ * Normalize validated rules: keep known fields, sort and dedupe times
+ */
+export function normalizeScheduleRules(rules: ScheduleRule[]): ScheduleRule[] {
+  return rules.map((rule) => ({
+    times: Array.from(new Set(rule.times)).sort(),
+    ...(rule.days && { days: WEEKDAYS.filter((d) => rule.days!.includes(d)) }),
+    ...(rule.interval_days !== undefined && { interval_days: rule.interval_days, start_date: rule.start_date }),
+  }));
+}
+
+/**
+ * Build the legacy checkin_times list (all distinct times) from rules
+ * Windows are represented by their start time.
+ */
+export function rulesToCheckinTimes(rules: ScheduleRule[]): string[] {
+  return Array.from(new Set(rules.flatMap((rule) => rule.times.map((t) => t.substring(0, 5))))).sort();
+}
+
+/**
+ * Parse a slot string: "HH:MM" or a same-day window "HH:MM-HH:MM"
+ */
+function parseSlot(slot: string): ParsedSlot | null {
+  const [startStr, endStr, ...rest] = slot.split('-');
+  const start = parseTimeOfDay(startStr);
+  if (!start || rest.length > 0) {
+    return null;
+  }
+  if (endStr === undefined) {
+    return { start };
+  }
+
+  const end = parseTimeOfDay(endStr);
+  if (!end || (end.hour * 60 + end.minute) - (start.hour * 60 + start.minute) < MIN_WINDOW_MINUTES) {
+    return null;
+  }
+  return { start, end };
+}
+
+/**
+ * Get a user's schedule rules
+ * Falls back to a single daily rule built from checkin_times.
+ */
+export function parseScheduleRules(user: ScheduleSource): ScheduleRule[] {
+  if (user.schedule_rules) {
+    try {
+      const rules = JSON.parse(user.schedule_rules);
+      if (validateScheduleRules(rules) === null) {
+        return rules;
+      }
+    } catch {
+      // Fall through to checkin_times
+    }
+  }
+
+  const times = parseCheckinTimes(user.checkin_times);
+  return times.length > 0 ? [{ times }] : [];
+}
+
+/**
+ * Check whether a rule applies on a local calendar date
+ */
+function ruleAppliesOn(rule: ScheduleRule, day: LocalDate): boolean {
+  const dayKey = Date.UTC(day.year, day.month - 1, day.day);
+
+  if (rule.days && !rule.days.includes(WEEKDAYS[new Date(dayKey).getUTCDay()])) {
+    return false;
+  }
+
+  if (rule.interval_days && rule.start_date) {
+    const start = parseLocalDate(rule.start_date)!;
+    const startKey = Date.UTC(start.year, start.month - 1, start.day);
+    const daysSinceStart = Math.round((dayKey - startKey) / (24 * 60 * 60 * 1000));
+    if (daysSinceStart < 0 || daysSinceStart % rule.interval_days !== 0) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Parse a YYYY-MM-DD date string
+ */
+function parseLocalDate(value: string): LocalDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const date = { year: parseInt(match[1], 10), month: parseInt(match[2], 10), day: parseInt(match[3], 10) };
+  const check = new Date(Date.UTC(date.year, date.month - 1, date.day));
+  if (check.getUTCMonth() !== date.month - 1 || check.getUTCDate() !== date.day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * List interval-mode occurrences in (from, to]
+ * The k-th deadline is anchor + k * interval; the event starts grace earlier.
+ */
+function listIntervalOccurrences(user: ScheduleSource, from: Date, to: Date): ScheduleOccurrence[] {
+  const anchor = user.interval_anchor_at ? new Date(user.interval_anchor_at) : null;
+  if (!anchor || isNaN(anchor.getTime()) || !(user.interval_hours! > 0)) {
+    return [];
+  }
+
+  const intervalMs = user.interval_hours! * 60 * 60 * 1000;
+  const leadMs = Math.min((user.grace_minutes || 0) * 60 * 1000, intervalMs);
+  const firstK = Math.max(1, Math.floor((from.getTime() - anchor.getTime() + leadMs) / intervalMs) + 1);
+
+  const occurrences: ScheduleOccurrence[] = [];
+  for (let k = firstK; occurrences.length < 100; k++) {
+    const scheduledTime = new Date(anchor.getTime() + k * intervalMs - leadMs);
+    if (scheduledTime > to) {
+      break;
+    }
+    if (scheduledTime > from) {
+      occurrences.push({ slot: 'interval', scheduledTime });
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * List all slot occurrences in the interval (from, to], sorted by time
+ */
+export function listOccurrences(user: ScheduleSource, from: Date, to: Date): ScheduleOccurrence[] {
+  if (user.checkin_mode === 'interval') {
+    return to > from ? listIntervalOccurrences(user, from, to) : [];
+  }
+
+  const rules = parseScheduleRules(user);
+  if (rules.length === 0 || to <= from) {
+    return [];
+  }
+
+  const timeZone = resolveTimeZone(user.timezone);
+  const firstDay = addDays(getLocalDateTime(from, timeZone), -1);
+  const lastDay = addDays(getLocalDateTime(to, timeZone), 1);
+  const lastDayKey = Date.UTC(lastDay.year, lastDay.month - 1, lastDay.day);
+
+  const occurrences: ScheduleOccurrence[] = [];
+  for (let day = firstDay; Date.UTC(day.year, day.month - 1, day.day) <= lastDayKey; day = addDays(day, 1)) {
+    for (const rule of rules) {
+      if (!ruleAppliesOn(rule, day)) {
+        continue;
+      }
+      for (const slot of rule.times) {
+        const { start, end } = parseSlot(slot)!;
+        const scheduledTime = zonedTimeToUtc(day, start.hour, start.minute, timeZone);
+        if (scheduledTime > from && scheduledTime <= to) {
+          const windowEnd = end ? zonedTimeToUtc(day, end.hour, end.minute, timeZone) : undefined;
+          occurrences.push({ slot, scheduledTime, ...(windowEnd && { windowEnd }) });
+        }
+      }
+    }
+  }
+
+  // Overlapping rules or a DST gap can map two slots onto one instant - keep the first
+  const seen = new Set<number>();
+  return occurrences
+    .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime())
+    .filter((o) => {
+      const key = o.scheduledTime.getTime();
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Find the window slot that is open at a given instant, if any
+ */
+export function findOpenWindow(user: ScheduleSource, at: Date): ScheduleOccurrence | null {
+  const dayBefore = new Date(at.getTime() - 24 * 60 * 60 * 1000);
+  const open = listOccurrences(user, dayBefore, at).filter((o) => o.windowEnd && o.windowEnd > at);
+  return open.length > 0 ? open[open.length - 1] : null;
+}
+
+/**
+ * Find the first slot occurrence strictly after a given instant
+ */
+export function getNextOccurrence(user: ScheduleSource, after: Date): ScheduleOccurrence | null {
+  const lookaheadMs = user.checkin_mode === 'interval'
+    ? (MAX_INTERVAL_HOURS + 1) * 60 * 60 * 1000
+    : LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+  const until = new Date(after.getTime() + lookaheadMs);
+  return listOccurrences(user, after, until)[0] || null;
+}
+
+// Upper bound on paused slots skipped when looking for the next slot
+const MAX_PAUSED_SLOTS = 50;
+
+/**
+ * Compute the next check-in instant for a user, skipping slots that fall
+ * inside a pause (pause_until or the pause calendar)
+ * If the search gives up inside a long pause, the instant reached is
+ * returned so the scheduler wakes up and re-evaluates from there.
+ * @returns ISO8601 string, or null if the user has no slots
+ */
+export function computeNextCheckinAt(
+  user: ScheduleSource & Pick<User, 'pause_until'>,
+  now: Date = new Date(),
+  pauses: PauseWindow[] = []
+): string | null {
+  let after = now;
+  for (let i = 0; i < MAX_PAUSED_SLOTS; i++) {
+    const next = getNextOccurrence(user, after);
+    if (!next) {
+      return null;
+    }
+    const pauseEnd = getPauseEnd(user, pauses, next.scheduledTime);
+    if (!pauseEnd) {
+      return next.scheduledTime.toISOString();
+    }
+    // A slot exactly at the end of the pause is active again
+    after = new Date(pauseEnd.getTime() - 1);
+  }
+  return after.toISOString();
+}
+
+/**
+ * Compute when the next early reminder should be sent
+ * Targets the first slot whose reminder time is still in the future
+ * and which does not fall inside a pause.
+ * @returns ISO8601 string, or null if early reminders are off or no slot exists
+ */
+export function computeNextEarlyReminderAt(
+  user: ScheduleSource & Pick<User, 'pause_until' | 'early_reminder_enabled' | 'early_reminder_minutes'>,
+  now: Date = new Date(),
+  pauses: PauseWindow[] = []
+): string | null {
+  if (!user.early_reminder_enabled || !(user.early_reminder_minutes > 0)) {
+    return null;
+  }
+
+  const leadMs = user.early_reminder_minutes * 60 * 1000;
+  const next = computeNextCheckinAt(user, new Date(now.getTime() + leadMs), pauses);
+  return next ? new Date(new Date(next).getTime() - leadMs).toISOString() : null;
+}
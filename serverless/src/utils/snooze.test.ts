@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SNOOZE_POLICY,
+  validateSnoozePolicy,
+  normalizeSnoozePolicy,
+  parseSnoozePolicy,
+} from './snooze';
+
+describe('validateSnoozePolicy', () => {
+  it('accepts the default policy and a disabled one', () => {
+    expect(validateSnoozePolicy(DEFAULT_SNOOZE_POLICY)).toBeNull();
+    expect(validateSnoozePolicy({ max_count: 0, durations: [5], max_total_minutes: 5 })).toBeNull();
+  });
+
+  it('rejects values outside the server limits', () => {
+    expect(validateSnoozePolicy({ max_count: 6, durations: [5], max_total_minutes: 30 })).toMatch(/max_count/);
+    expect(validateSnoozePolicy({ max_count: 1, durations: [], max_total_minutes: 30 })).toMatch(/durations/);
+    expect(validateSnoozePolicy({ max_count: 1, durations: [1, 2, 3, 4, 5, 6, 7], max_total_minutes: 30 })).toMatch(/durations/);
+    expect(validateSnoozePolicy({ max_count: 1, durations: [61], max_total_minutes: 120 })).toMatch(/Each duration/);
+    expect(validateSnoozePolicy({ max_count: 1, durations: [5], max_total_minutes: 121 })).toMatch(/max_total_minutes/);
+  });
+
+  it('requires the total to allow at least the shortest duration', () => {
+    expect(validateSnoozePolicy({ max_count: 2, durations: [30, 15], max_total_minutes: 10 })).toMatch(/shortest/);
+  });
+});
+
+describe('normalizeSnoozePolicy', () => {
+  it('sorts and dedupes durations', () => {
+    expect(normalizeSnoozePolicy({ max_count: 2, durations: [30, 5, 30], max_total_minutes: 60 }))
+      .toEqual({ max_count: 2, durations: [5, 30], max_total_minutes: 60 });
+  });
+});
+
+describe('parseSnoozePolicy', () => {
+  it('reads and normalizes stored settings', () => {
+    expect(parseSnoozePolicy({ snooze_max_count: 3, snooze_durations: '[15,5]', snooze_max_total_minutes: 45 }))
+      .toEqual({ max_count: 3, durations: [5, 15], max_total_minutes: 45 });
+  });
+
+  it('falls back to the default for invalid or unreadable settings', () => {
+    expect(parseSnoozePolicy({ snooze_max_count: 9, snooze_durations: '[5]', snooze_max_total_minutes: 30 })).toBe(DEFAULT_SNOOZE_POLICY);
+    expect(parseSnoozePolicy({ snooze_max_count: 1, snooze_durations: '{', snooze_max_total_minutes: 30 })).toBe(DEFAULT_SNOOZE_POLICY);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Are You Safe? - Snooze Policy Utilities
+ *
+ * A snooze policy bounds how far a user can push out a pending event's
+ * deadline: how many times, by which durations, and by how much in total.
+ * User settings are validated against fixed server limits.
+ */
+
+import { User } from '../types';
+
+export interface SnoozePolicy {
+  max_count: number;         // Snoozes allowed per event (0 disables snoozing)
+  durations: number[];       // Allowed snooze lengths in minutes, ascending
+  max_total_minutes: number; // Cap on total snooze time per event
+}
+
+export const DEFAULT_SNOOZE_POLICY: SnoozePolicy = {
+  max_count: 1,
+  durations: [5, 10, 15, 30],
+  max_total_minutes: 30,
+};
+
+// Server limits
+export const MAX_SNOOZE_COUNT = 5;
+export const MAX_SNOOZE_DURATIONS = 6;
+export const MAX_SNOOZE_MINUTES = 60;
+export const MAX_SNOOZE_TOTAL_MINUTES = 120;
+
+/**
+ * Validate a snooze policy from an API request
+ * @returns Error message, or null if valid
+ */
+export function validateSnoozePolicy(policy: SnoozePolicy): string | null {
+  if (!Number.isInteger(policy.max_count) || policy.max_count < 0 || policy.max_count > MAX_SNOOZE_COUNT) {
+    return `max_count must be an integer between 0 and ${MAX_SNOOZE_COUNT}`;
+  }
+  if (!Array.isArray(policy.durations) || policy.durations.length === 0
+    || policy.durations.length > MAX_SNOOZE_DURATIONS) {
+    return `durations must list between 1 and ${MAX_SNOOZE_DURATIONS} values`;
+  }
+  for (const minutes of policy.durations) {
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_SNOOZE_MINUTES) {
+      return `Each duration must be an integer between 1 and ${MAX_SNOOZE_MINUTES} minutes`;
+    }
+  }
+  if (!Number.isInteger(policy.max_total_minutes)
+    || policy.max_total_minutes < 1 || policy.max_total_minutes > MAX_SNOOZE_TOTAL_MINUTES) {
+    return `max_total_minutes must be an integer between 1 and ${MAX_SNOOZE_TOTAL_MINUTES}`;
+  }
+  if (policy.max_total_minutes < Math.min(...policy.durations)) {
+    return 'max_total_minutes must allow at least the shortest duration';
+  }
+  return null;
+}
+
+/**
+ * Normalize a validated policy: sort and dedupe durations
+ */
+export function normalizeSnoozePolicy(policy: SnoozePolicy): SnoozePolicy {
+  return {
+    max_count: policy.max_count,
+    durations: [...new Set(policy.durations)].sort((a, b) => a - b),
+    max_total_minutes: policy.max_total_minutes,
+  };
+}
+
+/**
+ * Read a user's snooze policy, falling back to the default if the stored
+ * settings are missing or out of bounds
+ */
+export function parseSnoozePolicy(
+  user: Pick<User, 'snooze_max_count' | 'snooze_durations' | 'snooze_max_total_minutes'>
+): SnoozePolicy {
+  try {
+    const policy: SnoozePolicy = {
+      max_count: user.snooze_max_count,
+      durations: JSON.parse(user.snooze_durations),
+      max_total_minutes: user.snooze_max_total_minutes,
+    };
+    return validateSnoozePolicy(policy) === null ? normalizeSnoozePolicy(policy) : DEFAULT_SNOOZE_POLICY;
+  } catch {
+    return DEFAULT_SNOOZE_POLICY;
+  }
+}
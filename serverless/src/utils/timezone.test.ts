@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  zonedTimeToUtc,
+  getLocalDateTime,
+  getTimeZoneOffset,
+  resolveTimeZone,
+  addDays,
+  parseTimeOfDay,
+} from './timezone';
+
+const NEW_YORK = 'America/New_York';
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock times using the offset in effect that day', () => {
+    expect(zonedTimeToUtc({ year: 2026, month: 1, day: 15 }, 9, 0, NEW_YORK).toISOString()).toBe('2026-01-15T14:00:00.000Z');
+    expect(zonedTimeToUtc({ year: 2026, month: 7, day: 15 }, 9, 0, NEW_YORK).toISOString()).toBe('2026-07-15T13:00:00.000Z');
+    expect(zonedTimeToUtc({ year: 2026, month: 7, day: 15 }, 9, 0, 'Asia/Kolkata').toISOString()).toBe('2026-07-15T03:30:00.000Z');
+  });
+
+  it('shifts a time in the spring-forward gap forward by the gap', () => {
+    // 02:30 does not exist on 2026-03-08 in New York; it becomes 03:30 EDT
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 8 }, 2, 30, NEW_YORK).toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    // Times either side of the gap are unaffected
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 8 }, 1, 59, NEW_YORK).toISOString()).toBe('2026-03-08T06:59:00.000Z');
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 8 }, 3, 0, NEW_YORK).toISOString()).toBe('2026-03-08T07:00:00.000Z');
+  });
+
+  it('resolves a time in the fall-back overlap to the earlier instant', () => {
+    // 01:30 happens twice on 2026-11-01 in New York (EDT, then EST)
+    expect(zonedTimeToUtc({ year: 2026, month: 11, day: 1 }, 1, 30, NEW_YORK).toISOString()).toBe('2026-11-01T05:30:00.000Z');
+    expect(zonedTimeToUtc({ year: 2026, month: 11, day: 1 }, 2, 0, NEW_YORK).toISOString()).toBe('2026-11-01T07:00:00.000Z');
+  });
+
+  it('handles transitions in the southern hemisphere', () => {
+    // Sydney springs forward 02:00 -> 03:00 on 2026-10-04
+    expect(zonedTimeToUtc({ year: 2026, month: 10, day: 4 }, 2, 30, 'Australia/Sydney').toISOString()).toBe('2026-10-03T16:30:00.000Z');
+  });
+});
+
+describe('getLocalDateTime', () => {
+  it('returns the wall-clock date, time and weekday in a timezone', () => {
+    expect(getLocalDateTime(new Date('2026-03-02T03:30:00Z'), NEW_YORK)).toEqual({
+      year: 2026, month: 3, day: 1, hour: 22, minute: 30, second: 0, weekday: 0,
+    });
+  });
+});
+
+describe('getTimeZoneOffset', () => {
+  it('is positive east of Greenwich and follows DST', () => {
+    expect(getTimeZoneOffset(new Date('2026-01-15T12:00:00Z'), 'Asia/Tokyo')).toBe(9 * 60 * 60 * 1000);
+    expect(getTimeZoneOffset(new Date('2026-01-15T12:00:00Z'), NEW_YORK)).toBe(-5 * 60 * 60 * 1000);
+    expect(getTimeZoneOffset(new Date('2026-07-15T12:00:00Z'), NEW_YORK)).toBe(-4 * 60 * 60 * 1000);
+  });
+});
+
+describe('resolveTimeZone', () => {
+  it('falls back to UTC for missing or unknown zones', () => {
+    expect(resolveTimeZone(NEW_YORK)).toBe(NEW_YORK);
+    expect(resolveTimeZone('Mars/Olympus_Mons')).toBe('UTC');
+    expect(resolveTimeZone(null)).toBe('UTC');
+  });
+});
+
+describe('addDays', () => {
+  it('rolls over months and years', () => {
+    expect(addDays({ year: 2026, month: 2, day: 28 }, 1)).toEqual({ year: 2026, month: 3, day: 1 });
+    expect(addDays({ year: 2026, month: 1, day: 1 }, -1)).toEqual({ year: 2025, month: 12, day: 31 });
+  });
+});
+
+describe('parseTimeOfDay', () => {
+  it('parses HH:MM and rejects anything else', () => {
+    expect(parseTimeOfDay('07:05')).toEqual({ hour: 7, minute: 5 });
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('7:05')).toBeNull();
+  });
+});
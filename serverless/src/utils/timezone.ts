@@ -0,0 +1,162 @@
+/**
+ * Are You Safe? - Timezone Utilities
+ *
+ * Converts between UTC instants and wall-clock times in a user's
+ * IANA timezone using the runtime's Intl data (no external tz database).
+ */
+
+export interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;   // 1-31
+}
+
+export interface LocalDateTime extends LocalDate {
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0=Sunday ... 6=Saturday
+}
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+// Indexed by Date.getUTCDay() / LocalDateTime.weekday
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check if a string is a valid IANA timezone identifier
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone || typeof timeZone !== 'string') {
+    return false;
+  }
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a stored timezone, falling back to UTC if it is missing or invalid
+ */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a timezone
+ */
+export function getLocalDateTime(instant: Date, timeZone: string): LocalDateTime {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const values: Record<string, number> = {};
+  for (const part of parts) {
+    if (part.type !== 'literal') {
+      values[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  const year = values.year;
+  const month = values.month;
+  const day = values.day;
+
+  return {
+    year,
+    month,
+    day,
+    hour: values.hour % 24,
+    minute: values.minute,
+    second: values.second,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+}
+
+/**
+ * Get the UTC offset (in milliseconds) of a timezone at a given instant
+ * Positive east of Greenwich, e.g. +9h for Asia/Tokyo
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const local = getLocalDateTime(instant, timeZone);
+  const asUTC = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  const truncated = instant.getTime() - instant.getUTCMilliseconds();
+  return asUTC - truncated;
+}
+
+/**
+ * Convert a wall-clock time on a local date into a UTC instant
+ *
+ * DST handling:
+ * - Gap (spring forward): a time that does not exist is shifted forward
+ *   by the length of the gap, e.g. 02:30 becomes 03:30.
+ * - Overlap (fall back): a time that occurs twice resolves to the
+ *   earlier of the two instants.
+ */
+export function zonedTimeToUtc(date: LocalDate, hour: number, minute: number, timeZone: string): Date {
+  const wallAsUTC = Date.UTC(date.year, date.month - 1, date.day, hour, minute, 0);
+
+  // Offsets in effect shortly before and after the wall time cover any
+  // single transition that could affect it.
+  const offsetBefore = getTimeZoneOffset(new Date(wallAsUTC - 12 * 60 * 60 * 1000), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallAsUTC + 12 * 60 * 60 * 1000), timeZone);
+
+  const candidates: number[] = [];
+  for (const offset of [offsetBefore, offsetAfter]) {
+    const instant = wallAsUTC - offset;
+    if (getTimeZoneOffset(new Date(instant), timeZone) === offset && !candidates.includes(instant)) {
+      candidates.push(instant);
+    }
+  }
+
+  if (candidates.length > 0) {
+    // Overlap yields two candidates - take the earlier one
+    return new Date(Math.min(...candidates));
+  }
+
+  // Gap - interpret using the offset before the transition, which lands
+  // the same distance past the gap as the wall time was into it
+  return new Date(wallAsUTC - offsetBefore);
+}
+
+/**
+ * Add whole days to a local calendar date
+ */
+export function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+/**
+ * Parse an HH:MM string into hours and minutes
+ */
+export function parseTimeOfDay(time: string): { hour: number; minute: number } | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  if (!match) {
+    return null;
+  }
+  return { hour: parseInt(match[1], 10), minute: parseInt(match[2], 10) };
+}